@@ -11,6 +11,7 @@ require("hardhat-contract-sizer");
 import * as dotenv from "dotenv";
 dotenv.config();
 import "solidity-coverage";
+import "./tasks";
 
 
 task("accounts", "Prints the list of accounts", async (taskArgs, hre) => {
@@ -57,7 +58,14 @@ const config: HardhatUserConfig = {
     target: "ethers-v6",
   },
   networks: {
-  
+    hardhat: {
+      forking: process.env.FORK_URL
+        ? {
+            url: process.env.FORK_URL,
+            blockNumber: process.env.FORK_BLOCK ? parseInt(process.env.FORK_BLOCK) : undefined,
+          }
+        : undefined,
+    },
     rayls: {
       url: process.env.RAYLS_RPC_URL || "https://devnet-rpc.rayls.com",
       accounts: [process.env.PRIVATE_KEY??""],
@@ -0,0 +1,212 @@
+import * as fs from "fs";
+import { ethers } from "hardhat";
+import { writeJsonAtomic } from "./jsonFile";
+
+/**
+ * Deployed addresses per chain, in deployments/address-book.json (override
+ * with ADDRESS_BOOK):
+ *
+ * {
+ *   "version": 1,
+ *   "chains": {
+ *     "123123": {
+ *       "name": "rayls",
+ *       "registry": "0x...", "strategyManager": "0x...", "vaultImplementation": "0x...",
+ *       "vaults": { "nyUSDC": { "address": "0x...", "asset": "0x...", "strategies": ["0x..."] } }
+ *     }
+ *   }
+ * }
+ *
+ * Vaults are named by the symbol they were deployed with. deployAllContracts
+ * fills the book in; scripts, the bot and the frontend config generator read
+ * it. The file is validated on every read and write, and written atomically.
+ */
+
+export interface VaultEntry {
+  address: string;
+  asset: string;
+  strategies: string[];
+}
+
+export interface ChainEntry {
+  /** Hardhat network name the chain was deployed through */
+  name: string;
+  registry?: string;
+  strategyManager?: string;
+  vaultImplementation?: string;
+  vaults: Record<string, VaultEntry>;
+}
+
+export interface AddressBookFile {
+  version: 1;
+  chains: Record<string, ChainEntry>;
+}
+
+export type ChainId = number | bigint;
+
+export const DEFAULT_ADDRESS_BOOK_FILE = "deployments/address-book.json";
+
+export function validateAddressBook(raw: any, source: string): AddressBookFile {
+  const problems: string[] = [];
+  const checkAddress = (value: unknown, field: string) => {
+    if (typeof value !== "string" || !ethers.isAddress(value)) {
+      problems.push(`${field} must be an address (got ${JSON.stringify(value)})`);
+    }
+  };
+
+  if (raw?.version !== 1) {
+    problems.push(`version must be 1 (got ${JSON.stringify(raw?.version)})`);
+  }
+  if (typeof raw?.chains !== "object" || raw.chains === null || Array.isArray(raw.chains)) {
+    problems.push("chains must be an object keyed by chain id");
+  } else {
+    for (const [chainId, chain] of Object.entries<any>(raw.chains)) {
+      const at = `chains.${chainId}`;
+      if (!/^\d+$/.test(chainId)) {
+        problems.push(`${at}: chain ids must be decimal numbers`);
+      }
+      if (typeof chain?.name !== "string" || chain.name.length === 0) {
+        problems.push(`${at}.name is required`);
+      }
+      for (const field of ["registry", "strategyManager", "vaultImplementation"]) {
+        if (chain?.[field] !== undefined) checkAddress(chain[field], `${at}.${field}`);
+      }
+      if (typeof chain?.vaults !== "object" || chain.vaults === null || Array.isArray(chain.vaults)) {
+        problems.push(`${at}.vaults must be an object keyed by vault name`);
+        continue;
+      }
+      for (const [name, vault] of Object.entries<any>(chain.vaults)) {
+        checkAddress(vault?.address, `${at}.vaults.${name}.address`);
+        checkAddress(vault?.asset, `${at}.vaults.${name}.asset`);
+        if (!Array.isArray(vault?.strategies)) {
+          problems.push(`${at}.vaults.${name}.strategies must be a list`);
+        } else {
+          vault.strategies.forEach((s: unknown, i: number) => checkAddress(s, `${at}.vaults.${name}.strategies[${i}]`));
+        }
+      }
+    }
+  }
+
+  if (problems.length > 0) {
+    throw new Error(`Invalid address book ${source}:\n- ${problems.join("\n- ")}`);
+  }
+  return raw as AddressBookFile;
+}
+
+export class AddressBook {
+  readonly file: string;
+
+  constructor(file: string = process.env.ADDRESS_BOOK || DEFAULT_ADDRESS_BOOK_FILE) {
+    this.file = file;
+  }
+
+  getChain(chainId: ChainId): ChainEntry | undefined {
+    return this.read().chains[chainId.toString()];
+  }
+
+  /** The vault called `name` on `chainId`, or undefined if there is none. */
+  findVault(chainId: ChainId, name: string): VaultEntry | undefined {
+    return this.getChain(chainId)?.vaults[name];
+  }
+
+  getVault(chainId: ChainId, name: string): VaultEntry {
+    const vault = this.findVault(chainId, name);
+    if (!vault) {
+      const known = Object.keys(this.getChain(chainId)?.vaults ?? {});
+      throw new Error(
+        `No vault "${name}" on chain ${chainId} in ${this.file}` +
+        (known.length > 0 ? ` (known: ${known.join(", ")})` : "")
+      );
+    }
+    return vault;
+  }
+
+  listVaults(chainId: ChainId): Array<VaultEntry & { name: string }> {
+    const vaults = this.getChain(chainId)?.vaults ?? {};
+    return Object.entries(vaults).map(([name, vault]) => ({ name, ...vault }));
+  }
+
+  getRegistry(chainId: ChainId): string {
+    return this.required(chainId, "registry");
+  }
+
+  getStrategyManager(chainId: ChainId): string {
+    return this.required(chainId, "strategyManager");
+  }
+
+  /**
+   * Applies `change` to the entry for `chainId` (created if missing) and
+   * writes the book back.
+   */
+  update(chainId: ChainId, networkName: string, change: (chain: ChainEntry) => void): void {
+    const book = this.read();
+    const key = chainId.toString();
+    const chain = book.chains[key] ?? { name: networkName, vaults: {} };
+    change(chain);
+    book.chains[key] = chain;
+    this.write(validateAddressBook(book, this.file));
+  }
+
+  private required(chainId: ChainId, field: "registry" | "strategyManager"): string {
+    const address = this.getChain(chainId)?.[field];
+    if (!address) {
+      throw new Error(`No ${field} for chain ${chainId} in ${this.file}`);
+    }
+    return address;
+  }
+
+  private read(): AddressBookFile {
+    if (!fs.existsSync(this.file)) {
+      return { version: 1, chains: {} };
+    }
+    return validateAddressBook(JSON.parse(fs.readFileSync(this.file, "utf-8")), this.file);
+  }
+
+  private write(book: AddressBookFile): void {
+    writeJsonAtomic(this.file, book);
+  }
+}
+
+export async function currentChainId(): Promise<number> {
+  return Number((await ethers.provider.getNetwork()).chainId);
+}
+
+/** The address book's vault named VAULT on the current chain, or the chain's only vault. */
+async function vaultFromBook(env: NodeJS.ProcessEnv, book: AddressBook): Promise<VaultEntry | undefined> {
+  const chainId = await currentChainId();
+  if (env.VAULT) {
+    return book.getVault(chainId, env.VAULT);
+  }
+  const vaults = book.listVaults(chainId);
+  return vaults.length === 1 ? vaults[0] : undefined;
+}
+
+/**
+ * The vault a script acts on: VAULT_ADDRESS if set, otherwise the address
+ * book's vault named VAULT on the current chain, or the chain's only vault.
+ */
+export async function resolveVaultAddress(env: NodeJS.ProcessEnv = process.env, book: AddressBook = new AddressBook()): Promise<string | undefined> {
+  return env.VAULT_ADDRESS || (await vaultFromBook(env, book))?.address;
+}
+
+/** ASSET_ADDRESS if set, otherwise the asset of the vault resolveVaultAddress would pick. */
+export async function resolveAssetAddress(env: NodeJS.ProcessEnv = process.env, book: AddressBook = new AddressBook()): Promise<string | undefined> {
+  return env.ASSET_ADDRESS || (await vaultFromBook(env, book))?.asset;
+}
+
+/**
+ * The vault given on the command line - an address, or a name in the address
+ * book for the current chain - or, when none was given, resolveVaultAddress's.
+ */
+export async function lookupVault(vault: string | undefined, book: AddressBook = new AddressBook()): Promise<string> {
+  if (vault && ethers.isAddress(vault)) {
+    return vault;
+  }
+  const address = vault
+    ? book.getVault(await currentChainId(), vault).address
+    : await resolveVaultAddress(process.env, book);
+  if (!address) {
+    throw new Error("Pass --vault with an address or address book name, or set VAULT_ADDRESS / VAULT");
+  }
+  return address;
+}
@@ -0,0 +1,325 @@
+import * as fs from "fs";
+import * as path from "path";
+import * as nodemailer from "nodemailer";
+
+/**
+ * Alert channels for the bot.
+ *
+ * Sinks are configured from a JSON file (ALERT_CONFIG) or from env:
+ *   ALERT_WEBHOOK_URL, ALERT_WEBHOOK_FORMAT (slack | discord | json)
+ *   ALERT_SMTP_HOST, ALERT_SMTP_PORT, ALERT_SMTP_USER, ALERT_SMTP_PASS, ALERT_EMAIL_FROM, ALERT_EMAIL_TO
+ *   ALERT_FILE
+ *   ALERT_MIN_SEVERITY, ALERT_DEDUP_MINUTES
+ *
+ * Example ALERT_CONFIG file:
+ * {
+ *   "dedupWindowMinutes": 30,
+ *   "sinks": [
+ *     { "type": "webhook", "url": "https://hooks.slack.com/...", "format": "slack", "minSeverity": "warning" },
+ *     { "type": "email", "host": "smtp.example.com", "port": 587, "from": "bot@example.com", "to": ["ops@example.com"] },
+ *     { "type": "file", "path": "bot-data/alerts.jsonl" }
+ *   ]
+ * }
+ */
+
+export type AlertSeverity = "info" | "warning" | "critical";
+
+const SEVERITY_RANK: Record<AlertSeverity, number> = {
+  info: 0,
+  warning: 1,
+  critical: 2,
+};
+
+export interface Alert {
+  severity: AlertSeverity;
+  subject: string;
+  message: string;
+  /** Identifies the failing thing (e.g. a vault address) for dedup and recovery tracking */
+  key?: string;
+  timestamp: string;
+  suppressedCount?: number;
+}
+
+export interface AlertSink {
+  name: string;
+  minSeverity: AlertSeverity;
+  send(alert: Alert): Promise<void>;
+}
+
+export type WebhookFormat = "slack" | "discord" | "json";
+
+export interface SinkConfig {
+  type: "console" | "webhook" | "email" | "file";
+  minSeverity?: AlertSeverity;
+  // webhook
+  url?: string;
+  format?: WebhookFormat;
+  // email
+  host?: string;
+  port?: number;
+  secure?: boolean;
+  user?: string;
+  pass?: string;
+  from?: string;
+  to?: string[];
+  // file
+  path?: string;
+}
+
+export interface AlertConfig {
+  dedupWindowMinutes?: number;
+  sinks: SinkConfig[];
+}
+
+function formatAlert(alert: Alert): string {
+  const suppressed = alert.suppressedCount
+    ? ` (${alert.suppressedCount} similar alert(s) suppressed)`
+    : "";
+  return `[${alert.severity.toUpperCase()}] ${alert.subject}: ${alert.message}${suppressed}`;
+}
+
+export class ConsoleSink implements AlertSink {
+  name = "console";
+  minSeverity: AlertSeverity;
+
+  constructor(minSeverity: AlertSeverity = "info") {
+    this.minSeverity = minSeverity;
+  }
+
+  async send(alert: Alert): Promise<void> {
+    const icon = alert.severity === "info" ? "ℹ️ " : "🚨";
+    console.error(`\n${icon} ALERT: ${alert.subject}`);
+    console.error(`Message: ${formatAlert(alert)}`);
+  }
+}
+
+/**
+ * Posts alerts to an incoming webhook. `slack` sends `{ text }`, `discord`
+ * sends `{ content }`, and `json` sends both plus the structured alert.
+ */
+export class WebhookSink implements AlertSink {
+  name = "webhook";
+  minSeverity: AlertSeverity;
+  private url: string;
+  private format: WebhookFormat;
+  private timeoutMs: number;
+
+  constructor(url: string, format: WebhookFormat = "json", minSeverity: AlertSeverity = "info", timeoutMs: number = 10_000) {
+    this.url = url;
+    this.format = format;
+    this.minSeverity = minSeverity;
+    this.timeoutMs = timeoutMs;
+  }
+
+  async send(alert: Alert): Promise<void> {
+    const text = formatAlert(alert);
+    const body =
+      this.format === "slack" ? { text }
+      : this.format === "discord" ? { content: text }
+      : { text, content: text, ...alert };
+
+    const response = await fetch(this.url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+      signal: AbortSignal.timeout(this.timeoutMs),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Webhook responded with ${response.status} ${response.statusText}`);
+    }
+  }
+}
+
+export class EmailSink implements AlertSink {
+  name = "email";
+  minSeverity: AlertSeverity;
+  private transport: nodemailer.Transporter;
+  private from: string;
+  private to: string[];
+
+  constructor(config: SinkConfig) {
+    if (!config.host || !config.from || !config.to || config.to.length === 0) {
+      throw new Error("Email sink requires host, from and to");
+    }
+    this.minSeverity = config.minSeverity ?? "warning";
+    this.from = config.from;
+    this.to = config.to;
+    this.transport = nodemailer.createTransport({
+      host: config.host,
+      port: config.port ?? 587,
+      secure: config.secure ?? false,
+      auth: config.user ? { user: config.user, pass: config.pass } : undefined,
+    });
+  }
+
+  async send(alert: Alert): Promise<void> {
+    await this.transport.sendMail({
+      from: this.from,
+      to: this.to,
+      subject: `[${alert.severity.toUpperCase()}] ${alert.subject}`,
+      text: `${formatAlert(alert)}\n\nTime: ${alert.timestamp}${alert.key ? `\nKey: ${alert.key}` : ""}`,
+    });
+  }
+}
+
+export class FileSink implements AlertSink {
+  name = "file";
+  minSeverity: AlertSeverity;
+  private file: string;
+
+  constructor(file: string, minSeverity: AlertSeverity = "info") {
+    this.file = file;
+    this.minSeverity = minSeverity;
+  }
+
+  async send(alert: Alert): Promise<void> {
+    await fs.promises.mkdir(path.dirname(this.file), { recursive: true });
+    await fs.promises.appendFile(this.file, JSON.stringify(alert) + "\n");
+  }
+}
+
+/**
+ * Fans alerts out to every sink, suppresses repeats of the same subject and
+ * key inside the dedup window, and sends a "recovered" notice once a key
+ * that was alerting is resolved.
+ */
+export class AlertManager {
+  private sinks: AlertSink[];
+  private dedupWindowMs: number;
+  private lastSent = new Map<string, { at: number; suppressed: number }>();
+  private failing = new Map<string, { since: string; subject: string }>();
+
+  constructor(sinks: AlertSink[], dedupWindowMinutes: number = 30) {
+    this.sinks = sinks;
+    this.dedupWindowMs = dedupWindowMinutes * 60 * 1000;
+  }
+
+  async alert(
+    severity: AlertSeverity,
+    subject: string,
+    message: string,
+    key?: string
+  ): Promise<void> {
+    const now = Date.now();
+    const dedupKey = `${key ?? ""}|${subject}`;
+    const previous = this.lastSent.get(dedupKey);
+
+    if (key && severity !== "info" && !this.failing.has(key)) {
+      this.failing.set(key, { since: new Date(now).toISOString(), subject });
+    }
+
+    if (previous && now - previous.at < this.dedupWindowMs) {
+      previous.suppressed++;
+      return;
+    }
+
+    this.lastSent.set(dedupKey, { at: now, suppressed: 0 });
+    await this.dispatch({
+      severity,
+      subject,
+      message,
+      key,
+      timestamp: new Date(now).toISOString(),
+      suppressedCount: previous?.suppressed || undefined,
+    });
+  }
+
+  /** Marks `key` healthy again, notifying the sinks if it was alerting. */
+  async resolve(key: string, message: string = "Operating normally again"): Promise<void> {
+    const failure = this.failing.get(key);
+    if (!failure) return;
+
+    this.failing.delete(key);
+    for (const dedupKey of this.lastSent.keys()) {
+      if (dedupKey.startsWith(`${key}|`)) this.lastSent.delete(dedupKey);
+    }
+
+    await this.dispatch({
+      severity: "info",
+      subject: `Recovered: ${failure.subject}`,
+      message: `${message} (failing since ${failure.since})`,
+      key,
+      timestamp: new Date().toISOString(),
+    });
+  }
+
+  isFailing(key: string): boolean {
+    return this.failing.has(key);
+  }
+
+  private async dispatch(alert: Alert): Promise<void> {
+    const targets = this.sinks.filter(
+      sink => SEVERITY_RANK[alert.severity] >= SEVERITY_RANK[sink.minSeverity]
+    );
+    const results = await Promise.allSettled(targets.map(sink => sink.send(alert)));
+
+    results.forEach((result, i) => {
+      if (result.status === "rejected") {
+        console.error(`⚠️  Alert sink ${targets[i].name} failed:`, result.reason?.message ?? result.reason);
+      }
+    });
+  }
+}
+
+export function createSink(config: SinkConfig): AlertSink {
+  switch (config.type) {
+    case "console":
+      return new ConsoleSink(config.minSeverity);
+    case "webhook":
+      if (!config.url) throw new Error("Webhook sink requires url");
+      return new WebhookSink(config.url, config.format, config.minSeverity);
+    case "email":
+      return new EmailSink(config);
+    case "file":
+      if (!config.path) throw new Error("File sink requires path");
+      return new FileSink(config.path, config.minSeverity);
+    default:
+      throw new Error(`Unknown alert sink type: ${(config as SinkConfig).type}`);
+  }
+}
+
+export function loadAlertConfig(env: NodeJS.ProcessEnv = process.env): AlertConfig {
+  if (env.ALERT_CONFIG) {
+    return JSON.parse(fs.readFileSync(env.ALERT_CONFIG, "utf-8"));
+  }
+
+  const minSeverity = env.ALERT_MIN_SEVERITY as AlertSeverity | undefined;
+  const sinks: SinkConfig[] = [{ type: "console" }];
+
+  if (env.ALERT_WEBHOOK_URL) {
+    sinks.push({
+      type: "webhook",
+      url: env.ALERT_WEBHOOK_URL,
+      format: (env.ALERT_WEBHOOK_FORMAT as WebhookFormat) || "json",
+      minSeverity,
+    });
+  }
+
+  if (env.ALERT_SMTP_HOST) {
+    sinks.push({
+      type: "email",
+      host: env.ALERT_SMTP_HOST,
+      port: env.ALERT_SMTP_PORT ? parseInt(env.ALERT_SMTP_PORT) : undefined,
+      secure: env.ALERT_SMTP_SECURE === "true",
+      user: env.ALERT_SMTP_USER,
+      pass: env.ALERT_SMTP_PASS,
+      from: env.ALERT_EMAIL_FROM,
+      to: env.ALERT_EMAIL_TO?.split(",").map(s => s.trim()),
+      minSeverity,
+    });
+  }
+
+  if (env.ALERT_FILE) {
+    sinks.push({ type: "file", path: env.ALERT_FILE, minSeverity });
+  }
+
+  return {
+    dedupWindowMinutes: env.ALERT_DEDUP_MINUTES ? parseInt(env.ALERT_DEDUP_MINUTES) : undefined,
+    sinks,
+  };
+}
+
+export function createAlertManager(config: AlertConfig = loadAlertConfig()): AlertManager {
+  return new AlertManager(config.sinks.map(createSink), config.dedupWindowMinutes);
+}
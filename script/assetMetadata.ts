@@ -0,0 +1,83 @@
+import { ethers } from "hardhat";
+import { BigNumberish, ContractRunner } from "ethers";
+import { IERC20Metadata__factory, IERC4626__factory } from "../typechain";
+
+/**
+ * Token metadata used to format and parse amounts in scripts and the bot.
+ *
+ * Decimals and symbols are read on-chain once per address and cached for the
+ * life of the process, so vaults on 6- and 18-decimal assets both display
+ * correctly without hardcoding USDC. Lookups read through `runner`, so a
+ * caller on its own RPC provider (the bot with RPC_URL) passes its provider
+ * or signer; scripts use the hardhat network's provider.
+ */
+export class TokenMetadata {
+    readonly address: string;
+    readonly symbol: string;
+    readonly decimals: number;
+
+    constructor(address: string, symbol: string, decimals: number) {
+        this.address = address;
+        this.symbol = symbol;
+        this.decimals = decimals;
+    }
+
+    /** Amount in base units -> decimal string, e.g. 1500000n -> "1.5" for 6 decimals */
+    format(amount: BigNumberish): string {
+        return ethers.formatUnits(amount, this.decimals);
+    }
+
+    /** Decimal string -> amount in base units */
+    parse(value: string): bigint {
+        return ethers.parseUnits(value, this.decimals);
+    }
+
+    /** Formatted amount followed by the symbol, e.g. "1.5 USDC" */
+    display(amount: BigNumberish): string {
+        return `${this.format(amount)} ${this.symbol}`;
+    }
+}
+
+export interface VaultMetadata {
+    /** The vault's underlying `asset()` */
+    asset: TokenMetadata;
+    /** The vault's own share token */
+    shares: TokenMetadata;
+}
+
+const tokenCache = new Map<string, Promise<TokenMetadata>>();
+const vaultCache = new Map<string, Promise<VaultMetadata>>();
+
+export function getTokenMetadata(tokenAddress: string, runner: ContractRunner = ethers.provider): Promise<TokenMetadata> {
+    const key = tokenAddress.toLowerCase();
+    let cached = tokenCache.get(key);
+    if (!cached) {
+        cached = (async () => {
+            const token = IERC20Metadata__factory.connect(tokenAddress, runner);
+            const [symbol, decimals] = await Promise.all([token.symbol(), token.decimals()]);
+            return new TokenMetadata(tokenAddress, symbol, Number(decimals));
+        })();
+        // Don't cache a failed lookup; the next call should retry.
+        cached.catch(() => tokenCache.delete(key));
+        tokenCache.set(key, cached);
+    }
+    return cached;
+}
+
+export function getVaultMetadata(vaultAddress: string, runner: ContractRunner = ethers.provider): Promise<VaultMetadata> {
+    const key = vaultAddress.toLowerCase();
+    let cached = vaultCache.get(key);
+    if (!cached) {
+        cached = (async () => {
+            const vault = IERC4626__factory.connect(vaultAddress, runner);
+            const [asset, shares] = await Promise.all([
+                vault.asset().then(asset => getTokenMetadata(asset, runner)),
+                getTokenMetadata(vaultAddress, runner),
+            ]);
+            return { asset, shares };
+        })();
+        cached.catch(() => vaultCache.delete(key));
+        vaultCache.set(key, cached);
+    }
+    return cached;
+}
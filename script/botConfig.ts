@@ -0,0 +1,238 @@
+import * as fs from "fs";
+import { ethers } from "hardhat";
+import { AddressBook, currentChainId } from "./addressBook";
+import { SignerSource, signerSourceFromEnv } from "./signers";
+
+/**
+ * Vault list for the rebalancing bot.
+ *
+ * Read from a JSON file (BOT_CONFIG), e.g.
+ * {
+ *   "defaults": { "thresholdBps": 100, "syncToleranceBps": 50, "intervalMinutes": 60, "cost": { "maxGasPriceGwei": 50 },
+ *                 "harvest": { "intervalMinutes": 1440, "minGain": "5" } },
+ *   "discovery": { "registry": "0x...", "assets": ["0x..."] },
+ *   "vaults": [
+ *     { "name": "nyUSDC", "thresholdBps": 50,
+ *       "signer": { "type": "keystore", "path": "keys/nyusdc-bot.json", "passwordFile": "/run/secrets/nyusdc-bot" },
+ *       "cost": { "minTradeAmount": "250", "nativePriceInAsset": "3000", "benefitBps": 10 },
+ *       "harvest": { "strategies": { "0xStrategyA": 360, "0xStrategyB": 0 } } }
+ *   ]
+ * }
+ *
+ * A vault given by name only is looked up in the address book (./addressBook)
+ * for the current chain; with no vaults and no discovery configured, the bot
+ * manages every vault the address book has for the chain.
+ *
+ * or from env: VAULT_ADDRESS or VAULT (vault names; both comma-separated for several vaults),
+ * REBALANCE_THRESHOLD_BPS, SYNC_TOLERANCE_BPS, INTERVAL_MINUTES, and DISCOVER_VAULTS=true with
+ * REGISTRY_ADDRESS (optionally DISCOVER_ASSETS) to pull vaults from the registry.
+ * Cost limits come from MIN_TRADE_AMOUNT, MAX_GAS_PRICE_GWEI,
+ * NATIVE_PRICE_IN_ASSET and REBALANCE_BENEFIT_BPS; harvesting from
+ * HARVEST_INTERVAL_MINUTES and HARVEST_MIN_GAIN. The default signer comes from
+ * BOT_KEYSTORE, BOT_REMOTE_SIGNER or BOT_PRIVATE_KEY (see ./signers).
+ */
+
+/**
+ * Limits that keep the bot from spending more on gas than a rebalance is worth.
+ * Amounts are decimal strings in the vault asset's units (e.g. "250" USDC).
+ */
+export interface CostPolicy {
+  /** Deposit/withdraw legs smaller than this are dropped from the plan */
+  minTradeAmount?: string;
+  /** Defer the run while the network gas price is above this */
+  maxGasPriceGwei?: number;
+  /** Value of one native gas token in asset units; enables the cost/benefit check */
+  nativePriceInAsset?: string;
+  /** Expected gain from moving capital back on target, in bps of the amount moved */
+  benefitBps?: number;
+}
+
+/**
+ * When the bot calls harvest() on a vault's strategies. A harvest is only sent
+ * when simulating it shows a gain of at least `minGain` that also covers its
+ * gas cost (priced with the vault's `cost.nativePriceInAsset`, when set).
+ */
+export interface HarvestPolicy {
+  /** Minutes between harvests of each strategy; harvesting is off when unset */
+  intervalMinutes?: number;
+  /** Per-strategy cadence in minutes keyed by strategy address; 0 turns a strategy off */
+  strategies?: Record<string, number>;
+  /** Smallest gain worth harvesting, in asset units (default: any gain) */
+  minGain?: string;
+}
+
+export interface VaultBotConfig {
+  /** Looked up in the address book by `name` when omitted */
+  address?: string;
+  name?: string;
+  thresholdBps?: number;
+  /** Cached vs live strategy balance gap, in bps of total assets, that triggers syncStrategyBalances() */
+  syncToleranceBps?: number;
+  intervalMinutes?: number;
+  /** Where this vault's bot key comes from; the default signer is used when unset */
+  signer?: SignerSource;
+  /** Shorthand for a `privateKey` signer reading this env var */
+  signerKeyEnv?: string;
+  cost?: CostPolicy;
+  harvest?: HarvestPolicy;
+}
+
+export interface DiscoveryConfig {
+  registry: string;
+  /** Only discover vaults for these assets; every registry vault when omitted */
+  assets?: string[];
+}
+
+export interface BotConfig {
+  defaults: {
+    thresholdBps: number;
+    syncToleranceBps: number;
+    intervalMinutes: number;
+    signer?: SignerSource;
+    signerKeyEnv?: string;
+    cost?: CostPolicy;
+    harvest?: HarvestPolicy;
+  };
+  vaults: VaultBotConfig[];
+  discovery?: DiscoveryConfig;
+}
+
+export interface ResolvedVaultConfig {
+  address: string;
+  name?: string;
+  thresholdBps: number;
+  syncToleranceBps: number;
+  intervalMinutes: number;
+  signer?: SignerSource;
+  cost: CostPolicy;
+  harvest: HarvestPolicy;
+}
+
+export function loadBotConfig(env: NodeJS.ProcessEnv = process.env): BotConfig {
+  const defaults = {
+    thresholdBps: parseInt(env.REBALANCE_THRESHOLD_BPS || "100"),
+    syncToleranceBps: parseInt(env.SYNC_TOLERANCE_BPS || "50"),
+    intervalMinutes: parseInt(env.INTERVAL_MINUTES || "1"),
+    signer: signerSourceFromEnv("BOT_", env) ?? undefined,
+    cost: {
+      minTradeAmount: env.MIN_TRADE_AMOUNT,
+      maxGasPriceGwei: env.MAX_GAS_PRICE_GWEI ? parseFloat(env.MAX_GAS_PRICE_GWEI) : undefined,
+      nativePriceInAsset: env.NATIVE_PRICE_IN_ASSET,
+      benefitBps: env.REBALANCE_BENEFIT_BPS ? parseInt(env.REBALANCE_BENEFIT_BPS) : undefined,
+    },
+    harvest: {
+      intervalMinutes: env.HARVEST_INTERVAL_MINUTES ? parseFloat(env.HARVEST_INTERVAL_MINUTES) : undefined,
+      minGain: env.HARVEST_MIN_GAIN,
+    },
+  };
+
+  if (env.BOT_CONFIG) {
+    const file = JSON.parse(fs.readFileSync(env.BOT_CONFIG, "utf-8"));
+    return {
+      defaults: {
+        ...defaults,
+        ...file.defaults,
+        cost: { ...defaults.cost, ...file.defaults?.cost },
+        harvest: { ...defaults.harvest, ...file.defaults?.harvest },
+      },
+      vaults: file.vaults ?? [],
+      discovery: file.discovery,
+    };
+  }
+
+  const list = (value: string | undefined) => (value || "")
+    .split(",")
+    .map(item => item.trim())
+    .filter(item => item.length > 0);
+  const vaults: VaultBotConfig[] = [
+    ...list(env.VAULT_ADDRESS).map(address => ({ address })),
+    ...list(env.VAULT).map(name => ({ name })),
+  ];
+
+  let discovery: DiscoveryConfig | undefined;
+  if (env.DISCOVER_VAULTS === "true") {
+    if (!env.REGISTRY_ADDRESS) {
+      throw new Error("REGISTRY_ADDRESS is required when DISCOVER_VAULTS=true");
+    }
+    discovery = {
+      registry: env.REGISTRY_ADDRESS,
+      assets: env.DISCOVER_ASSETS?.split(",").map(a => a.trim()),
+    };
+  }
+
+  return { defaults, vaults, discovery };
+}
+
+export async function discoverVaults(discovery: DiscoveryConfig): Promise<string[]> {
+  const registry = await ethers.getContractAt("RaylsVaultRegistry", discovery.registry);
+
+  if (discovery.assets && discovery.assets.length > 0) {
+    const perAsset = await Promise.all(discovery.assets.map(asset => registry.getVaults(asset)));
+    return perAsset.flat();
+  }
+
+  const count = Number(await registry.allVaultsLength());
+  const vaults: string[] = [];
+  for (let i = 0; i < count; i++) {
+    vaults.push(await registry.allVaults(i));
+  }
+  return vaults;
+}
+
+/**
+ * Merges explicit vault entries with discovered ones and fills in defaults.
+ * An explicit entry wins over a discovered vault with the same address.
+ */
+export async function resolveVaults(config: BotConfig, book: AddressBook = new AddressBook()): Promise<ResolvedVaultConfig[]> {
+  let chainId: number | undefined;
+  const entries: Array<VaultBotConfig & { address: string }> = [];
+  for (const entry of config.vaults) {
+    if (entry.address) {
+      entries.push({ ...entry, address: entry.address });
+    } else if (entry.name) {
+      chainId ??= await currentChainId();
+      entries.push({ ...entry, address: book.getVault(chainId, entry.name).address });
+    } else {
+      throw new Error("Every configured vault needs an address or an address book name");
+    }
+  }
+
+  if (entries.length === 0 && !config.discovery) {
+    chainId ??= await currentChainId();
+    for (const vault of book.listVaults(chainId)) {
+      entries.push({ address: vault.address, name: vault.name });
+    }
+  }
+
+  if (config.discovery) {
+    const known = new Set(entries.map(v => v.address.toLowerCase()));
+    for (const address of await discoverVaults(config.discovery)) {
+      if (!known.has(address.toLowerCase())) {
+        known.add(address.toLowerCase());
+        entries.push({ address });
+      }
+    }
+  }
+
+  return entries.map(entry => ({
+    address: entry.address,
+    name: entry.name,
+    thresholdBps: entry.thresholdBps ?? config.defaults.thresholdBps,
+    syncToleranceBps: entry.syncToleranceBps ?? config.defaults.syncToleranceBps,
+    intervalMinutes: entry.intervalMinutes ?? config.defaults.intervalMinutes,
+    signer: entry.signer
+      ?? keyEnvSigner(entry.signerKeyEnv)
+      ?? keyEnvSigner(config.defaults.signerKeyEnv)
+      ?? config.defaults.signer,
+    cost: { ...config.defaults.cost, ...entry.cost },
+    harvest: {
+      ...config.defaults.harvest,
+      ...entry.harvest,
+      strategies: { ...config.defaults.harvest?.strategies, ...entry.harvest?.strategies },
+    },
+  }));
+}
+
+function keyEnvSigner(env: string | undefined): SignerSource | undefined {
+  return env ? { type: "privateKey", env } : undefined;
+}
@@ -0,0 +1,220 @@
+import * as http from "http";
+import { ethers } from "ethers";
+
+/**
+ * Health checks and Prometheus metrics for the rebalancing bot.
+ *
+ *   GET /healthz  200 while every vault loop has attempted a run recently (liveness)
+ *   GET /readyz   200 once every vault has completed a run and none is failing repeatedly
+ *   GET /metrics  Prometheus text exposition format
+ *
+ * Served on HEALTH_PORT (default 9464; 0 disables the server).
+ */
+
+export const DEFAULT_HEALTH_PORT = 9464;
+
+interface VaultState {
+  intervalSeconds: number;
+  asset?: string;
+  lastRun?: number;
+  lastSuccess?: number;
+  consecutiveFailures: number;
+  runs: Map<string, number>;
+  totalAssets?: string;
+  idleAssets?: string;
+  drift: Map<string, bigint>;
+  discrepancy: Map<string, bigint>;
+  gasSpent: bigint;
+}
+
+export interface HealthOptions {
+  /** A vault counts as hung after this many missed intervals */
+  staleIntervals?: number;
+  /** Consecutive failures before a vault makes the bot not ready */
+  maxConsecutiveFailures?: number;
+}
+
+export interface HealthReport {
+  ok: boolean;
+  vaults: Record<string, { ok: boolean; reason?: string }>;
+}
+
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+}
+
+function labels(values: Record<string, string>): string {
+  const pairs = Object.entries(values).map(([k, v]) => `${k}="${escapeLabel(v)}"`);
+  return pairs.length ? `{${pairs.join(",")}}` : "";
+}
+
+export class BotMetrics {
+  private vaults = new Map<string, VaultState>();
+  private signerBalances = new Map<string, bigint>();
+  private startedAt = Date.now();
+  private staleIntervals: number;
+  private maxConsecutiveFailures: number;
+
+  constructor(options: HealthOptions = {}) {
+    this.staleIntervals = options.staleIntervals ?? 3;
+    this.maxConsecutiveFailures = options.maxConsecutiveFailures ?? 3;
+  }
+
+  registerVault(vault: string, intervalMinutes: number): void {
+    if (!this.vaults.has(vault)) {
+      this.vaults.set(vault, {
+        intervalSeconds: intervalMinutes * 60,
+        consecutiveFailures: 0,
+        runs: new Map(),
+        drift: new Map(),
+        discrepancy: new Map(),
+        gasSpent: 0n,
+      });
+    }
+  }
+
+  private vault(vault: string): VaultState {
+    this.registerVault(vault, 60);
+    return this.vaults.get(vault)!;
+  }
+
+  /** Records the outcome of a run; any status other than "failed" counts as a success. */
+  recordRun(vault: string, status: string): void {
+    const state = this.vault(vault);
+    const now = Date.now();
+    state.lastRun = now;
+    state.runs.set(status, (state.runs.get(status) ?? 0) + 1);
+
+    if (status === "failed") {
+      state.consecutiveFailures++;
+    } else {
+      state.consecutiveFailures = 0;
+      state.lastSuccess = now;
+    }
+  }
+
+  /** Amounts are decimal strings in asset units, as formatted by TokenMetadata. */
+  recordAssets(vault: string, asset: string, totalAssets: string, idleAssets: string): void {
+    const state = this.vault(vault);
+    state.asset = asset;
+    state.totalAssets = totalAssets;
+    state.idleAssets = idleAssets;
+  }
+
+  recordDrift(vault: string, strategy: string, driftBps: bigint): void {
+    this.vault(vault).drift.set(strategy, driftBps);
+  }
+
+  /** Gap between the vault's cached and the strategy's live balance, in bps of total assets. */
+  recordDiscrepancy(vault: string, strategy: string, discrepancyBps: bigint): void {
+    this.vault(vault).discrepancy.set(strategy, discrepancyBps);
+  }
+
+  /** `wei` is gasUsed * effective gas price of a mined transaction. */
+  addGasSpent(vault: string, wei: bigint): void {
+    this.vault(vault).gasSpent += wei;
+  }
+
+  recordSignerBalance(signer: string, wei: bigint): void {
+    this.signerBalances.set(signer, wei);
+  }
+
+  liveness(now: number = Date.now()): HealthReport {
+    const vaults: HealthReport["vaults"] = {};
+    for (const [address, state] of this.vaults) {
+      const since = state.lastRun ?? this.startedAt;
+      const limitMs = state.intervalSeconds * 1000 * this.staleIntervals;
+      vaults[address] = now - since > limitMs
+        ? { ok: false, reason: `no run for ${Math.round((now - since) / 1000)}s` }
+        : { ok: true };
+    }
+    return { ok: Object.values(vaults).every(v => v.ok), vaults };
+  }
+
+  readiness(): HealthReport {
+    const vaults: HealthReport["vaults"] = {};
+    for (const [address, state] of this.vaults) {
+      if (state.lastRun === undefined) {
+        vaults[address] = { ok: false, reason: "first run not finished" };
+      } else if (state.consecutiveFailures >= this.maxConsecutiveFailures) {
+        vaults[address] = { ok: false, reason: `${state.consecutiveFailures} consecutive failures` };
+      } else {
+        vaults[address] = { ok: true };
+      }
+    }
+    return { ok: this.vaults.size > 0 && Object.values(vaults).every(v => v.ok), vaults };
+  }
+
+  render(): string {
+    const lines: string[] = [];
+    const metric = (name: string, type: string, help: string, samples: [Record<string, string>, string | number][]) => {
+      lines.push(`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`);
+      for (const [labelValues, value] of samples) {
+        lines.push(`${name}${labels(labelValues)} ${value}`);
+      }
+    };
+    const perVault = <T>(pick: (state: VaultState) => T | undefined, format: (value: T) => string | number) =>
+      [...this.vaults].flatMap(([vault, state]): [Record<string, string>, string | number][] => {
+        const value = pick(state);
+        return value === undefined ? [] : [[{ vault }, format(value)]];
+      });
+    const seconds = (ms: number) => (ms / 1000).toFixed(3);
+
+    metric("rayls_bot_up", "gauge", "Whether the bot process is running", [[{}, 1]]);
+    metric("rayls_bot_last_run_timestamp_seconds", "gauge", "Unix time of the last finished run",
+      perVault(s => s.lastRun, seconds));
+    metric("rayls_bot_last_success_timestamp_seconds", "gauge", "Unix time of the last run that did not fail",
+      perVault(s => s.lastSuccess, seconds));
+    metric("rayls_bot_consecutive_failures", "gauge", "Failed runs since the last successful one",
+      perVault(s => s.consecutiveFailures, v => v));
+    metric("rayls_bot_runs_total", "counter", "Finished runs by journal status",
+      [...this.vaults].flatMap(([vault, state]) =>
+        [...state.runs].map(([status, count]): [Record<string, string>, number] => [{ vault, status }, count])));
+    metric("rayls_bot_total_assets", "gauge", "Vault total assets in asset units",
+      [...this.vaults].flatMap(([vault, s]): [Record<string, string>, string][] =>
+        s.totalAssets === undefined ? [] : [[{ vault, asset: s.asset ?? "" }, s.totalAssets]]));
+    metric("rayls_bot_idle_assets", "gauge", "Assets held by the vault outside any strategy, in asset units",
+      [...this.vaults].flatMap(([vault, s]): [Record<string, string>, string][] =>
+        s.idleAssets === undefined ? [] : [[{ vault, asset: s.asset ?? "" }, s.idleAssets]]));
+    metric("rayls_bot_strategy_drift_bps", "gauge", "Distance of each strategy from its target, in bps of total assets",
+      [...this.vaults].flatMap(([vault, state]) =>
+        [...state.drift].map(([strategy, bps]): [Record<string, string>, string] => [{ vault, strategy }, bps.toString()])));
+    metric("rayls_bot_balance_discrepancy_bps", "gauge", "Gap between the vault's cached and each strategy's live balance, in bps of total assets",
+      [...this.vaults].flatMap(([vault, state]) =>
+        [...state.discrepancy].map(([strategy, bps]): [Record<string, string>, string] => [{ vault, strategy }, bps.toString()])));
+    metric("rayls_bot_gas_spent_native_total", "counter", "Gas paid for rebalance and harvest transactions, in native token",
+      perVault(s => s.gasSpent, v => ethers.formatEther(v)));
+    metric("rayls_bot_signer_balance_native", "gauge", "Native token balance of each bot signer",
+      [...this.signerBalances].map(([signer, wei]): [Record<string, string>, string] => [{ signer }, ethers.formatEther(wei)]));
+
+    return lines.join("\n") + "\n";
+  }
+}
+
+export function startHealthServer(metrics: BotMetrics, port: number = DEFAULT_HEALTH_PORT): Promise<http.Server> {
+  const server = http.createServer((req, res) => {
+    const url = (req.url ?? "/").split("?")[0];
+
+    if (req.method !== "GET") {
+      res.writeHead(405).end();
+      return;
+    }
+
+    if (url === "/metrics") {
+      res.writeHead(200, { "Content-Type": "text/plain; version=0.0.4" }).end(metrics.render());
+    } else if (url === "/healthz" || url === "/readyz") {
+      const report = url === "/healthz" ? metrics.liveness() : metrics.readiness();
+      res.writeHead(report.ok ? 200 : 503, { "Content-Type": "application/json" }).end(JSON.stringify(report));
+    } else {
+      res.writeHead(404).end();
+    }
+  });
+
+  return new Promise((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(port, () => {
+      server.off("error", reject);
+      resolve(server);
+    });
+  });
+}
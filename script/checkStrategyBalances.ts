@@ -1,29 +1,33 @@
 import { ethers } from "hardhat";
+import { getVaultMetadata } from "./assetMetadata";
 
-dotenv.config();
+/**
+ * Show the vault's idle balance and each strategy's balance against its target
+ *
+ * Usage:
+ * npx hardhat vault:strategies --vault nyUSDC --network rayls
+ */
 
-async function main() {
+export async function checkStrategyBalances(VAULT_ADDRESS: string) {
     console.log("\n" + "=".repeat(70));
     console.log("📊 STRATEGY BALANCES CHECK");
     console.log("=".repeat(70));
 
-    const VAULT_ADDRESS = process.env.VAULT_ADDRESS;
-    const ASSET_ADDRESS = process.env.ASSET_ADDRESS;
-
     const [signer] = await ethers.getSigners();
     const network = await ethers.provider.getNetwork();
+    const { asset: assetMeta, shares: shareMeta } = await getVaultMetadata(VAULT_ADDRESS);
     
     console.log("\n📋 Configuration:");
     console.log("━".repeat(70));
     console.log("Network:          ", network.name);
     console.log("Viewer:           ", signer.address);
     console.log("Vault:            ", VAULT_ADDRESS);
-    console.log("Asset (USDC):     ", ASSET_ADDRESS);
+    console.log("Asset:            ", `${assetMeta.symbol} (${assetMeta.address}, ${assetMeta.decimals} decimals)`);
     console.log("━".repeat(70));
 
     // Connect to contracts
     const vault = await ethers.getContractAt("RaylsVault", VAULT_ADDRESS);
-    const asset = await ethers.getContractAt("IERC20", ASSET_ADDRESS);
+    const asset = await ethers.getContractAt("IERC20", assetMeta.address);
 
     // ============================================
     // Vault Overview
@@ -40,10 +44,10 @@ async function main() {
     const botAddress = await vault.getAllocationBot();
     
     console.log("Multi-Strategy:   ", multiStrategyEnabled ? "✅ Enabled" : "❌ Disabled");
-    console.log("Total Assets:     ", ethers.formatUnits(totalAssets, 6), "USDC");
-    console.log("Idle in Vault:    ", ethers.formatUnits(vaultBalance, 6), "USDC");
-    console.log("Deployed:         ", ethers.formatUnits(totalAssets - vaultBalance, 6), "USDC");
-    console.log("Total Shares:     ", ethers.formatEther(totalSupply));
+    console.log("Total Assets:     ", assetMeta.display(totalAssets));
+    console.log("Idle in Vault:    ", assetMeta.display(vaultBalance));
+    console.log("Deployed:         ", assetMeta.display(totalAssets - vaultBalance));
+    console.log("Total Shares:     ", shareMeta.format(totalSupply));
     console.log("StrategyManager:  ", strategyManagerAddress);
     console.log("Bot:              ", botAddress);
     console.log("━".repeat(70));
@@ -88,12 +92,12 @@ async function main() {
             console.log(`\nStrategy ${i + 1}:`);
             console.log("  Address:        ", strat.strategy);
             console.log("  Target Weight:  ", `${targetWeight} (${(targetWeight/100).toFixed(2)}%)`);
-            console.log("  Actual Balance: ", ethers.formatUnits(actualBalance, 6), "USDC");
-            console.log("  Tracked Balance:", ethers.formatUnits(trackedBalance, 6), "USDC");
+            console.log("  Actual Balance: ", assetMeta.display(actualBalance));
+            console.log("  Tracked Balance:", assetMeta.display(trackedBalance));
             console.log("  % of Total:     ", `${percentOfTotal.toFixed(2)}%`);
             
             if (hasRewards && rewardAmount > 0n) {
-                console.log("  🎁 Rewards:     ", ethers.formatUnits(rewardAmount, 6), "USDC (not yet synced)");
+                console.log("  🎁 Rewards:     ", assetMeta.display(rewardAmount), "(not yet synced)");
             }
 
             const vaultInStrategy = await strategy.getVault();
@@ -120,9 +124,9 @@ async function main() {
     console.log("━".repeat(70));
     console.log("Total Strategies: ", strategies.length);
     console.log("Total Weight:     ", totalWeight, `(${(totalWeight/100).toFixed(2)}%)`);
-    console.log("Total Deployed:   ", ethers.formatUnits(totalDeployed, 6), "USDC");
-    console.log("Idle in Vault:    ", ethers.formatUnits(vaultBalance, 6), "USDC");
-    console.log("Grand Total:      ", ethers.formatUnits(totalAssets, 6), "USDC");
+    console.log("Total Deployed:   ", assetMeta.display(totalDeployed));
+    console.log("Idle in Vault:    ", assetMeta.display(vaultBalance));
+    console.log("Grand Total:      ", assetMeta.display(totalAssets));
     
     const utilizationRate = totalAssets > 0n 
         ? Number((totalDeployed * 10000n) / totalAssets) / 100 
@@ -158,15 +162,15 @@ async function main() {
             const isBalanced = difference === 0n;
             
             console.log(`Strategy ${i + 1}:`);
-            console.log(`  Target:         ${targetPercent.toFixed(2)}% (${ethers.formatUnits(targetAmount, 6)} USDC)`);
-            console.log(`  Actual:         ${actualPercent.toFixed(2)}% (${ethers.formatUnits(actualBalance, 6)} USDC)`);
+            console.log(`  Target:         ${targetPercent.toFixed(2)}% (${assetMeta.display(targetAmount)})`);
+            console.log(`  Actual:         ${actualPercent.toFixed(2)}% (${assetMeta.display(actualBalance)})`);
             
             if (isBalanced) {
                 console.log(`  Status:         ✅ Balanced`);
             } else if (difference > 0n) {
-                console.log(`  Status:         ⚠️  Over by ${ethers.formatUnits(difference, 6)} USDC`);
+                console.log(`  Status:         ⚠️  Over by ${assetMeta.display(difference)}`);
             } else {
-                console.log(`  Status:         ⚠️  Under by ${ethers.formatUnits(-difference, 6)} USDC`);
+                console.log(`  Status:         ⚠️  Under by ${assetMeta.display(-difference)}`);
             }
             
         } catch (error: any) {
@@ -184,7 +188,7 @@ async function main() {
     if (userShares > 0n) {
         console.log("\n👤 Your Position:");
         console.log("━".repeat(70));
-        console.log("Your Shares:      ", ethers.formatEther(userShares));
+        console.log("Your Shares:      ", shareMeta.format(userShares));
         
         const shareValue = totalSupply > 0n
             ? (totalAssets * userShares) / totalSupply
@@ -194,7 +198,7 @@ async function main() {
             ? Number((userShares * 10000n) / totalSupply) / 100
             : 0;
         
-        console.log("Share Value:      ", ethers.formatUnits(shareValue, 6), "USDC");
+        console.log("Share Value:      ", assetMeta.display(shareValue));
         console.log("% Ownership:      ", `${percentOwnership.toFixed(4)}%`);
         console.log("━".repeat(70));
     }
@@ -218,7 +222,7 @@ async function main() {
     let needsRebalance = false;
     for (let i = 0; i < strategies.length; i++) {
         const strat = strategies[i];
-        const strategy = await ethers.getContractAt("MockStrategy", strat.strategy);
+        const strategy = await ethers.getContractAt("IVaultStrategy", strat.strategy);
         const actualBalance = await strategy.getTotalAssets();
         const targetWeight = Number(strat.targetWeight);
         
@@ -242,11 +246,3 @@ async function main() {
     
     console.log("━".repeat(70));
 }
-
-main()
-    .then(() => process.exit(0))
-    .catch((error) => {
-        console.error(error);
-        process.exit(1);
-    });
-
@@ -1,32 +1,74 @@
-import { ethers } from "hardhat";
+import * as fs from "fs";
+import { ethers, network as hardhatNetwork } from "hardhat";
+import { loadSigner } from "./signers";
+import { CheckpointedDeployment, loadManifest, writeDeploymentRecord } from "./deployments";
+import { AddressBook } from "./addressBook";
 
+/**
+ * Deploy the registry, StrategyManager and a vault from a deployment manifest
+ * (see ./deployments for the format), write deployments/<network>.json and
+ * add the addresses to the address book under the vault's symbol.
+ *
+ * Usage:
+ * npx hardhat deploy:system --manifest deploy/rayls.yaml --network rayls
+ *
+ * The manifest defaults to deploy/<network>.yaml.
+ *
+ * Each finished step is checkpointed, so rerunning after a failure skips the
+ * contracts already deployed (if their on-chain code still matches) and the
+ * calls already made. The checkpoint is kept once everything succeeded, so a
+ * rerun of a finished deployment deploys nothing. Pass --fresh to ignore the
+ * checkpoint and deploy from scratch.
+ */
 
-async function main() {
+export interface DeployAllOptions {
+    /** Manifest file; deploy/<network>.yaml when omitted */
+    manifest?: string;
+    /** Ignore any checkpoint and deploy from scratch */
+    fresh?: boolean;
+}
+
+export async function deployAllContracts(options: DeployAllOptions = {}) {
     console.log("\n" + "=".repeat(60));
     console.log("🚀 COMPLETE SYSTEM DEPLOYMENT)");
     console.log("=".repeat(60));
 
-    const [deployer] = await ethers.getSigners();
+    const deployer = await loadSigner("WALLET_");
+    const deployerAddress = await deployer.getAddress();
     const network = await ethers.provider.getNetwork();
     
     console.log("\n📋 Configuration:");
     console.log("━".repeat(60));
     console.log("Network:          ", network.name);
     console.log("Chain ID:         ", Number(network.chainId));
-    console.log("Deployer:         ", deployer.address);
-    console.log("Balance:          ", ethers.formatEther(await deployer.provider.getBalance(deployer.address)), "ETH");
+    console.log("Deployer:         ", deployerAddress);
+    console.log("Balance:          ", ethers.formatEther(await ethers.provider.getBalance(deployerAddress)), "ETH");
     console.log("━".repeat(60));
 
-    const ASSET_ADDRESS = process.env.ASSET_ADDRESS || "0xDe21f028B087BB1fd148f998821307Ea71655CEE";
-    const TREASURY = deployer.address; 
-    
-    const STRATEGIES = process.env.STRATEGIES || "";
-    if (!STRATEGIES) {
-        throw new Error("STRATEGIES environment variable is not set");
+    const MANIFEST = options.manifest || `deploy/${hardhatNetwork.name}.yaml`;
+    if (!fs.existsSync(MANIFEST)) {
+        throw new Error(`Deployment manifest ${MANIFEST} not found - pass --manifest (see deploy/example.yaml)`);
     }
-    const STRATEGIES_ARRAY = STRATEGIES.split(",");
-    if (STRATEGIES_ARRAY.length === 0) {
-        throw new Error("STRATEGIES environment variable is not set");
+    const manifest = loadManifest(MANIFEST);
+    const FRESH = options.fresh === true;
+
+    const ASSET_ADDRESS = manifest.asset;
+    const TREASURY = manifest.treasury ?? deployerAddress;
+    const BOT = manifest.bot ?? deployerAddress;
+    const STRATEGIES = manifest.strategies;
+
+    console.log("Manifest:         ", MANIFEST);
+    console.log("Asset:            ", ASSET_ADDRESS);
+    console.log("Vault:            ", `${manifest.vault.name} (${manifest.vault.symbol})`);
+    console.log("Treasury:         ", TREASURY);
+    console.log("Bot:              ", BOT);
+    console.log("━".repeat(60));
+
+    const deployment = await CheckpointedDeployment.open(hardhatNetwork.name, manifest, ethers.provider, { fresh: FRESH });
+    if (deployment.completedAt) {
+        console.log(`\n♻️  Already deployed at ${deployment.completedAt} - reusing it (--fresh to deploy again)`);
+    } else if (deployment.resumed) {
+        console.log(`\n♻️  Resuming the deployment started at ${deployment.startedAt} (--fresh to start over)`);
     }
 
     // ============================================
@@ -35,11 +77,12 @@ async function main() {
     
     console.log("\n📝 Step 1: Deploying RaylsVault Implementation...");
     
-    const RaylsVault = await ethers.getContractFactory("RaylsVault");
-    const vaultImpl = await RaylsVault.deploy();
-    await vaultImpl.waitForDeployment();
-    
-    const vaultImplAddress = await vaultImpl.getAddress();
+    const vaultImplAddress = await deployment.contract("RaylsVault implementation", async () => {
+        const RaylsVault = await ethers.getContractFactory("RaylsVault", deployer);
+        const vaultImpl = await RaylsVault.deploy();
+        await vaultImpl.waitForDeployment();
+        return vaultImpl.getAddress();
+    });
     console.log("✅ RaylsVault Implementation:", vaultImplAddress);
 
     // ============================================
@@ -48,34 +91,50 @@ async function main() {
     
     console.log("\n📝 Step 2: Deploying RaylsVaultRegistry...");
     
-    const SimpleRegistry = await ethers.getContractFactory("RaylsVaultRegistry");
-    const registry = await SimpleRegistry.deploy(
-        vaultImplAddress,
-        TREASURY,
-        deployer.address // owner
-    );
-    await registry.waitForDeployment();
-    
-    const registryAddress = await registry.getAddress();
+    const registryAddress = await deployment.contract("RaylsVaultRegistry", async () => {
+        const SimpleRegistry = await ethers.getContractFactory("RaylsVaultRegistry", deployer);
+        const registry = await SimpleRegistry.deploy(
+            vaultImplAddress,
+            TREASURY,
+            deployerAddress // owner
+        );
+        await registry.waitForDeployment();
+        return registry.getAddress();
+    });
+    const registry = await ethers.getContractAt("RaylsVaultRegistry", registryAddress, deployer);
     console.log("✅ RaylsVaultRegistry:", registryAddress);
 
+    if (manifest.fees) {
+        const { deposit, management, performance, withdraw } = manifest.fees;
+        await deployment.step("Registry fees", async () => {
+            console.log("⏳ Setting fees...");
+            const feeTx = await registry.setFees(deposit, management, performance, withdraw);
+            await feeTx.wait();
+            console.log(`✅ Fees set (deposit ${deposit}, management ${management}, performance ${performance}, withdraw ${withdraw} bps)`);
+        });
+    }
+
     // ============================================
     // Step 3: Deploy StrategyManager
     // ============================================
     
     console.log("\n📝 Step 3: Deploying StrategyManager...");
     
-    const StrategyManager = await ethers.getContractFactory("src/StrategyManager.sol:StrategyManager");
-    const strategyManager = await StrategyManager.deploy();
-    await strategyManager.waitForDeployment();
-    
-    const strategyManagerAddress = await strategyManager.getAddress();
+    const strategyManagerAddress = await deployment.contract("StrategyManager", async () => {
+        const StrategyManager = await ethers.getContractFactory("src/StrategyManager.sol:StrategyManager", deployer);
+        const strategyManager = await StrategyManager.deploy();
+        await strategyManager.waitForDeployment();
+        return strategyManager.getAddress();
+    });
+    const strategyManager = await ethers.getContractAt("src/StrategyManager.sol:StrategyManager", strategyManagerAddress, deployer);
     console.log("✅ StrategyManager:", strategyManagerAddress);
     
-    console.log("⏳ Initializing StrategyManager...");
-    let tx = await strategyManager.initialize();
-    await tx.wait();
-    console.log("✅ StrategyManager initialized");
+    await deployment.step("StrategyManager initialization", async () => {
+        console.log("⏳ Initializing StrategyManager...");
+        const tx = await strategyManager.initialize();
+        await tx.wait();
+        console.log("✅ StrategyManager initialized");
+    });
 
     // ============================================
     // Step 4: Deploy Vault
@@ -83,35 +142,38 @@ async function main() {
     
     console.log("\n📝 Step 4: Deploying Vault...");
     
-    const deployTx = await registry.deployVault(
-        ASSET_ADDRESS,
-        "NativeYield USDC",
-        "nyUSDC",
-        STRATEGIES_ARRAY[0]
-    );
-    
-    console.log("⏳ Waiting for transaction...");
-    const receipt = await deployTx.wait();
-    
-    const event = receipt.logs.find((log: any) => {
-        try {
-            const parsed = registry.interface.parseLog(log);
-            return parsed?.name === "VaultDeployed";
-        } catch {
-            return false;
+    const vaultAddress = await deployment.contract("Vault", async () => {
+        const deployTx = await registry.deployVault(
+            ASSET_ADDRESS,
+            manifest.vault.name,
+            manifest.vault.symbol,
+            STRATEGIES[0].address
+        );
+        
+        console.log("⏳ Waiting for transaction...");
+        const receipt = await deployTx.wait();
+        
+        const event = receipt!.logs.find((log: any) => {
+            try {
+                const parsed = registry.interface.parseLog(log);
+                return parsed?.name === "VaultDeployed";
+            } catch {
+                return false;
+            }
+        });
+        
+        let vaultAddress;
+        if (event) {
+            const parsed = registry.interface.parseLog(event);
+            vaultAddress = parsed?.args?.vault;
         }
+        
+        if (!vaultAddress) {
+            throw new Error("Could not get vault address");
+        }
+        return vaultAddress;
     });
     
-    let vaultAddress;
-    if (event) {
-        const parsed = registry.interface.parseLog(event);
-        vaultAddress = parsed?.args?.vault;
-    }
-    
-    if (!vaultAddress) {
-        throw new Error("Could not get vault address");
-    }
-    
     console.log("✅ Vault deployed:", vaultAddress);
 
     // ============================================
@@ -120,22 +182,28 @@ async function main() {
     
     console.log("\n📝 Step 5: Configuring Multi-Strategy...");
     
-    const vault = await ethers.getContractAt("RaylsVault", vaultAddress);
+    const vault = await ethers.getContractAt("RaylsVault", vaultAddress, deployer);
     
-    console.log("⏳ Setting StrategyManager...");
-    tx = await vault.setStrategyManager(strategyManagerAddress);
-    await tx.wait();
-    console.log("✅ StrategyManager set");
+    await deployment.step("Vault StrategyManager", async () => {
+        console.log("⏳ Setting StrategyManager...");
+        const tx = await vault.setStrategyManager(strategyManagerAddress);
+        await tx.wait();
+        console.log("✅ StrategyManager set");
+    });
     
-    console.log("⏳ Setting bot...");
-    tx = await vault.setAllocationBot(deployer.address);
-    await tx.wait();
-    console.log("✅ Bot set");
+    await deployment.step("Vault allocation bot", async () => {
+        console.log("⏳ Setting bot...");
+        const tx = await vault.setAllocationBot(BOT);
+        await tx.wait();
+        console.log("✅ Bot set");
+    });
     
-    console.log("⏳ Enabling multi-strategy...");
-    tx = await vault.setMultiStrategyEnabled(true);
-    await tx.wait();
-    console.log("✅ Multi-strategy enabled");
+    await deployment.step("Vault multi-strategy mode", async () => {
+        console.log("⏳ Enabling multi-strategy...");
+        const tx = await vault.setMultiStrategyEnabled(true);
+        await tx.wait();
+        console.log("✅ Multi-strategy enabled");
+    });
 
     // ============================================
     // Step 6: Add Strategies
@@ -143,14 +211,15 @@ async function main() {
     
     console.log("\n📝 Step 6: Adding Strategies...");
     
-    const weight = Math.floor(10000 / STRATEGIES_ARRAY.length);
-    
-    for (let i = 0; i < STRATEGIES_ARRAY.length; i++) {
-        console.log(`⏳ Adding strategy ${i + 1}...`);
+    // Failures below are reported and left unmarked, so the next run retries them.
+    for (let i = 0; i < STRATEGIES.length; i++) {
         try {
-            tx = await vault.addStrategy(STRATEGIES_ARRAY[i], weight);
-            await tx.wait();
-            console.log(`✅ Strategy ${i + 1} added (${(weight/100).toFixed(2)}%)`);
+            await deployment.step(`Add strategy ${STRATEGIES[i].address}`, async () => {
+                console.log(`⏳ Adding strategy ${i + 1}...`);
+                const tx = await vault.addStrategy(STRATEGIES[i].address, STRATEGIES[i].weight);
+                await tx.wait();
+                console.log(`✅ Strategy ${i + 1} added (${(STRATEGIES[i].weight/100).toFixed(2)}%)`);
+            });
         } catch (error: any) {
             console.log(`⚠️  Strategy ${i + 1}:`, error.message);
         }
@@ -162,13 +231,15 @@ async function main() {
     
     console.log("\n📝 Step 7: Linking Strategies...");
     
-    for (let i = 0; i < STRATEGIES_ARRAY.length; i++) {
-        console.log(`⏳ Linking strategy ${i + 1}...`);
+    for (let i = 0; i < STRATEGIES.length; i++) {
         try {
-            const strategy = await ethers.getContractAt("IVaultStrategy", STRATEGIES_ARRAY[i]);
-            tx = await strategy.setVault(vaultAddress);
-            await tx.wait();
-            console.log(`✅ Strategy ${i + 1} linked`);
+            await deployment.step(`Link strategy ${STRATEGIES[i].address}`, async () => {
+                console.log(`⏳ Linking strategy ${i + 1}...`);
+                const strategy = await ethers.getContractAt("IVaultStrategy", STRATEGIES[i].address, deployer);
+                const tx = await strategy.setVault(vaultAddress);
+                await tx.wait();
+                console.log(`✅ Strategy ${i + 1} linked`);
+            });
         } catch (error: any) {
             console.log(`⚠️  Strategy ${i + 1}:`, error.message);
         }
@@ -181,9 +252,11 @@ async function main() {
     console.log("\n📝 Step 8: Authorizing Vault...");
     
     try {
-        tx = await strategyManager.setAuthorizedCaller(vaultAddress, true);
-        await tx.wait();
-        console.log("✅ Vault authorized");
+        await deployment.step("Vault authorization", async () => {
+            const tx = await strategyManager.setAuthorizedCaller(vaultAddress, true);
+            await tx.wait();
+            console.log("✅ Vault authorized");
+        });
     } catch (error: any) {
         console.log("⚠️  Authorization:", error.message);
     }
@@ -202,13 +275,13 @@ async function main() {
     console.log("Registry:             ", registryAddress);
     console.log("StrategyManager:      ", strategyManagerAddress);
     console.log("Vault:                ", vaultAddress);
-    console.log("Bot:                  ", deployer.address);
+    console.log("Bot:                  ", BOT);
     console.log("━".repeat(60));
 
     console.log("\n📝 Strategies:");
     console.log("━".repeat(60));
-    STRATEGIES_ARRAY.forEach((s, i) => {
-        console.log(`Strategy ${i + 1}:           ${s} (${(weight/100).toFixed(2)}%)`);
+    STRATEGIES.forEach((s, i) => {
+        console.log(`Strategy ${i + 1}:           ${s.address} (${(s.weight/100).toFixed(2)}%)`);
     });
     console.log("━".repeat(60));
 
@@ -221,46 +294,48 @@ async function main() {
     console.log(`cast call ${vaultAddress} "getStrategies()(tuple[])" --rpc-url $RAYLS_RPC_URL`);
     console.log("━".repeat(60));
 
-    const fs = require("fs");
-    fs.mkdirSync('deployments', { recursive: true });
-    
-    const deploymentInfo = {
-        network: network.name,
+    const recordFile = writeDeploymentRecord({
+        network: hardhatNetwork.name,
         chainId: Number(network.chainId),
-        timestamp: new Date().toISOString(),
-        deployer: deployer.address,
+        deployedAt: new Date().toISOString(),
+        deployer: deployerAddress,
+        manifest: MANIFEST,
         contracts: {
             vaultImplementation: vaultImplAddress,
             registry: registryAddress,
             strategyManager: strategyManagerAddress,
             vault: vaultAddress,
             asset: ASSET_ADDRESS,
-            treasury: TREASURY,
-            bot: deployer.address,
-            strategies: STRATEGIES_ARRAY.map((s, i) => ({
-                address: s,
-                weight: weight,
-                percentage: `${(weight/100).toFixed(2)}%`
-            }))
         },
-        config: {
-            multiStrategyEnabled: true,
-            registryType: "RaylsVaultRegistry"
-        }
-    };
-
-    fs.writeFileSync(
-        `deployments/complete_system_${Date.now()}.json`,
-        JSON.stringify(deploymentInfo, null, 2)
-    );
+        vault: manifest.vault,
+        bot: BOT,
+        treasury: TREASURY,
+        fees: manifest.fees ?? null,
+        strategies: STRATEGIES,
+    });
 
-    console.log("\n💾 Deployment info saved!");
-}
+    console.log(`\n💾 Deployment record saved to ${recordFile}`);
 
-main()
-    .then(() => process.exit(0))
-    .catch((error) => {
-        console.error(error);
-        process.exit(1);
+    const addressBook = new AddressBook();
+    addressBook.update(network.chainId, hardhatNetwork.name, chain => {
+        chain.vaultImplementation = vaultImplAddress;
+        chain.registry = registryAddress;
+        chain.strategyManager = strategyManagerAddress;
+        chain.vaults[manifest.vault.symbol] = {
+            address: vaultAddress,
+            asset: ASSET_ADDRESS,
+            strategies: STRATEGIES.map(s => s.address),
+        };
     });
+    console.log(`📒 Address book updated: ${addressBook.file} (vault "${manifest.vault.symbol}")`);
 
+    const incomplete = [
+        ...STRATEGIES.flatMap(s => [`Add strategy ${s.address}`, `Link strategy ${s.address}`]),
+        "Vault authorization",
+    ].filter(name => !deployment.isDone(name));
+    if (incomplete.length > 0) {
+        console.log(`\n⚠️  ${incomplete.length} step(s) failed - rerun to retry them: ${incomplete.join(", ")}`);
+    } else {
+        deployment.finish();
+    }
+}
@@ -1,13 +1,25 @@
 import { ethers } from "hardhat";
+import { loadSigner } from "./signers";
+import { getTokenMetadata } from "./assetMetadata";
+
+/**
+ * Deploy a strategy for `asset`: a MockStrategyCorrect ("simple"), or an
+ * ERC4626ChildStrategy with its child vault ("erc4626")
+ *
+ * Usage:
+ * npx hardhat deploy:strategy --asset 0x... --type erc4626 --network rayls
+ */
+
+export type StrategyType = "erc4626" | "simple";
+
+export interface DeployStrategyOptions {
+    asset: string;
+    type: StrategyType;
+    /** Also deploy a standalone child vault for future strategies */
+    extraVault?: boolean;
+}
 
-async function main() {
-    const assetAddress = process.env.ASSET_ADDRESS;
-    const strategyType = process.env.STRATEGY_TYPE || "erc4626"; // "erc4626" or "simple"
-    
-    if (!assetAddress) {
-        throw new Error("❌ ASSET_ADDRESS environment variable not set");
-    }
-
+export async function deployStrategy({ asset: assetAddress, type: strategyType, extraVault }: DeployStrategyOptions) {
     console.log("\n" + "=".repeat(60));
     console.log("🚀 STRATEGY DEPLOYMENT");
     console.log("=".repeat(60));
@@ -15,9 +27,13 @@ async function main() {
     console.log("Strategy type:", strategyType);
     console.log("Network:", (await ethers.provider.getNetwork()).name);
 
-    const [deployer] = await ethers.getSigners();
-    console.log("Deployer:", deployer.address);
-    console.log("Balance:", ethers.formatEther(await deployer.provider.getBalance(deployer.address)), "ETH");
+    const assetMeta = await getTokenMetadata(assetAddress);
+    console.log("Asset:", `${assetMeta.symbol} (${assetMeta.decimals} decimals)`);
+
+    const deployer = await loadSigner("WALLET_");
+    const deployerAddress = await deployer.getAddress();
+    console.log("Deployer:", deployerAddress);
+    console.log("Balance:", ethers.formatEther(await ethers.provider.getBalance(deployerAddress)), "ETH");
 
     let strategyAddress: string;
     let childVaultAddress: string | null = null;
@@ -28,7 +44,7 @@ async function main() {
         // ============================================
         console.log("\n📝 Deploying MockStrategyCorrect (Simple)...");
         
-        const SimpleStrategy = await ethers.getContractFactory("MockStrategyCorrect");
+        const SimpleStrategy = await ethers.getContractFactory("MockStrategyCorrect", deployer);
         const simpleStrategy = await SimpleStrategy.deploy(assetAddress);
         await simpleStrategy.waitForDeployment();
         
@@ -41,7 +57,7 @@ async function main() {
         console.log("✅ want() returns:", wantToken);
         
         const totalAssets = await simpleStrategy.getTotalAssets();
-        console.log("✅ getTotalAssets():", ethers.formatEther(totalAssets));
+        console.log("✅ getTotalAssets():", assetMeta.display(totalAssets));
 
     } else {
         // ============================================
@@ -55,7 +71,7 @@ async function main() {
         
         console.log("   ↳ First, deploying dependency: ExtendedChildERC4626Vault...");
         
-        const ChildVault = await ethers.getContractFactory("ExtendedChildERC4626Vault");
+        const ChildVault = await ethers.getContractFactory("ExtendedChildERC4626Vault", deployer);
         const childVault = await ChildVault.deploy(
             assetAddress,
             "Child Vault USDC",
@@ -68,7 +84,7 @@ async function main() {
 
         console.log("\n📝 Step 2/3: Deploying ERC4626ChildStrategy...");
         
-        const Strategy = await ethers.getContractFactory("ERC4626ChildStrategy");
+        const Strategy = await ethers.getContractFactory("ERC4626ChildStrategy", deployer);
         const strategy = await Strategy.deploy(assetAddress, childVaultAddress);
         await strategy.waitForDeployment();
         
@@ -86,7 +102,7 @@ async function main() {
             console.log("✅ Strategy.CHILD_VAULT():", childVaultFromStrategy);
             
             const totalAssets = await strategy.getTotalAssets();
-            console.log("✅ Strategy.getTotalAssets():", ethers.formatEther(totalAssets));
+            console.log("✅ Strategy.getTotalAssets():", assetMeta.display(totalAssets));
             
             // Verify child vault
             const underlyingAsset = await childVault.asset();
@@ -103,10 +119,10 @@ async function main() {
         // ============================================
         // Optional: Deploy additional standalone child vault
         // ============================================
-        if (process.env.DEPLOY_EXTRA_VAULT === "true") {
+        if (extraVault) {
             console.log("\n📝 Bonus: Deploying additional standalone child vault...");
             
-            const ExtraVault = await ethers.getContractFactory("ExtendedChildERC4626Vault");
+            const ExtraVault = await ethers.getContractFactory("ExtendedChildERC4626Vault", deployer);
             const extraVault = await ExtraVault.deploy(
                 assetAddress,
                 "Extra Child Vault USDC",
@@ -153,7 +169,7 @@ async function main() {
     const deploymentInfo: any = {
         network: network.name,
         chainId: Number(network.chainId),
-        deployer: deployer.address,
+        deployer: deployerAddress,
         timestamp: new Date().toISOString(),
         contracts: {
             strategy: strategyAddress,
@@ -177,12 +193,12 @@ async function main() {
 
     console.log("\n📋 Next Steps:");
     console.log("━".repeat(60));
-    console.log("1. Update your .env file with the addresses above");
+    console.log("1. Add the strategy above to your deployment manifest (deploy/<network>.yaml)");
     console.log("2. Deploy your vault system:");
     console.log("   npm run deploy:system:rayls");
     console.log("");
-    console.log("3. After vault is deployed, link strategy to vault:");
-    console.log(`   cast send ${strategyAddress} "setVault(address)" VAULT_ADDRESS --rpc-url $RAYLS_RPC_URL --private-key $PRIVATE_KEY`);
+    console.log("3. After vault is deployed, link strategy to vault and add it (weight in bps):");
+    console.log(`   npx hardhat vault:link-strategies --strategies ${strategyAddress} --weight 2000 --network rayls`);
     
     if (strategyType === "erc4626" && childVaultAddress) {
         console.log("");
@@ -199,12 +215,5 @@ async function main() {
     
     console.log("━".repeat(60));
 
-    console.log("\n💡 Tip: To deploy a different strategy type, set STRATEGY_TYPE=simple or STRATEGY_TYPE=erc4626");
+    console.log("\n💡 Tip: To deploy a different strategy type, pass --type simple or --type erc4626");
 }
-
-main()
-    .then(() => process.exit(0))
-    .catch((error) => {
-        console.error(error);
-        process.exit(1);
-    });
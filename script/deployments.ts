@@ -0,0 +1,328 @@
+import * as fs from "fs";
+import * as path from "path";
+import { Provider } from "ethers";
+import { ethers } from "hardhat";
+import { writeJsonAtomic } from "./jsonFile";
+import { strategyWeightProblems } from "./strategyWeights";
+
+/**
+ * Deployment manifests (what deployAllContracts should deploy) and deployment
+ * records (what it deployed, per network).
+ *
+ * A manifest is YAML or JSON, e.g. deploy/rayls.yaml:
+ *
+ *   asset: "0x..."
+ *   vault:
+ *     name: NativeYield USDC      # the registry deploys it as "Rayls NativeYield USDC"
+ *     symbol: nyUSDC              # ... and "rnyUSDC"
+ *   strategies:                   # weights in bps, summing to 10000
+ *     - { address: "0x...", weight: 6000 }
+ *     - { address: "0x...", weight: 4000 }
+ *   bot: "0x..."                  # allocation bot; the deployer when omitted
+ *   treasury: "0x..."             # fee recipient; the deployer when omitted
+ *   fees: { deposit: 0, management: 100, performance: 1000, withdraw: 0 }   # bps
+ *
+ * The record of everything deployed and configured lands in
+ * deployments/<network>.json; the addresses also go into the address book
+ * (./addressBook), which is what other scripts look them up in.
+ *
+ * While a deployment is in progress, each finished step is checkpointed in
+ * deployments/<network>.checkpoint.json so a rerun picks up where it stopped.
+ */
+
+/** The registry rejects any single fee above this (RaylsVaultRegistry.MAX_BPS) */
+const MAX_FEE_BPS = 5000;
+
+export interface FeeManifest {
+  deposit: number;
+  management: number;
+  performance: number;
+  withdraw: number;
+}
+
+export interface StrategyManifest {
+  address: string;
+  /** Target weight in bps */
+  weight: number;
+}
+
+export interface DeploymentManifest {
+  asset: string;
+  vault: { name: string; symbol: string };
+  strategies: StrategyManifest[];
+  bot?: string;
+  treasury?: string;
+  fees?: FeeManifest;
+}
+
+export interface DeploymentRecord {
+  network: string;
+  chainId: number;
+  deployedAt: string;
+  deployer: string;
+  /** The manifest file the deployment was made from */
+  manifest: string;
+  contracts: {
+    vaultImplementation: string;
+    registry: string;
+    strategyManager: string;
+    vault: string;
+    asset: string;
+  };
+  vault: { name: string; symbol: string };
+  bot: string;
+  treasury: string;
+  fees: FeeManifest | null;
+  strategies: StrategyManifest[];
+}
+
+export const DEPLOYMENTS_DIR = "deployments";
+
+export function loadManifest(file: string): DeploymentManifest {
+  const text = fs.readFileSync(file, "utf-8");
+  // js-yaml parses JSON as well, but JSON.parse gives better errors for .json files.
+  const raw = file.endsWith(".json") ? JSON.parse(text) : require("js-yaml").load(text);
+  return validateManifest(raw, file);
+}
+
+export function validateManifest(raw: any, source: string): DeploymentManifest {
+  const problems: string[] = [];
+  const checkAddress = (value: unknown, field: string) => {
+    if (typeof value !== "string" || !ethers.isAddress(value)) {
+      problems.push(`${field} must be an address (got ${JSON.stringify(value)})`);
+    }
+  };
+
+  checkAddress(raw?.asset, "asset");
+  if (typeof raw?.vault?.name !== "string" || raw.vault.name.length === 0) {
+    problems.push("vault.name is required");
+  }
+  if (typeof raw?.vault?.symbol !== "string" || raw.vault.symbol.length === 0) {
+    problems.push("vault.symbol is required");
+  }
+  if (raw?.bot !== undefined) checkAddress(raw.bot, "bot");
+  if (raw?.treasury !== undefined) checkAddress(raw.treasury, "treasury");
+
+  problems.push(...strategyWeightProblems(raw?.strategies));
+
+  if (raw?.fees !== undefined) {
+    for (const fee of ["deposit", "management", "performance", "withdraw"] as const) {
+      const bps = raw.fees?.[fee] ?? 0;
+      if (!Number.isInteger(bps) || bps < 0 || bps > MAX_FEE_BPS) {
+        problems.push(`fees.${fee} must be between 0 and ${MAX_FEE_BPS} bps`);
+      }
+    }
+  }
+
+  if (problems.length > 0) {
+    throw new Error(`Invalid deployment manifest ${source}:\n- ${problems.join("\n- ")}`);
+  }
+
+  return {
+    asset: raw.asset,
+    vault: { name: raw.vault.name, symbol: raw.vault.symbol },
+    strategies: raw.strategies.map((s: any) => ({ address: s.address, weight: s.weight })),
+    bot: raw.bot,
+    treasury: raw.treasury,
+    fees: raw.fees && {
+      deposit: raw.fees.deposit ?? 0,
+      management: raw.fees.management ?? 0,
+      performance: raw.fees.performance ?? 0,
+      withdraw: raw.fees.withdraw ?? 0,
+    },
+  };
+}
+
+export function deploymentRecordPath(networkName: string, dir: string = DEPLOYMENTS_DIR): string {
+  return path.join(dir, `${networkName}.json`);
+}
+
+export function readDeploymentRecord(networkName: string, dir: string = DEPLOYMENTS_DIR): DeploymentRecord | null {
+  const file = deploymentRecordPath(networkName, dir);
+  if (!fs.existsSync(file)) {
+    return null;
+  }
+  return JSON.parse(fs.readFileSync(file, "utf-8"));
+}
+
+export function writeDeploymentRecord(record: DeploymentRecord, dir: string = DEPLOYMENTS_DIR): string {
+  const file = deploymentRecordPath(record.network, dir);
+  writeJsonAtomic(file, record);
+  return file;
+}
+
+// ============================================
+// Checkpoints
+// ============================================
+
+export interface CheckpointStep {
+  name: string;
+  /** Set for steps that deployed a contract */
+  address?: string;
+  /** keccak256 of the contract's runtime code right after deployment */
+  codeHash?: string;
+}
+
+export interface CheckpointFile {
+  network: string;
+  chainId: number;
+  /** Hash of the manifest the deployment started from */
+  manifestHash: string;
+  startedAt: string;
+  /** Set once every step has succeeded; the checkpoint is kept so reruns redeploy nothing */
+  completedAt?: string;
+  steps: CheckpointStep[];
+}
+
+export interface CheckpointOptions {
+  /** Ignore any checkpoint and start over */
+  fresh?: boolean;
+  dir?: string;
+}
+
+export function checkpointPath(networkName: string, dir: string = DEPLOYMENTS_DIR): string {
+  return path.join(dir, `${networkName}.checkpoint.json`);
+}
+
+export function manifestHash(manifest: DeploymentManifest): string {
+  return ethers.id(JSON.stringify(manifest));
+}
+
+async function codeHash(provider: Provider, address: string): Promise<string | null> {
+  const code = await provider.getCode(address);
+  return code === "0x" ? null : ethers.keccak256(code);
+}
+
+/**
+ * Runs deployment steps once. A rerun skips every step finished before, as
+ * long as the contracts those steps deployed still have the code they were
+ * deployed with; from the first one that does not, everything is redone.
+ * That holds after a complete deployment too: only `fresh` starts over.
+ */
+export class CheckpointedDeployment {
+  private file: string;
+  private state: CheckpointFile;
+  private provider: Provider;
+
+  private constructor(file: string, state: CheckpointFile, provider: Provider) {
+    this.file = file;
+    this.state = state;
+    this.provider = provider;
+  }
+
+  static async open(
+    networkName: string,
+    manifest: DeploymentManifest,
+    provider: Provider,
+    options: CheckpointOptions = {}
+  ): Promise<CheckpointedDeployment> {
+    const file = checkpointPath(networkName, options.dir);
+    const chainId = Number((await provider.getNetwork()).chainId);
+    const fresh: CheckpointFile = {
+      network: networkName,
+      chainId,
+      manifestHash: manifestHash(manifest),
+      startedAt: new Date().toISOString(),
+      steps: [],
+    };
+
+    if (options.fresh || !fs.existsSync(file)) {
+      return new CheckpointedDeployment(file, fresh, provider);
+    }
+
+    const saved: CheckpointFile = JSON.parse(fs.readFileSync(file, "utf-8"));
+    if (saved.chainId !== chainId) {
+      throw new Error(`Checkpoint ${file} is for chain ${saved.chainId}, not ${chainId} - rerun with --fresh`);
+    }
+    if (saved.manifestHash !== fresh.manifestHash) {
+      throw new Error(`The manifest changed since checkpoint ${file} was written - restore it or rerun with --fresh`);
+    }
+
+    const deployment = new CheckpointedDeployment(file, saved, provider);
+    await deployment.dropInvalidSteps();
+    return deployment;
+  }
+
+  get startedAt(): string {
+    return this.state.startedAt;
+  }
+
+  get resumed(): boolean {
+    return this.state.steps.length > 0;
+  }
+
+  /** When an earlier run finished every step, if one did. */
+  get completedAt(): string | undefined {
+    return this.state.completedAt;
+  }
+
+  isDone(name: string): boolean {
+    return this.state.steps.some(step => step.name === name);
+  }
+
+  /** Address deployed by step `name`, from this run or an earlier one. */
+  address(name: string): string | undefined {
+    return this.state.steps.find(step => step.name === name)?.address;
+  }
+
+  /** Runs `deploy` unless an earlier run already deployed `name`; returns the address. */
+  async contract(name: string, deploy: () => Promise<string>): Promise<string> {
+    const saved = this.address(name);
+    if (saved) {
+      console.log(`⏭️  ${name} already deployed:`, saved);
+      return saved;
+    }
+
+    const address = await deploy();
+    const hash = await codeHash(this.provider, address);
+    if (!hash) {
+      throw new Error(`${name} at ${address} has no code`);
+    }
+    this.record({ name, address, codeHash: hash });
+    return address;
+  }
+
+  /** Runs `run` unless an earlier run finished step `name`. */
+  async step(name: string, run: () => Promise<void>): Promise<void> {
+    if (this.isDone(name)) {
+      console.log(`⏭️  ${name} already done`);
+      return;
+    }
+    await run();
+    this.record({ name });
+  }
+
+  /** Marks the deployment complete. */
+  finish(): void {
+    this.state.completedAt = this.state.completedAt ?? new Date().toISOString();
+    this.save();
+  }
+
+  private async dropInvalidSteps(): Promise<void> {
+    for (let i = 0; i < this.state.steps.length; i++) {
+      const step = this.state.steps[i];
+      if (!step.address) continue;
+
+      const hash = await codeHash(this.provider, step.address);
+      if (hash !== step.codeHash) {
+        console.log(
+          `⚠️  ${step.name} at ${step.address} ${hash ? "has different code" : "has no code"} - ` +
+          `redoing it and the ${this.state.steps.length - i - 1} step(s) after it`
+        );
+        this.state.steps = this.state.steps.slice(0, i);
+        this.state.completedAt = undefined;
+        this.save();
+        return;
+      }
+    }
+  }
+
+  private record(step: CheckpointStep): void {
+    this.state.steps.push(step);
+    this.save();
+  }
+
+  private save(): void {
+    writeJsonAtomic(this.file, this.state);
+  }
+}
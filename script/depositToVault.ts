@@ -1,47 +1,49 @@
 import { ethers } from "hardhat";
+import { getVaultMetadata } from "./assetMetadata";
 
 /**
  * Deposit assets to the vault
  * 
  * Usage:
- * DEPOSIT_AMOUNT=100 npx hardhat run script/depositToVault.ts --network rayls
+ * npx hardhat vault:deposit --amount 100 --vault nyUSDC --network rayls
  */
 
-async function main() {
+export interface DepositOptions {
+    vault: string;
+    /** In asset tokens, e.g. "100" */
+    amount: string;
+}
+
+export async function depositToVault({ vault: VAULT_ADDRESS, amount: DEPOSIT_AMOUNT }: DepositOptions) {
     console.log("\n" + "=".repeat(60));
     console.log("💰 DEPOSIT TO VAULT");
     console.log("=".repeat(60));
 
-    // Configuration
-    const VAULT_ADDRESS = process.env.VAULT_ADDRESS;
-    const ASSET_ADDRESS = process.env.ASSET_ADDRESS;
-    const DEPOSIT_AMOUNT = process.env.DEPOSIT_AMOUNT || "100"; // Default 100 USDC
-
     const [depositor] = await ethers.getSigners();
+    const { asset: assetMeta, shares: shareMeta } = await getVaultMetadata(VAULT_ADDRESS);
     
     console.log("\n📋 Configuration:");
     console.log("━".repeat(60));
     console.log("Depositor:        ", depositor.address);
     console.log("Vault:            ", VAULT_ADDRESS);
-    console.log("Asset:            ", ASSET_ADDRESS);
-    console.log("Amount:           ", DEPOSIT_AMOUNT, "USDC");
+    console.log("Asset:            ", `${assetMeta.symbol} (${assetMeta.address})`);
+    console.log("Amount:           ", DEPOSIT_AMOUNT, assetMeta.symbol);
     console.log("━".repeat(60));
 
     // Connect to contracts
-    const asset = await ethers.getContractAt("IERC20", ASSET_ADDRESS);
+    const asset = await ethers.getContractAt("IERC20", assetMeta.address);
     const vault = await ethers.getContractAt("RaylsVault", VAULT_ADDRESS);
 
     // Check balance
     const balance = await asset.balanceOf(depositor.address);
-    console.log("\n📊 Current Balance:", ethers.formatUnits(balance, 18), "USDC");
+    console.log("\n📊 Current Balance:", assetMeta.display(balance));
 
-    // Parse amount (USDC has 6 decimals)
-    const amount = ethers.parseUnits(DEPOSIT_AMOUNT, 18);
+    const amount = assetMeta.parse(DEPOSIT_AMOUNT);
     
     if (balance < amount) {
         console.log("\n❌ Insufficient balance!");
-        console.log("Need:", ethers.formatUnits(amount, 18), "USDC");
-        console.log("Have:", ethers.formatUnits(balance, 18), "USDC");
+        console.log("Need:", assetMeta.display(amount));
+        console.log("Have:", assetMeta.display(balance));
         return;
     }
 
@@ -49,10 +51,10 @@ async function main() {
     // Step 1: Approve
     // ============================================
     
-    console.log("\n📝 Step 1: Approving vault to spend USDC...");
+    console.log(`\n📝 Step 1: Approving vault to spend ${assetMeta.symbol}...`);
     
     const currentAllowance = await asset.allowance(depositor.address, VAULT_ADDRESS);
-    console.log("Current allowance:", ethers.formatUnits(currentAllowance, 18), "USDC");
+    console.log("Current allowance:", assetMeta.display(currentAllowance));
     
     if (currentAllowance < amount) {
         console.log("⏳ Approving...");
@@ -74,9 +76,9 @@ async function main() {
     const sharesBefore = await vault.balanceOf(depositor.address);
     const totalSupplyBefore = await vault.totalSupply();
     
-    console.log("Total Assets:     ", ethers.formatUnits(totalAssetsBefore, 18), "USDC");
-    console.log("Your Shares:      ", ethers.formatEther(sharesBefore));
-    console.log("Total Supply:     ", ethers.formatEther(totalSupplyBefore));
+    console.log("Total Assets:     ", assetMeta.display(totalAssetsBefore));
+    console.log("Your Shares:      ", shareMeta.format(sharesBefore));
+    console.log("Total Supply:     ", shareMeta.format(totalSupplyBefore));
     console.log("━".repeat(60));
 
     // ============================================
@@ -84,7 +86,7 @@ async function main() {
     // ============================================
     
     console.log("\n📝 Step 2: Depositing to vault...");
-    console.log("Amount:", ethers.formatUnits(amount, 18), "USDC");
+    console.log("Amount:", assetMeta.display(amount));
     
     try {
         const depositTx = await vault.deposit(amount, depositor.address);
@@ -114,10 +116,10 @@ async function main() {
     const totalSupplyAfter = await vault.totalSupply();
     const balanceAfter = await asset.balanceOf(depositor.address);
     
-    console.log("Total Assets:     ", ethers.formatUnits(totalAssetsAfter, 6), "USDC");
-    console.log("Your Shares:      ", ethers.formatEther(sharesAfter));
-    console.log("Total Supply:     ", ethers.formatEther(totalSupplyAfter));
-    console.log("Your USDC:        ", ethers.formatUnits(balanceAfter, 6), "USDC");
+    console.log("Total Assets:     ", assetMeta.display(totalAssetsAfter));
+    console.log("Your Shares:      ", shareMeta.format(sharesAfter));
+    console.log("Total Supply:     ", shareMeta.format(totalSupplyAfter));
+    console.log("Your Balance:     ", assetMeta.display(balanceAfter));
     console.log("━".repeat(60));
 
     // ============================================
@@ -126,9 +128,9 @@ async function main() {
     
     console.log("\n📈 Changes:");
     console.log("━".repeat(60));
-    console.log("Assets Added:     ", ethers.formatUnits(totalAssetsAfter - totalAssetsBefore, 6), "USDC");
-    console.log("Shares Received:  ", ethers.formatEther(sharesAfter - sharesBefore));
-    console.log("USDC Spent:       ", ethers.formatUnits(balance - balanceAfter, 6), "USDC");
+    console.log("Assets Added:     ", assetMeta.display(totalAssetsAfter - totalAssetsBefore));
+    console.log("Shares Received:  ", shareMeta.format(sharesAfter - sharesBefore));
+    console.log("Assets Spent:     ", assetMeta.display(balance - balanceAfter));
     console.log("━".repeat(60));
 
     // ============================================
@@ -140,15 +142,8 @@ async function main() {
     console.log("1. Funds are currently in the vault (not yet in strategies)");
     console.log("");
     console.log("2. Bot can rebalance to deploy funds to strategies:");
-    console.log("   Run: ts-node script/rebalanceVault.ts");
+    console.log("   Run: npx hardhat vault:rebalance");
     console.log("");
     console.log("3. Check strategy balances after rebalancing");
     console.log("━".repeat(60));
 }
-
-main()
-    .then(() => process.exit(0))
-    .catch((error) => {
-        console.error(error);
-        process.exit(1);
-    });
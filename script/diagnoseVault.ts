@@ -1,149 +1,341 @@
-import { ethers } from "ethers";
-import * as dotenv from "dotenv";
-
-// Load environment variables
-dotenv.config();
-
-// Vault ABI
-const VAULT_ABI = [
-    "function asset() view returns (address)",
-    "function getStrategy() view returns (address)",
-    "function getRegistry() view returns (address)",
-    "function paused() view returns (bool)",
-    "function totalAssets() view returns (uint256)",
-    "function totalSupply() view returns (uint256)"
-];
-
-// Strategy ABI - basic interface
-const STRATEGY_ABI = [
-    "function TOKEN_ADDRESS() view returns (address)",
-    "function getTotalAssets() view returns (uint256)",
-    "function harvest() external",
-    "function vault() view returns (address)"
-];
-
-// Registry ABI
-const REGISTRY_ABI = [
-    "function owner() view returns (address)"
-];
-
-async function main() {
-    const vaultAddress = "0xAC2C70253F195692B7Ca8Ab76a2A76739e857027";
-
-    // Get RPC URL
-    const rpcUrl = process.env.RAYLS_TESTNET_URL;
-    if (!rpcUrl) {
-        throw new Error("RAYLS_TESTNET_URL not found in environment variables");
-    }
+import { ethers } from "hardhat";
+import { TOTAL_WEIGHT_BPS } from "./strategyWeights";
+import { sameAddress as same } from "./utils";
 
-    console.log("Connecting to RPC:", rpcUrl);
-    console.log("Diagnosing vault:", vaultAddress);
-    
-    // Setup provider
-    const provider = new ethers.JsonRpcProvider(rpcUrl);
-    
-    // Get private key for testing
-    let privateKey = process.env.PRIVATE_KEY;
-    if (!privateKey) {
-        throw new Error("PRIVATE_KEY not found");
-    }
-    if (!privateKey.startsWith("0x")) {
-        privateKey = "0x" + privateKey;
-    }
-    const wallet = new ethers.Wallet(privateKey, provider);
-
-    // Connect to vault
-    const vault = new ethers.Contract(vaultAddress, VAULT_ABI, provider);
-
-    console.log("\n=== Vault Configuration ===");
-    
-    try {
-        const asset = await vault.asset();
-        console.log("✅ Asset:", asset);
-    } catch (e) {
-        console.log("❌ Could not read asset");
-    }
+/**
+ * End-to-end health checks for a RaylsVault: its registry, strategies,
+ * StrategyManager, bot and pause state. Every check reports pass, warn or
+ * fail, with a hint for anything that is not a pass.
+ *
+ * Usage:
+ * npx hardhat vault:diagnose --vault nyUSDC --network rayls
+ * npx hardhat vault:diagnose --vault nyUSDC --json --network rayls
+ */
 
-    try {
-        const strategy = await vault.getStrategy();
-        console.log("✅ Strategy:", strategy);
-        
-        // Check strategy details
-        console.log("\n=== Strategy Check ===");
-        const strategyContract = new ethers.Contract(strategy, STRATEGY_ABI, provider);
-        
-        try {
-            const tokenAddress = await strategyContract.TOKEN_ADDRESS();
-            console.log("✅ Strategy TOKEN_ADDRESS:", tokenAddress);
-        } catch (e: any) {
-            console.log("❌ Could not read TOKEN_ADDRESS:", e.message);
-        }
+export type CheckStatus = "pass" | "warn" | "fail";
+
+export interface DiagnosticCheck {
+    check: string;
+    /** The strategy a per-strategy check is about */
+    subject?: string;
+    status: CheckStatus;
+    detail: string;
+    hint?: string;
+}
+
+export interface DiagnosticReport {
+    vault: string;
+    chainId: number;
+    blockNumber: number;
+    /** False if any check failed */
+    ok: boolean;
+    checks: DiagnosticCheck[];
+}
+
+export interface DiagnoseOptions {
+    /** Expected registry owner */
+    owner?: string;
+    /** Expected allocation bot */
+    bot?: string;
+}
+
+const STATUS_ICONS: Record<CheckStatus, string> = { pass: "✅", warn: "⚠️ ", fail: "❌" };
+
+export async function diagnoseVault(vaultAddress: string, options: DiagnoseOptions = {}): Promise<DiagnosticReport> {
+    const provider = ethers.provider;
+    const checks: DiagnosticCheck[] = [];
+    const add = (check: DiagnosticCheck) => checks.push(check);
 
+    /** Runs `run`; a call that throws fails the check instead of the whole report. */
+    const attempt = async (check: string, subject: string | undefined, run: () => Promise<void>, hint?: string) => {
         try {
-            const totalAssets = await strategyContract.getTotalAssets();
-            console.log("✅ Strategy getTotalAssets:", totalAssets.toString());
-        } catch (e: any) {
-            console.log("❌ Could not read getTotalAssets:", e.message);
+            await run();
+        } catch (error: any) {
+            add({ check, subject, status: "fail", detail: `Call failed: ${error.shortMessage ?? error.message}`, hint });
         }
+    };
 
-        // Check if strategy has code
-        const strategyCode = await provider.getCode(strategy);
-        if (strategyCode === "0x" || strategyCode === "0x0") {
-            console.log("❌ Strategy has NO CODE - this is the problem!");
+    const [network, blockNumber] = await Promise.all([provider.getNetwork(), provider.getBlockNumber()]);
+    const report = (): DiagnosticReport => ({
+        vault: vaultAddress,
+        chainId: Number(network.chainId),
+        blockNumber,
+        ok: checks.every(c => c.status !== "fail"),
+        checks,
+    });
+
+    if ((await provider.getCode(vaultAddress)) === "0x") {
+        add({
+            check: "Vault contract",
+            status: "fail",
+            detail: `No contract at ${vaultAddress}`,
+            hint: "Check --vault and --network; the address book may be for another chain",
+        });
+        return report();
+    }
+
+    const vault = await ethers.getContractAt("RaylsVault", vaultAddress);
+    // Null when the call failed; checks that need it are left out.
+    let asset = null as string | null;
+    await attempt("Vault contract", undefined, async () => {
+        asset = await vault.asset();
+    }, "Not a RaylsVault? Check --vault and --network");
+
+    // ============================================
+    // Registry
+    // ============================================
+
+    await attempt("Registry owner", undefined, async () => {
+        const registryAddress = await vault.getRegistry();
+        const registry = await ethers.getContractAt("RaylsVaultRegistry", registryAddress);
+        const owner = await registry.owner();
+        if (owner === ethers.ZeroAddress) {
+            add({
+                check: "Registry owner",
+                status: "fail",
+                detail: `Registry ${registryAddress} has no owner`,
+                hint: "Every admin call on the vault (weights, strategies, pause) is gated on the registry owner; transfer ownership to an operator",
+            });
+        } else if (options.owner && !same(owner, options.owner)) {
+            add({
+                check: "Registry owner",
+                status: "fail",
+                detail: `Registry ${registryAddress} is owned by ${owner}, expected ${options.owner}`,
+                hint: "Admin commands must be sent by the registry owner; use that signer or transfer ownership",
+            });
         } else {
-            console.log("✅ Strategy has code (" + ((strategyCode.length - 2) / 2) + " bytes)");
+            add({ check: "Registry owner", status: "pass", detail: `Registry ${registryAddress} owned by ${owner}` });
         }
 
-        // Try to call harvest (this might fail)
-        console.log("\n=== Testing Strategy Harvest ===");
-        try {
-            const strategyWithSigner = strategyContract.connect(wallet) as any;
-            await strategyWithSigner.harvest.staticCall();
-            console.log("✅ Harvest simulation succeeded");
-        } catch (e: any) {
-            console.log("❌ Harvest simulation failed:", e.message);
-            if (e.data) {
-                console.log("   Error data:", e.data);
-            }
+        if (!asset) return;
+        const listed = (await registry.getVaults(asset)).some(v => same(v, vaultAddress));
+        add(listed
+            ? { check: "Registry lists vault", status: "pass", detail: `Listed under asset ${asset}` }
+            : {
+                check: "Registry lists vault",
+                status: "fail",
+                detail: `Registry ${registryAddress} does not list the vault under asset ${asset}`,
+                hint: "The vault was not deployed by this registry; deploy vaults through RaylsVaultRegistry.deployVault",
+            });
+    });
+
+    // ============================================
+    // Strategies
+    // ============================================
+
+    let strategies: Array<{ strategy: string; targetWeight: bigint }> = [];
+    await attempt("Multi-strategy mode", undefined, async () => {
+        strategies = await vault.getStrategies();
+        const multiStrategy = await vault.isMultiStrategyEnabled();
+
+        if (strategies.length === 0) {
+            add({
+                check: "Strategies",
+                status: multiStrategy ? "fail" : "warn",
+                detail: "The vault has no strategies",
+                hint: "Add strategies with npx hardhat vault:update-weights",
+            });
+        } else if (!multiStrategy) {
+            add({
+                check: "Multi-strategy mode",
+                status: "fail",
+                detail: `${strategies.length} strategies configured but multi-strategy mode is off, so rebalance() reverts`,
+                hint: "The registry owner can call setMultiStrategyEnabled(true)",
+            });
+        } else {
+            add({ check: "Multi-strategy mode", status: "pass", detail: `Enabled with ${strategies.length} strategies` });
         }
+    });
 
-    } catch (e: any) {
-        console.log("❌ Could not read strategy:", e.message);
+    const totalWeight = strategies.reduce((sum, s) => sum + Number(s.targetWeight), 0);
+    if (strategies.length > 0) {
+        const weights = `Target weights sum to ${totalWeight} bps`;
+        if (totalWeight === TOTAL_WEIGHT_BPS) {
+            add({ check: "Weight sum", status: "pass", detail: weights });
+        } else if (totalWeight < TOTAL_WEIGHT_BPS) {
+            add({
+                check: "Weight sum",
+                status: "warn",
+                detail: `${weights}; ${TOTAL_WEIGHT_BPS - totalWeight} bps of assets stay idle in the vault`,
+                hint: "Set weights that sum to 10000 with npx hardhat vault:update-weights, unless the idle reserve is intended",
+            });
+        } else {
+            add({
+                check: "Weight sum",
+                status: "fail",
+                detail: `${weights}, more than ${TOTAL_WEIGHT_BPS}; rebalances try to place more than the vault holds`,
+                hint: "Set weights that sum to 10000 with npx hardhat vault:update-weights",
+            });
+        }
     }
 
-    try {
-        const registry = await vault.getRegistry();
-        console.log("✅ Registry:", registry);
-        
-        // Check registry owner
-        const registryContract = new ethers.Contract(registry, REGISTRY_ABI, provider);
-        const owner = await registryContract.owner();
-        console.log("✅ Registry Owner:", owner);
-    } catch (e: any) {
-        console.log("❌ Could not read registry:", e.message);
-    }
+    // Null when the call failed, the zero address when none is set.
+    let strategyManagerAddress = null as string | null;
+    await attempt("StrategyManager", undefined, async () => {
+        strategyManagerAddress = await vault.getStrategyManager();
+    });
+    const strategyManager = strategyManagerAddress === null || strategyManagerAddress === ethers.ZeroAddress
+        ? null
+        : await ethers.getContractAt("src/StrategyManager.sol:StrategyManager", strategyManagerAddress);
+
+    for (const { strategy: address } of strategies) {
+        if ((await provider.getCode(address)) === "0x") {
+            add({
+                check: "Strategy contract",
+                subject: address,
+                status: "fail",
+                detail: "No contract at the strategy address",
+                hint: "Remove it with npx hardhat vault:update-weights",
+            });
+            continue;
+        }
+        const strategy = await ethers.getContractAt("IVaultStrategy", address);
 
-    try {
-        const paused = await vault.paused();
-        console.log(paused ? "⚠️  Vault is PAUSED" : "✅ Vault is NOT paused");
-    } catch (e: any) {
-        console.log("❌ Could not check paused status:", e.message);
+        await attempt("Strategy linked", address, async () => {
+            const linked = await strategy.getVault();
+            add(same(linked, vaultAddress)
+                ? { check: "Strategy linked", subject: address, status: "pass", detail: "getVault() is this vault" }
+                : {
+                    check: "Strategy linked",
+                    subject: address,
+                    status: "fail",
+                    detail: `getVault() is ${linked}`,
+                    hint: `The strategy rejects the vault's deposits; run npx hardhat vault:link-strategies --strategies ${address}`,
+                });
+        });
+
+        await attempt("Strategy asset", address, async () => {
+            if (!asset) return;
+            const want = await strategy.want();
+            add(same(want, asset)
+                ? { check: "Strategy asset", subject: address, status: "pass", detail: "want() matches the vault's asset" }
+                : {
+                    check: "Strategy asset",
+                    subject: address,
+                    status: "fail",
+                    detail: `want() is ${want}, the vault's asset is ${asset}`,
+                    hint: "Remove the strategy with npx hardhat vault:update-weights and deploy one for the vault's asset",
+                });
+        });
+
+        if (strategyManager) {
+            let registered: boolean | null;
+            try {
+                registered = await strategyManager.strategyExists(address);
+            } catch {
+                // strategyExists reads TOKEN_ADDRESS(), which IVaultStrategy does not have.
+                registered = null;
+            }
+            add(registered
+                ? { check: "StrategyManager registration", subject: address, status: "pass", detail: "strategyExists() is true" }
+                : {
+                    check: "StrategyManager registration",
+                    subject: address,
+                    status: "warn",
+                    detail: registered === null
+                        ? "strategyExists() reverted: the strategy has no TOKEN_ADDRESS()"
+                        : "strategyExists() is false",
+                    hint: registered === null
+                        ? "Expected for this repo's strategies, none of which have TOKEN_ADDRESS(); the vault's own metrics reports are unaffected"
+                        : "The StrategyManager's per-token view will not include this strategy; the vault's own metrics reports are unaffected",
+                });
+        }
     }
 
-    try {
-        const totalAssets = await vault.totalAssets();
-        console.log("✅ Vault totalAssets:", totalAssets.toString());
-    } catch (e: any) {
-        console.log("❌ Could not read totalAssets:", e.message);
+    // ============================================
+    // StrategyManager
+    // ============================================
+
+    if (strategyManagerAddress === ethers.ZeroAddress) {
+        add({
+            check: "StrategyManager",
+            status: "warn",
+            detail: "No StrategyManager set; deposits, withdrawals and rebalances are not reported",
+            hint: "The registry owner can call setStrategyManager",
+        });
+    } else if (strategyManager) {
+        await attempt("StrategyManager authorization", undefined, async () => {
+            const authorized = await strategyManager.authorizedCallers(vaultAddress);
+            add(authorized
+                ? { check: "StrategyManager authorization", status: "pass", detail: `${strategyManagerAddress} accepts the vault's reports` }
+                : {
+                    check: "StrategyManager authorization",
+                    status: "fail",
+                    detail: `${strategyManagerAddress} does not authorize the vault; its metrics reports are silently dropped`,
+                    hint: "The StrategyManager owner can call setAuthorizedCaller(vault, true)",
+                });
+        });
     }
 
-    console.log("\n=== Diagnosis Complete ===");
-}
+    // ============================================
+    // Bot
+    // ============================================
 
-main()
-    .then(() => process.exit(0))
-    .catch((error) => {
-        console.error("\n❌ Error:", error.message);
-        process.exit(1);
+    await attempt("Allocation bot", undefined, async () => {
+        const bot = await vault.getAllocationBot();
+        if (bot === ethers.ZeroAddress) {
+            add({
+                check: "Allocation bot",
+                status: "fail",
+                detail: "No allocation bot set; nobody can rebalance",
+                hint: "The registry owner can call setAllocationBot",
+            });
+        } else if (options.bot && !same(bot, options.bot)) {
+            add({
+                check: "Allocation bot",
+                status: "fail",
+                detail: `Allocation bot is ${bot}, expected ${options.bot}`,
+                hint: "The running bot's rebalances revert; point the bot at the right key or call setAllocationBot",
+            });
+        } else {
+            const balance = await provider.getBalance(bot);
+            add(balance > 0n
+                ? { check: "Allocation bot", status: "pass", detail: `${bot} (${ethers.formatEther(balance)} for gas)` }
+                : {
+                    check: "Allocation bot",
+                    status: "warn",
+                    detail: `${bot} has no balance to pay gas with`,
+                    hint: "Fund the bot address",
+                });
+        }
     });
 
+    // ============================================
+    // Pause state
+    // ============================================
+
+    await attempt("Pause state", undefined, async () => {
+        add(await vault.paused()
+            ? {
+                check: "Pause state",
+                status: "fail",
+                detail: "The vault is paused: deposits and withdrawals revert",
+                hint: "Find out why (the watchdog pauses on invariant breaches), then the registry owner can call unpause()",
+            }
+            : { check: "Pause state", status: "pass", detail: "Not paused" });
+    });
+
+    return report();
+}
+
+export function printReport(report: DiagnosticReport): void {
+    console.log("\n" + "=".repeat(60));
+    console.log("🩺 VAULT DIAGNOSTICS");
+    console.log("=".repeat(60));
+    console.log("Vault:            ", report.vault);
+    console.log("Chain ID:         ", report.chainId);
+    console.log("Block:            ", report.blockNumber);
+    console.log("━".repeat(60));
+
+    for (const check of report.checks) {
+        const subject = check.subject ? ` [${check.subject}]` : "";
+        console.log(`${STATUS_ICONS[check.status]} ${check.check}${subject}: ${check.detail}`);
+        if (check.hint) {
+            console.log(`   💡 ${check.hint}`);
+        }
+    }
+
+    const count = (status: CheckStatus) => report.checks.filter(c => c.status === status).length;
+    console.log("━".repeat(60));
+    console.log(`${count("pass")} passed, ${count("warn")} warning(s), ${count("fail")} failed`);
+}
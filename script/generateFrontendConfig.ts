@@ -0,0 +1,80 @@
+import * as fs from "fs";
+import { ethers, network } from "hardhat";
+import { AddressBook, currentChainId } from "./addressBook";
+
+/**
+ * Writes the vault, asset, chain and RPC of the current network into
+ * frontend/.env.local from the address book. Other lines in the file (API
+ * keys, comments) are kept as they are.
+ *
+ * Usage:
+ * npx hardhat frontend:config --vault nyUSDC --network rayls
+ *
+ * Without --vault, picks the vault named VAULT, or the chain's only vault.
+ */
+
+export const FRONTEND_ENV_FILE = "frontend/.env.local";
+
+export interface FrontendConfigOptions {
+  /** Address book name of the vault */
+  vault?: string;
+  out?: string;
+}
+
+/** Sets `values` in a .env file's text, replacing existing keys in place and appending new ones. */
+export function mergeEnv(text: string, values: Record<string, string>): string {
+  const pending = new Map(Object.entries(values));
+  const lines = text === "" ? [] : text.replace(/\n$/, "").split("\n");
+
+  const merged = lines.map(line => {
+    const key = line.match(/^\s*([A-Za-z_][A-Za-z0-9_]*)\s*=/)?.[1];
+    if (key === undefined || !pending.has(key)) return line;
+    const value = pending.get(key)!;
+    pending.delete(key);
+    return `${key}=${value}`;
+  });
+  for (const [key, value] of pending) {
+    merged.push(`${key}=${value}`);
+  }
+  return merged.join("\n") + "\n";
+}
+
+export async function generateFrontendConfig(options: FrontendConfigOptions = {}) {
+  const book = new AddressBook();
+  const chainId = await currentChainId();
+  const name = options.vault ?? process.env.VAULT;
+  const out = options.out ?? FRONTEND_ENV_FILE;
+
+  let vault;
+  if (name) {
+    vault = { name, ...book.getVault(chainId, name) };
+  } else {
+    const vaults = book.listVaults(chainId);
+    if (vaults.length !== 1) {
+      throw new Error(
+        vaults.length === 0
+          ? `No vaults for chain ${chainId} in ${book.file} - deploy one first`
+          : `Several vaults on chain ${chainId} (${vaults.map(v => v.name).join(", ")}) - pass --vault to pick one`
+      );
+    }
+    vault = vaults[0];
+  }
+
+  const values: Record<string, string> = {
+    NEXT_PUBLIC_VAULT_ADDRESS: vault.address,
+    NEXT_PUBLIC_ASSET_ADDRESS: vault.asset,
+    // The frontend compares this with wallet_switchEthereumChain's hex chain ids.
+    NEXT_PUBLIC_CHAIN_ID: ethers.toQuantity(chainId),
+  };
+  if ("url" in network.config) {
+    values.NEXT_PUBLIC_RPC_URL = network.config.url;
+  }
+
+  const existing = fs.existsSync(out) ? fs.readFileSync(out, "utf-8") : "";
+  fs.writeFileSync(out, mergeEnv(existing, values));
+
+  console.log(`✅ Wrote ${vault.name} on ${network.name} (chain ${chainId}) to ${out}`);
+  for (const [key, value] of Object.entries(values)) {
+    console.log(`   ${key}=${value}`);
+  }
+}
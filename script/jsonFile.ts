@@ -0,0 +1,14 @@
+import * as fs from "fs";
+import * as path from "path";
+
+/**
+ * Writes `value` to `file` as indented JSON, creating its directory. The JSON
+ * goes to a temporary file that is then renamed over `file`, so a crash
+ * mid-write never leaves a truncated file behind.
+ */
+export function writeJsonAtomic(file: string, value: unknown): void {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  const tmp = `${file}.${process.pid}.tmp`;
+  fs.writeFileSync(tmp, JSON.stringify(value, null, 2));
+  fs.renameSync(tmp, file);
+}
@@ -1,84 +1,170 @@
 import { ethers } from "hardhat";
+import { loadSigner } from "./signers";
+import { TOTAL_WEIGHT_BPS } from "./strategyWeights";
+import { sameAddress as same } from "./utils";
 
 /**
- * Link strategies to vault by calling setVault() on each strategy
+ * Onboard strategies to a vault: link each one (setVault), register it in the
+ * vault's StrategyManager and add it to the vault with a target weight.
+ *
+ * Usage:
+ * npx hardhat vault:link-strategies --vault nyUSDC --strategies 0x... --weight 2000 --network rayls
+ *
+ * Every strategy is checked before anything is sent: its want() must be the
+ * vault's asset, and it must not be linked to a different vault, since
+ * setVault() only works once. Steps that are already done are skipped, so
+ * rerunning after a failure picks up where it stopped.
+ *
+ * None of the strategies in this repo have TOKEN_ADDRESS(), which the
+ * StrategyManager needs to register them, so for those the registration
+ * step is skipped with a warning.
  */
 
-async function main() {
+export interface LinkStrategiesOptions {
+    /** Target weight in bps for strategies the vault does not have yet */
+    weight?: number;
+}
+
+interface StrategyState {
+    address: string;
+    linkedVault: string;
+    /** In the vault's strategy list */
+    inVault: boolean;
+    /** strategyExists() on the StrategyManager; null if there is none or it cannot tell */
+    registered: boolean | null;
+}
+
+export async function linkStrategies(VAULT_ADDRESS: string, STRATEGIES: string[], { weight }: LinkStrategiesOptions = {}) {
     console.log("\n" + "=".repeat(60));
     console.log("🔗 LINK STRATEGIES TO VAULT");
     console.log("=".repeat(60));
 
-    const VAULT_ADDRESS = process.env.VAULT_ADDRESS;
-    const STRATEGIES_STR = process.env.STRATEGIES || "";
-    
-    if (!VAULT_ADDRESS) {
-        console.error("❌ VAULT_ADDRESS not set");
-        process.exit(1);
-    }
-    
-    if (!STRATEGIES_STR) {
-        console.error("❌ STRATEGIES not set");
-        process.exit(1);
-    }
+    const signer = await loadSigner("WALLET_");
+    const vault = await ethers.getContractAt("RaylsVault", VAULT_ADDRESS, signer);
 
-    const STRATEGIES = STRATEGIES_STR.split(",").map(s => s.trim());
-    
-    const [signer] = await ethers.getSigners();
-    
     console.log("\n📋 Configuration:");
     console.log("━".repeat(60));
-    console.log("Signer:           ", signer.address);
+    console.log("Signer:           ", await signer.getAddress());
     console.log("Vault:            ", VAULT_ADDRESS);
     console.log("Number of Strategies:", STRATEGIES.length);
+    if (weight !== undefined) {
+        console.log("Weight:           ", `${weight} bps`);
+    }
     console.log("━".repeat(60));
 
-    console.log("\n📝 Linking Strategies...");
+    const asset = await vault.asset();
+    const current = await vault.getStrategies();
+    const strategyManagerAddress = await vault.getStrategyManager();
+    const strategyManager = strategyManagerAddress === ethers.ZeroAddress
+        ? null
+        : await ethers.getContractAt("src/StrategyManager.sol:StrategyManager", strategyManagerAddress, signer);
+
+    // ============================================
+    // Pre-flight
+    // ============================================
+
+    console.log("\n🔍 Checking Strategies...");
     console.log("━".repeat(60));
 
-    for (let i = 0; i < STRATEGIES.length; i++) {
-        const strategyAddress = STRATEGIES[i];
-        console.log(`\n⏳ Strategy ${i + 1}: ${strategyAddress}`);
-        
-        try {
-            const strategy = await ethers.getContractAt("IVaultStrategy", strategyAddress);
-            
-            // Check current vault
-            const currentVault = await strategy.getVault();
-            console.log(`   Current vault: ${currentVault}`);
-            
-            if (currentVault !== ethers.ZeroAddress && currentVault !== "0x0000000000000000000000000000000000000000") {
-                console.log(`   ✅ Already linked to: ${currentVault}`);
-                continue;
+    const problems: string[] = [];
+    const states: StrategyState[] = [];
+    for (const address of STRATEGIES) {
+        if ((await signer.provider!.getCode(address)) === "0x") {
+            problems.push(`${address}: no contract at this address`);
+            continue;
+        }
+        const strategy = await ethers.getContractAt("IVaultStrategy", address, signer);
+        const [linkedVault, want] = await Promise.all([strategy.getVault(), strategy.want()]);
+
+        if (!same(want, asset)) {
+            problems.push(`${address}: want() is ${want}, but the vault's asset is ${asset}`);
+        }
+        if (linkedVault !== ethers.ZeroAddress && !same(linkedVault, VAULT_ADDRESS)) {
+            problems.push(`${address}: linked to a different vault (${linkedVault}), and setVault() cannot change it - deploy a new strategy`);
+        }
+
+        let registered: boolean | null = null;
+        if (strategyManager) {
+            try {
+                registered = await strategyManager.strategyExists(address);
+            } catch {
+                // strategyExists reads TOKEN_ADDRESS(), which IVaultStrategy does not have.
             }
-            
-            // Set vault
-            console.log(`   🔗 Linking to vault...`);
-            const tx = await strategy.setVault(VAULT_ADDRESS);
-            await tx.wait();
-            
-            // Verify
-            const newVault = await strategy.getVault();
-            if (newVault === VAULT_ADDRESS) {
-                console.log(`   ✅ Successfully linked!`);
-            } else {
-                console.log(`   ⚠️  Unexpected vault address: ${newVault}`);
+        }
+
+        states.push({
+            address,
+            linkedVault,
+            inVault: current.some(s => same(s.strategy, address)),
+            registered,
+        });
+        console.log(`   ${address}: getVault() = ${linkedVault}, want() = ${want}`);
+    }
+
+    const adding = states.filter(s => !s.inVault);
+    if (adding.length > 0) {
+        if (weight === undefined) {
+            problems.push(`${adding.length} strategy(ies) not in the vault yet - pass --weight to add them`);
+        } else {
+            const total = current.reduce((sum, s) => sum + Number(s.targetWeight), 0) + weight * adding.length;
+            if (total > TOTAL_WEIGHT_BPS) {
+                problems.push(
+                    `adding ${adding.length} x ${weight} bps takes the vault's weights to ${total} bps, over ${TOTAL_WEIGHT_BPS} - ` +
+                    `lower the other strategies first with npx hardhat vault:update-weights`
+                );
             }
-            
-        } catch (error: any) {
-            console.error(`   ❌ Failed:`, error.message);
         }
     }
 
-    console.log("\n━".repeat(60));
-    console.log("✅ Strategy linking complete!");
+    if (problems.length > 0) {
+        throw new Error(`Not linking, nothing was sent:\n- ${problems.join("\n- ")}`);
+    }
+
+    // ============================================
+    // Apply
+    // ============================================
+
+    console.log("\n📝 Linking Strategies...");
     console.log("━".repeat(60));
-}
 
-main()
-    .then(() => process.exit(0))
-    .catch((error) => {
-        console.error(error);
-        process.exit(1);
-    });
+    for (let i = 0; i < states.length; i++) {
+        const state = states[i];
+        console.log(`\n⏳ Strategy ${i + 1}: ${state.address}`);
+
+        const step = async (label: string, send: () => Promise<{ wait(): Promise<unknown> }>) => {
+            try {
+                await (await send()).wait();
+                console.log(`   ✅ ${label}`);
+            } catch (error: any) {
+                throw new Error(`${label} failed for ${state.address}: ${error.reason ?? error.message} - rerun to continue`);
+            }
+        };
+
+        if (same(state.linkedVault, VAULT_ADDRESS)) {
+            console.log("   ✅ Already linked");
+        } else {
+            const strategy = await ethers.getContractAt("IVaultStrategy", state.address, signer);
+            await step("Linked to vault", () => strategy.setVault(VAULT_ADDRESS));
+        }
+
+        if (!strategyManager) {
+            console.log("   ⚠️  The vault has no StrategyManager, not registering");
+        } else if (state.registered === null) {
+            console.log("   ⚠️  Cannot register in the StrategyManager: the strategy has no TOKEN_ADDRESS()");
+        } else if (state.registered) {
+            console.log("   ✅ Already registered in the StrategyManager");
+        } else {
+            await step("Registered in the StrategyManager", () => strategyManager.addStrategy(state.address));
+        }
 
+        if (state.inVault) {
+            console.log("   ✅ Already in the vault");
+        } else {
+            await step(`Added to the vault at ${weight} bps`, () => vault.addStrategy(state.address, weight!));
+        }
+    }
+
+    console.log("\n" + "━".repeat(60));
+    console.log("✅ Strategy linking complete!");
+    console.log("━".repeat(60));
+}
@@ -0,0 +1,67 @@
+import * as fs from "fs";
+import { writeJsonAtomic } from "./jsonFile";
+import { JournalEntry } from "./rebalanceJournal";
+
+/**
+ * Rebalance transactions that were sent but not yet seen mined, one per vault
+ * and chain, so one data dir can serve bots on several networks.
+ *
+ * The bot records a transaction as soon as it is broadcast and clears it once
+ * the receipt is in, so a restart after a crash or an impatient shutdown can
+ * pick up tracking instead of planning a second, overlapping rebalance.
+ */
+
+export interface PendingTx {
+  vault: string;
+  chainId: string;
+  txHash: string;
+  /** Earlier broadcasts at the same nonce that txHash replaced; any of them may be the one mined */
+  replaces?: string[];
+  nonce: number;
+  sentAt: string;
+  /** The "planned" journal entry of the run that sent the transaction */
+  entry: JournalEntry;
+}
+
+export const DEFAULT_PENDING_TX_FILE = "bot-data/pending-tx.json";
+
+function key(chainId: string, vault: string): string {
+  return `${chainId}:${vault.toLowerCase()}`;
+}
+
+export class PendingTxStore {
+  private file: string;
+
+  constructor(file: string = DEFAULT_PENDING_TX_FILE) {
+    this.file = file;
+  }
+
+  get(chainId: string, vault: string): PendingTx | undefined {
+    return this.readAll()[key(chainId, vault)];
+  }
+
+  save(pending: PendingTx): void {
+    const all = this.readAll();
+    all[key(pending.chainId, pending.vault)] = pending;
+    this.writeAll(all);
+  }
+
+  clear(chainId: string, vault: string): void {
+    const all = this.readAll();
+    if (all[key(chainId, vault)]) {
+      delete all[key(chainId, vault)];
+      this.writeAll(all);
+    }
+  }
+
+  private readAll(): Record<string, PendingTx> {
+    if (!fs.existsSync(this.file)) {
+      return {};
+    }
+    return JSON.parse(fs.readFileSync(this.file, "utf-8"));
+  }
+
+  private writeAll(all: Record<string, PendingTx>): void {
+    writeJsonAtomic(this.file, all);
+  }
+}
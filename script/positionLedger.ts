@@ -0,0 +1,76 @@
+/**
+ * Per-user cost basis and realized P&L from a vault's share history. Kept
+ * free of chain access, like ./rebalancePlanner, so ./vaultPositions does the
+ * reading and valuation.
+ *
+ * Cost basis is average cost: a withdrawal or transfer takes out the share of
+ * the basis that its shares are of the holder's, and a transfer hands that
+ * basis to the receiver, so moving shares between accounts realizes nothing.
+ */
+
+export type ShareEvent =
+  | { kind: "deposit"; block: number; logIndex: number; owner: string; assets: bigint; shares: bigint }
+  | { kind: "withdraw"; block: number; logIndex: number; owner: string; assets: bigint; shares: bigint }
+  /** A share transfer between two accounts; mints and burns come as deposit and withdraw */
+  | { kind: "transfer"; block: number; logIndex: number; from: string; to: string; shares: bigint };
+
+export interface Position {
+  user: string;
+  shares: bigint;
+  /** Assets paid for the shares still held */
+  costBasis: bigint;
+  deposited: bigint;
+  withdrawn: bigint;
+  /** Assets withdrawn minus the cost basis of the shares redeemed */
+  realizedPnl: bigint;
+}
+
+function emptyPosition(user: string): Position {
+  return { user, shares: 0n, costBasis: 0n, deposited: 0n, withdrawn: 0n, realizedPnl: 0n };
+}
+
+/** The basis that goes with `shares` of a position */
+function basisOf(position: Position, shares: bigint): bigint {
+  if (position.shares === 0n) return 0n;
+  return shares >= position.shares ? position.costBasis : (position.costBasis * shares) / position.shares;
+}
+
+/** Replays `events` in chain order; positions are keyed by lowercased address, in first-seen order. */
+export function replayPositions(events: ShareEvent[]): Map<string, Position> {
+  const positions = new Map<string, Position>();
+  const positionOf = (user: string) => {
+    const key = user.toLowerCase();
+    let position = positions.get(key);
+    if (!position) {
+      position = emptyPosition(user);
+      positions.set(key, position);
+    }
+    return position;
+  };
+
+  const ordered = [...events].sort((a, b) => a.block - b.block || a.logIndex - b.logIndex);
+  for (const event of ordered) {
+    if (event.kind === "deposit") {
+      const position = positionOf(event.owner);
+      position.shares += event.shares;
+      position.costBasis += event.assets;
+      position.deposited += event.assets;
+    } else if (event.kind === "withdraw") {
+      const position = positionOf(event.owner);
+      const basis = basisOf(position, event.shares);
+      position.shares -= event.shares;
+      position.costBasis -= basis;
+      position.withdrawn += event.assets;
+      position.realizedPnl += event.assets - basis;
+    } else {
+      const from = positionOf(event.from);
+      const to = positionOf(event.to);
+      const basis = basisOf(from, event.shares);
+      from.shares -= event.shares;
+      from.costBasis -= basis;
+      to.shares += event.shares;
+      to.costBasis += basis;
+    }
+  }
+  return positions;
+}
@@ -1,100 +1,497 @@
 import { ethers } from "hardhat";
-import { RaylsVault } from "../typechain-types";
-
+import { AbiCoder, Signer, TransactionReceipt } from "ethers";
+import * as fs from "fs";
+import * as path from "path";
+import { HarvestLens__factory, IERC20__factory, IVaultStrategy__factory, RaylsVault, RaylsVaultRegistry__factory } from "../typechain";
+import { RebalanceJournal, JournalEntry, JournalHarvestEntry, JournalJob, JournalStatus } from "./rebalanceJournal";
+import { AlertManager, AlertSeverity, ConsoleSink, createAlertManager } from "./alerts";
+import { getVaultMetadata, TokenMetadata } from "./assetMetadata";
+import { CostPolicy, HarvestPolicy, loadBotConfig, resolveVaults, ResolvedVaultConfig } from "./botConfig";
+import { planRebalance, RebalancePlan } from "./rebalancePlanner";
+import { BotMetrics, DEFAULT_HEALTH_PORT, startHealthServer } from "./botHealth";
+import { PendingTx, PendingTxStore } from "./pendingTx";
+import { BroadcastListener, TxManager, TxManagerOptions } from "./txManager";
+import { assertNotPlaintext, createSigner, describeSignerSource } from "./signers";
 
 
 interface StrategyAllocation {
   strategy: string;
-  targetWeight: ethers.BigNumber;
-  currentBalance: ethers.BigNumber;
+  targetWeight: bigint;
+  currentBalance: bigint;
+}
+
+type RebalanceAction = RebalancePlan;
+
+interface DryRunOptions {
+  planDir: string;
+  blockTag?: number;
+}
+
+interface PlannedStrategy {
+  strategy: string;
+  targetWeight: string;
+  balanceBefore: string;
+  balanceAfter: string;
+  weightBeforeBps: string;
+  weightAfterBps: string;
+  deposit: string;
+  withdraw: string;
+}
+
+interface RebalancingBotOptions {
+  /** Minimum drift, in bps, before a strategy is rebalanced */
+  thresholdBps?: number;
+  /** Cached vs live balance gap, in bps of total assets, before the bot calls syncStrategyBalances() */
+  syncToleranceBps?: number;
+  dryRun?: DryRunOptions | null;
+  journal?: RebalanceJournal;
+  alerts?: AlertManager;
+  cost?: CostPolicy;
+  harvest?: HarvestPolicy;
+  metrics?: BotMetrics;
+  pendingTxs?: PendingTxStore;
+  /** Shared by every bot using the same signer; one is created per bot otherwise */
+  txManager?: TxManager;
+}
+
+interface CostCheck {
+  proceed: boolean;
+  reason?: string;
+  gasPrice: bigint;
+  gasEstimate?: bigint;
+  /** gasEstimate * gasPrice, in wei of the native token */
+  gasCost?: bigint;
+}
+
+interface StrategyDiscrepancy {
+  strategy: string;
+  cachedBalance: bigint;
+  liveBalance: bigint;
+  /** |live - cached| in bps of total assets */
+  discrepancyBps: bigint;
+}
+
+interface SyncCheck {
+  balances: StrategyDiscrepancy[];
+  needsSync: boolean;
+}
+
+interface HarvestSimulation {
+  totalAssetsBefore: bigint;
+  totalAssetsAfter: bigint;
+  gain: bigint;
 }
 
-interface RebalanceAction {
-  depositAmounts: ethers.BigNumber[];
-  withdrawAmounts: ethers.BigNumber[];
-  needsRebalance: boolean;
+const DEFAULT_BENEFIT_BPS = 10;
+
+function sum(values: bigint[]): bigint {
+  return values.reduce((total, value) => total + value, 0n);
 }
 
 class RebalancingBot {
   private vault: RaylsVault;
-  private wallet: ethers.Signer;
+  private wallet: Signer;
   private vaultAddress: string;
   private minRebalanceThreshold: number; 
+  private syncToleranceBps: number;
+  private dryRun: DryRunOptions | null;
+  private journal: RebalanceJournal;
+  private alerts: AlertManager;
+  private cost: CostPolicy;
+  private harvest: HarvestPolicy;
+  /** When each strategy (lowercased) last had a harvest attempted, in ms */
+  private lastHarvest: Map<string, number> | null = null;
+  private metrics: BotMetrics | null;
+  private pendingTxs: PendingTxStore;
+  private txManager: TxManager;
+  private chainId: string = "";
+  private running = false;
+  private stopping = false;
+  private loop: Promise<void> | null = null;
+  private wake: (() => void) | null = null;
 
   constructor(
     vault: RaylsVault,
-    wallet: ethers.Signer,
+    wallet: Signer,
     vaultAddress: string,
-    minRebalanceThreshold: number = 100 // 
+    options: RebalancingBotOptions = {}
   ) {
     this.vault = vault;
     this.wallet = wallet;
     this.vaultAddress = vaultAddress;
-    this.minRebalanceThreshold = minRebalanceThreshold;
+    this.minRebalanceThreshold = options.thresholdBps ?? 100;
+    this.syncToleranceBps = options.syncToleranceBps ?? 50;
+    this.dryRun = options.dryRun ?? null;
+    this.journal = options.journal ?? new RebalanceJournal();
+    this.alerts = options.alerts ?? new AlertManager([new ConsoleSink()]);
+    this.cost = options.cost ?? {};
+    this.harvest = options.harvest ?? {};
+    this.metrics = options.metrics ?? null;
+    this.pendingTxs = options.pendingTxs ?? new PendingTxStore();
+    this.txManager = options.txManager ?? new TxManager(wallet);
   }
 
   async getStrategies(): Promise<StrategyAllocation[]> {
     return await this.vault.getStrategies();
   }
 
-  async getTotalAssets(): Promise<ethers.BigNumber> {
+  async getTotalAssets(): Promise<bigint> {
     return await this.vault.totalAssets();
   }
 
-  async calculateRebalance(): Promise<RebalanceAction> {
-    const strategies = await this.getStrategies();
-    const totalAssets = await this.getTotalAssets();
+  async getAsset(): Promise<TokenMetadata> {
+    return (await getVaultMetadata(this.vaultAddress, this.wallet)).asset;
+  }
+
+  async getIdleAssets(blockTag?: number): Promise<bigint> {
+    const asset = IERC20__factory.connect((await this.getAsset()).address, this.wallet);
+    return await asset.balanceOf(this.vaultAddress, { blockTag });
+  }
+
+  /**
+   * Plans against live strategy balances: rebalance() syncs every cached
+   * `currentBalance` to the strategy's getTotalAssets() before moving funds.
+   */
+  async calculateRebalance(blockTag?: number): Promise<RebalanceAction> {
+    const { strategies, idle, balances } = await this.readBalances(blockTag);
+    const asset = await this.getAsset();
+    const minTrade = this.cost.minTradeAmount ? asset.parse(this.cost.minTradeAmount) : 0n;
+
+    const action = planRebalance({
+      idle,
+      strategies: strategies.map((s, i) => ({
+        strategy: s.strategy,
+        targetWeight: s.targetWeight,
+        currentBalance: balances[i],
+      })),
+      thresholdBps: this.minRebalanceThreshold,
+      minTradeAmount: minTrade,
+    });
 
     console.log(`\n📊 Current State:`);
-    console.log(`Total Assets: ${ethers.utils.formatUnits(totalAssets, 6)} tokens`);
+    console.log(`Total Assets: ${asset.display(action.totalAssets)}`);
+    console.log(`Idle: ${asset.display(action.idleBefore)} (reserve ${asset.display(action.idleTarget)})`);
     console.log(`Strategies: ${strategies.length}`);
 
-    const depositAmounts: ethers.BigNumber[] = [];
-    const withdrawAmounts: ethers.BigNumber[] = [];
-    let needsRebalance = false;
+    action.allocations.forEach((a, i) => {
+      console.log(`\n  Strategy ${i + 1}: ${a.strategy}`);
+      console.log(`    Target Weight: ${Number(a.targetWeight) / 100}%`);
+      console.log(`    Current: ${asset.display(a.currentBalance)}`);
+      console.log(`    Target:  ${asset.display(a.targetAmount)}`);
+      console.log(`    Drift:   ${asset.display(a.targetAmount - a.currentBalance)} (${Number(a.driftBps) / 100}% of total assets)`);
+
+      if (action.depositAmounts[i] > 0n) {
+        console.log(`    Action: DEPOSIT ${asset.display(action.depositAmounts[i])}`);
+      } else if (action.withdrawAmounts[i] > 0n) {
+        console.log(`    Action: WITHDRAW ${asset.display(action.withdrawAmounts[i])}`);
+      } else if (a.driftBps > BigInt(this.minRebalanceThreshold)) {
+        console.log(`    Action: SKIP (below minimum trade ${asset.display(minTrade)} or no funds available)`);
+      } else {
+        console.log(`    Action: SKIP (within threshold)`);
+      }
+    });
+    console.log(`\n  Idle after: ${asset.display(action.idleAfter)}`);
+
+    return action;
+  }
 
-    for (let i = 0; i < strategies.length; i++) {
-      const strategy = strategies[i];
-      const targetWeight = strategy.targetWeight;
-      const currentBalance = strategy.currentBalance;
+  /** The vault's strategy list with cached balances, each strategy's live balance, and idle assets. */
+  private async readBalances(blockTag?: number) {
+    const overrides = { blockTag };
+    const strategies = await this.vault.getStrategies(overrides);
+    const [idle, balances] = await Promise.all([
+      this.getIdleAssets(blockTag),
+      Promise.all(strategies.map(s => IVaultStrategy__factory.connect(s.strategy, this.wallet).getTotalAssets(overrides))),
+    ]);
+    return { strategies, idle, balances };
+  }
 
-      
-      const targetAmount = totalAssets.mul(targetWeight).div(10000);
-      const difference = targetAmount.sub(currentBalance);
-      const percentDiff = currentBalance.gt(0) 
-        ? difference.mul(10000).div(currentBalance).abs()
-        : ethers.BigNumber.from(10000);
+  /**
+   * Compares the balances the vault has cached for its strategies with their
+   * live getTotalAssets(). Yield and losses only reach the cache through
+   * syncStrategyBalances(), which rebalance() calls but nothing else does.
+   */
+  async checkSync(blockTag?: number): Promise<SyncCheck> {
+    const { strategies, idle, balances } = await this.readBalances(blockTag);
+    const total = idle + sum(balances);
+    const discrepancies = strategies.map((s, i) => {
+      const gap = balances[i] > s.currentBalance ? balances[i] - s.currentBalance : s.currentBalance - balances[i];
+      return {
+        strategy: s.strategy,
+        cachedBalance: s.currentBalance,
+        liveBalance: balances[i],
+        discrepancyBps: total > 0n ? gap * 10000n / total : 0n,
+      };
+    });
+    return {
+      balances: discrepancies,
+      needsSync: discrepancies.some(d => d.discrepancyBps > BigInt(this.syncToleranceBps)),
+    };
+  }
 
-      console.log(`\n  Strategy ${i + 1}: ${strategy.strategy}`);
-      console.log(`    Target Weight: ${targetWeight.toNumber() / 100}%`);
-      console.log(`    Current: ${ethers.utils.formatUnits(currentBalance, 6)} tokens`);
-      console.log(`    Target:  ${ethers.utils.formatUnits(targetAmount, 6)} tokens`);
-      console.log(`    Diff:    ${ethers.utils.formatUnits(difference, 6)} tokens (${percentDiff.toNumber() / 100}%)`);
+  /**
+   * Calls syncStrategyBalances() when a cached balance is further from the
+   * live one than the tolerance. A failed sync is alerted on but does not
+   * stop the run; rebalance() syncs by itself.
+   */
+  private async syncIfDiverged(runId: string, block: number, blockTag?: number): Promise<void> {
+    const check = await this.checkSync(blockTag);
+    for (const d of check.balances) {
+      this.metrics?.recordDiscrepancy(this.vaultAddress, d.strategy, d.discrepancyBps);
+    }
+    if (!check.needsSync) return;
 
+    const asset = await this.getAsset();
+    const worst = check.balances.reduce((a, b) => (b.discrepancyBps > a.discrepancyBps ? b : a));
+    const reason = `Cached balance of ${worst.strategy} is ${Number(worst.discrepancyBps) / 100}% of total assets off ` +
+      `(tolerance ${this.syncToleranceBps / 100}%)`;
+    console.log(`\n🔃 ${reason}`);
+    check.balances.forEach(d => {
+      console.log(`   ${d.strategy}: cached ${asset.display(d.cachedBalance)}, live ${asset.display(d.liveBalance)}`);
+    });
+    const sync = check.balances.map(d => ({
+      strategy: d.strategy,
+      cachedBalance: d.cachedBalance.toString(),
+      liveBalance: d.liveBalance.toString(),
+      discrepancyBps: d.discrepancyBps.toString(),
+    }));
 
-      if (percentDiff.gt(this.minRebalanceThreshold)) {
-        needsRebalance = true;
+    if (this.dryRun) {
+      this.logJob(runId, block, "simulated", "sync", { sync, reason });
+      return;
+    }
 
-        if (difference.gt(0)) {
-          depositAmounts.push(difference);
-          withdrawAmounts.push(ethers.BigNumber.from(0));
-          console.log(`    Action: DEPOSIT ${ethers.utils.formatUnits(difference, 6)}`);
-        } else {
-          depositAmounts.push(ethers.BigNumber.from(0));
-          withdrawAmounts.push(difference.abs());
-          console.log(`    Action: WITHDRAW ${ethers.utils.formatUnits(difference.abs(), 6)}`);
-        }
-      } else {
-        depositAmounts.push(ethers.BigNumber.from(0));
-        withdrawAmounts.push(ethers.BigNumber.from(0));
-        console.log(`    Action: SKIP (within threshold)`);
+    const alertKey = `${this.vaultAddress}:sync`;
+    try {
+      const request = await this.vault.syncStrategyBalances.populateTransaction();
+      const receipt = await this.txManager.send(request, tx => console.log(`Sync transaction sent: ${tx.hash}`));
+      this.metrics?.addGasSpent(this.vaultAddress, receipt.gasUsed * receipt.gasPrice);
+      for (const d of check.balances) {
+        this.metrics?.recordDiscrepancy(this.vaultAddress, d.strategy, 0n);
+      }
+      console.log(`✅ Strategy balances synced in block ${receipt.blockNumber}`);
+      this.logJob(runId, block, "executed", "sync", {
+        sync,
+        reason,
+        txHash: receipt.hash,
+        gasUsed: receipt.gasUsed.toString(),
+        executedBlock: receipt.blockNumber,
+      });
+      await this.alerts.resolve(alertKey, 'Strategy balances synced');
+    } catch (error: any) {
+      console.error('❌ Balance sync failed:', error.message);
+      this.logJob(runId, block, "failed", "sync", {
+        sync,
+        reason,
+        txHash: error.receipt?.hash,
+        error: error.reason ?? error.message,
+      });
+      await this.alerts.alert('critical', 'Balance sync failed', error.message, alertKey);
+    }
+  }
+
+  /**
+   * Weighs the gas a rebalance would burn against what correcting the drift is
+   * expected to earn. The run is deferred while the gas price is above the
+   * configured ceiling, or when the estimated cost exceeds the benefit.
+   */
+  async checkCost(action: RebalanceAction, from?: string): Promise<CostCheck> {
+    const provider = this.wallet.provider!;
+    const feeData = await provider.getFeeData();
+    const gasPrice = feeData.gasPrice ?? feeData.maxFeePerGas ?? 0n;
+
+    const aboveCeiling = this.checkGasCeiling(gasPrice);
+    if (aboveCeiling) {
+      return { proceed: false, gasPrice, reason: aboveCeiling };
+    }
+
+    // Estimating for another address needs an unsigned contract; a signer
+    // rejects a mismatched `from`.
+    const gasEstimate = from
+      ? await this.vault.connect(provider).rebalance.estimateGas(action.depositAmounts, action.withdrawAmounts, { from })
+      : await this.vault.rebalance.estimateGas(action.depositAmounts, action.withdrawAmounts);
+    const gasCost = gasEstimate * gasPrice;
+    console.log(`\n⛽ Estimated gas: ${gasEstimate} @ ${ethers.formatUnits(gasPrice, "gwei")} gwei = ${ethers.formatEther(gasCost)} native`);
+
+    if (this.cost.nativePriceInAsset) {
+      const asset = await this.getAsset();
+      const gasCostInAsset = this.toAssetUnits(gasCost, asset);
+      // The capital put back on target is the larger side of the transfer.
+      const moved = sum(action.depositAmounts) > sum(action.withdrawAmounts)
+        ? sum(action.depositAmounts)
+        : sum(action.withdrawAmounts);
+      const benefit = moved * BigInt(this.cost.benefitBps ?? DEFAULT_BENEFIT_BPS) / 10000n;
+      console.log(`   Cost ${asset.display(gasCostInAsset)} vs expected benefit ${asset.display(benefit)}`);
+
+      if (gasCostInAsset > benefit) {
+        return {
+          proceed: false,
+          gasPrice,
+          gasEstimate,
+          gasCost,
+          reason: `Gas cost ${asset.display(gasCostInAsset)} exceeds expected benefit ${asset.display(benefit)}`,
+        };
+      }
+    }
+
+    return { proceed: true, gasPrice, gasEstimate, gasCost };
+  }
+
+  /** Why gas is currently too expensive to send anything, if it is. */
+  private checkGasCeiling(gasPrice: bigint): string | undefined {
+    if (this.cost.maxGasPriceGwei === undefined) return undefined;
+    const ceiling = ethers.parseUnits(this.cost.maxGasPriceGwei.toString(), "gwei");
+    if (gasPrice > ceiling) {
+      return `Gas price ${ethers.formatUnits(gasPrice, "gwei")} gwei is above the ${this.cost.maxGasPriceGwei} gwei ceiling`;
+    }
+    return undefined;
+  }
+
+  /** Converts wei of the native token to asset units using `cost.nativePriceInAsset`. */
+  private toAssetUnits(wei: bigint, asset: TokenMetadata): bigint {
+    return wei * asset.parse(this.cost.nativePriceInAsset!) / ethers.WeiPerEther;
+  }
+
+  /**
+   * What harvesting `strategy` would add to its total assets. harvest()
+   * returns nothing and a plain staticCall discards its effects, so this
+   * eth_calls the HarvestLens creation code, which reads getTotalAssets(),
+   * harvests and reads it again in one throwaway context.
+   */
+  async simulateHarvest(strategy: string, blockTag?: number): Promise<HarvestSimulation> {
+    const { data } = await new HarvestLens__factory().getDeployTransaction(strategy);
+    const result = await this.wallet.provider!.call({ data, blockTag });
+    const decoded = AbiCoder.defaultAbiCoder().decode(["uint256", "uint256"], result);
+    const totalAssetsBefore: bigint = decoded[0];
+    const totalAssetsAfter: bigint = decoded[1];
+    return { totalAssetsBefore, totalAssetsAfter, gain: totalAssetsAfter - totalAssetsBefore };
+  }
+
+  /** Strategies whose harvest cadence has elapsed, in vault order. */
+  async dueHarvests(now: number = Date.now()): Promise<string[]> {
+    const lastHarvest = this.loadHarvestHistory();
+    const strategies = await this.getStrategies();
+    return strategies
+      .map(s => s.strategy)
+      .filter(strategy => {
+        const intervalMs = this.harvestIntervalMs(strategy);
+        return intervalMs !== undefined && now - (lastHarvest.get(strategy.toLowerCase()) ?? 0) >= intervalMs;
+      });
+  }
+
+  private harvestIntervalMs(strategy: string): number | undefined {
+    const override = Object.entries(this.harvest.strategies ?? {})
+      .find(([address]) => address.toLowerCase() === strategy.toLowerCase());
+    const minutes = override ? override[1] : this.harvest.intervalMinutes;
+    return minutes ? minutes * 60 * 1000 : undefined;
+  }
+
+  // Seeded from the journal so a restart does not harvest every strategy at once.
+  private loadHarvestHistory(): Map<string, number> {
+    if (!this.lastHarvest) {
+      this.lastHarvest = new Map();
+      const attempts = this.journal.read({ vault: this.vaultAddress, job: "harvest", status: ["executed", "skipped", "failed"] });
+      for (const entry of attempts) {
+        this.lastHarvest.set(entry.harvest!.strategy.toLowerCase(), Date.parse(entry.timestamp));
       }
     }
+    return this.lastHarvest;
+  }
+
+  /**
+   * Harvests `strategy` when simulating it shows a gain of at least
+   * `harvest.minGain` that also covers the gas. Deferred harvests are retried
+   * on the next run; any other outcome waits a full harvest interval.
+   */
+  async harvestStrategy(runId: string, block: number, strategy: string): Promise<void> {
+    const alertKey = `${this.vaultAddress}:${strategy}`;
+    let harvest: JournalHarvestEntry | undefined;
+
+    try {
+      console.log(`\n🌾 Harvest check for strategy ${strategy}`);
+      const blockTag = this.dryRun ? this.dryRun.blockTag ?? block : undefined;
+      const simulation = await this.simulateHarvest(strategy, blockTag);
+      const asset = await this.getAsset();
+      harvest = {
+        strategy,
+        totalAssetsBefore: simulation.totalAssetsBefore.toString(),
+        totalAssetsAfter: simulation.totalAssetsAfter.toString(),
+        gain: simulation.gain.toString(),
+      };
+      console.log(`   Expected gain: ${asset.display(simulation.gain)}`);
+
+      if (this.dryRun) {
+        this.logJob(runId, block, "simulated", "harvest", { harvest });
+        return;
+      }
+
+      const minGain = this.harvest.minGain ? asset.parse(this.harvest.minGain) : 1n;
+      if (simulation.gain < minGain) {
+        this.loadHarvestHistory().set(strategy.toLowerCase(), Date.now());
+        this.logJob(runId, block, "skipped", "harvest", {
+          harvest,
+          reason: `Harvest gain ${asset.display(simulation.gain)} is below the minimum ${asset.display(minGain)}`,
+        });
+        return;
+      }
+
+      const contract = IVaultStrategy__factory.connect(strategy, this.wallet);
+      const feeData = await this.wallet.provider!.getFeeData();
+      const gasPrice = feeData.gasPrice ?? feeData.maxFeePerGas ?? 0n;
+      const gasEstimate = await contract.harvest.estimateGas();
+      const gasCost = gasEstimate * gasPrice;
+      const costDetails = { gasEstimate: gasEstimate.toString(), gasPrice: gasPrice.toString(), gasCost: gasCost.toString() };
 
-    return { depositAmounts, withdrawAmounts, needsRebalance };
+      let deferReason = this.checkGasCeiling(gasPrice);
+      if (!deferReason && this.cost.nativePriceInAsset && this.toAssetUnits(gasCost, asset) > simulation.gain) {
+        deferReason = `Gas cost ${asset.display(this.toAssetUnits(gasCost, asset))} exceeds harvest gain ${asset.display(simulation.gain)}`;
+      }
+      if (deferReason) {
+        console.log(`⏸️  Deferring harvest: ${deferReason}`);
+        this.logJob(runId, block, "deferred", "harvest", { harvest, ...costDetails, reason: deferReason });
+        return;
+      }
+
+      this.loadHarvestHistory().set(strategy.toLowerCase(), Date.now());
+      const request = await contract.harvest.populateTransaction({ gasLimit: gasEstimate * 120n / 100n });
+      const receipt = await this.txManager.send(request, tx => console.log(`Harvest transaction sent: ${tx.hash}`));
+      this.metrics?.addGasSpent(this.vaultAddress, receipt.gasUsed * receipt.gasPrice);
+
+      const totalAssetsAfter = await contract.getTotalAssets();
+      console.log(`✅ Harvested ${asset.display(totalAssetsAfter - simulation.totalAssetsBefore)} in block ${receipt.blockNumber}`);
+      this.logJob(runId, block, "executed", "harvest", {
+        harvest: {
+          ...harvest,
+          totalAssetsAfter: totalAssetsAfter.toString(),
+          gain: (totalAssetsAfter - simulation.totalAssetsBefore).toString(),
+        },
+        ...costDetails,
+        txHash: receipt.hash,
+        gasUsed: receipt.gasUsed.toString(),
+        executedBlock: receipt.blockNumber,
+      });
+      await this.alerts.resolve(alertKey, 'Harvest succeeded');
+    } catch (error: any) {
+      console.error(`❌ Harvest of ${strategy} failed:`, error.message);
+      this.loadHarvestHistory().set(strategy.toLowerCase(), Date.now());
+      this.logJob(runId, block, "failed", "harvest", {
+        harvest: harvest ?? { strategy },
+        txHash: error.receipt?.hash,
+        error: error.reason ?? error.message,
+      });
+      await this.alerts.alert('critical', 'Harvest failed', `${strategy}: ${error.message}`, alertKey);
+    }
   }
 
-  async executeRebalance(action: RebalanceAction): Promise<string | null> {
+  /**
+   * Sends the rebalance and waits for it to be mined. `onBroadcast` runs as soon as
+   * the transaction is broadcast, before waiting on the receipt.
+   */
+  async executeRebalance(
+    action: RebalanceAction,
+    gasEstimate?: bigint,
+    onBroadcast?: BroadcastListener
+  ): Promise<TransactionReceipt | null> {
     if (!action.needsRebalance) {
       console.log('\n✅ No rebalancing needed - all strategies within threshold');
       return null;
@@ -103,28 +500,31 @@ class RebalancingBot {
     console.log('\n🔄 Executing rebalance transaction...');
 
     try {
-      const gasEstimate = await this.vault.estimateGas.rebalance(
+      gasEstimate ??= await this.vault.rebalance.estimateGas(
         action.depositAmounts,
         action.withdrawAmounts
       );
       console.log(`Gas estimate: ${gasEstimate.toString()}`);
 
-      const tx = await this.vault.rebalance(
+      const request = await this.vault.rebalance.populateTransaction(
         action.depositAmounts,
         action.withdrawAmounts,
         {
-          gasLimit: gasEstimate.mul(120).div(100), 
+          gasLimit: gasEstimate * 120n / 100n,
         }
       );
 
-      console.log(`Transaction sent: ${tx.hash}`);
-      console.log('Waiting for confirmation...');
-
-      const receipt = await tx.wait();
+      const receipt = await this.txManager.send(request, (tx, replaces) => {
+        console.log(`Transaction sent: ${tx.hash}`);
+        if (replaces.length === 0) {
+          console.log('Waiting for confirmation...');
+        }
+        onBroadcast?.(tx, replaces);
+      });
       console.log(`✅ Rebalance complete! Block: ${receipt.blockNumber}`);
       console.log(`Gas used: ${receipt.gasUsed.toString()}`);
 
-      return tx.hash;
+      return receipt;
     } catch (error: any) {
       console.error('❌ Rebalance transaction failed:', error.message);
       if (error.reason) {
@@ -134,42 +534,420 @@ class RebalancingBot {
     }
   }
 
+  /**
+   * Runs the rebalance plan through `staticCall` without signing anything,
+   * prints the projected per-strategy balances and weights, and writes the
+   * plan to a JSON file for review.
+   */
+  async simulateRebalance(action: RebalanceAction, blockTag: number): Promise<string> {
+    if (!this.dryRun) {
+      throw new Error("Dry-run options are not configured");
+    }
+
+    const provider = this.wallet.provider!;
+    const overrides = { blockTag };
+
+    console.log(`\n🧪 Simulating rebalance at block ${blockTag} (dry run, nothing is signed)...`);
+
+    const { totalAssets, idleBefore, idleAfter } = action;
+    const asset = await this.getAsset();
+
+    const planned: PlannedStrategy[] = action.allocations.map((a, i) => {
+      const deposit = action.depositAmounts[i];
+      const withdraw = action.withdrawAmounts[i];
+      const balanceBefore = a.currentBalance;
+      const balanceAfter = balanceBefore + deposit - withdraw;
+
+      return {
+        strategy: a.strategy,
+        targetWeight: a.targetWeight.toString(),
+        balanceBefore: balanceBefore.toString(),
+        balanceAfter: balanceAfter.toString(),
+        weightBeforeBps: this.weightBps(balanceBefore, totalAssets).toString(),
+        weightAfterBps: this.weightBps(balanceAfter, totalAssets).toString(),
+        deposit: deposit.toString(),
+        withdraw: withdraw.toString(),
+      };
+    });
+
+    // Simulate as the designated bot so the preview matches what the unattended
+    // bot would do, whichever key is loaded locally.
+    const from = await this.vault.getAllocationBot(overrides);
+    let simulationError: string | null = null;
+    try {
+      await this.vault
+        .connect(provider)
+        .rebalance.staticCall(action.depositAmounts, action.withdrawAmounts, { ...overrides, from });
+      console.log('✅ Simulation succeeded');
+    } catch (error: any) {
+      simulationError = error.reason ?? error.message;
+      console.error('❌ Simulation reverted:', simulationError);
+    }
+
+    console.log(`\n📋 Projected allocation (total assets ${asset.display(totalAssets)}):`);
+    planned.forEach((p, i) => {
+      console.log(`\n  Strategy ${i + 1}: ${p.strategy}`);
+      console.log(`    Target:  ${Number(p.targetWeight) / 100}%`);
+      console.log(`    Before:  ${asset.display(p.balanceBefore)} (${Number(p.weightBeforeBps) / 100}%)`);
+      console.log(`    After:   ${asset.display(p.balanceAfter)} (${Number(p.weightAfterBps) / 100}%)`);
+    });
+    console.log(`\n  Idle: ${asset.display(idleBefore)} -> ${asset.display(idleAfter)}`);
+
+    // The cost check runs against the latest block: fee data has no history.
+    let cost: Record<string, string | boolean | undefined> | null = null;
+    if (action.needsRebalance && simulationError === null) {
+      try {
+        const check = await this.checkCost(action, from);
+        cost = {
+          proceed: check.proceed,
+          reason: check.reason,
+          gasEstimate: check.gasEstimate?.toString(),
+          gasPrice: check.gasPrice.toString(),
+          gasCost: check.gasCost?.toString(),
+        };
+        console.log(check.proceed ? '✅ Worth the gas' : `⏸️  Would defer: ${check.reason}`);
+      } catch (error: any) {
+        cost = { error: error.reason ?? error.message };
+        console.error('❌ Cost check failed:', cost.error);
+      }
+    }
+
+    const plan = {
+      timestamp: new Date().toISOString(),
+      vault: this.vaultAddress,
+      chainId: this.chainId,
+      blockTag,
+      thresholdBps: this.minRebalanceThreshold,
+      needsRebalance: action.needsRebalance,
+      simulation: {
+        success: simulationError === null,
+        error: simulationError,
+      },
+      cost,
+      totalAssets: totalAssets.toString(),
+      idleBefore: idleBefore.toString(),
+      idleAfter: idleAfter.toString(),
+      strategies: planned,
+      depositAmounts: action.depositAmounts.map(a => a.toString()),
+      withdrawAmounts: action.withdrawAmounts.map(a => a.toString()),
+    };
+
+    fs.mkdirSync(this.dryRun.planDir, { recursive: true });
+    const planFile = path.join(this.dryRun.planDir, `plan_${this.vaultAddress}_${Date.now()}.json`);
+    fs.writeFileSync(planFile, JSON.stringify(plan, null, 2));
+    console.log(`\n💾 Plan written to ${planFile}`);
+
+    return planFile;
+  }
+
+  private async getChainId(): Promise<string> {
+    this.chainId = this.chainId || (await this.wallet.provider!.getNetwork()).chainId.toString();
+    return this.chainId;
+  }
+
+  private weightBps(balance: bigint, totalAssets: bigint): bigint {
+    return totalAssets > 0n ? balance * 10000n / totalAssets : 0n;
+  }
+
+  /** Runs one rebalance cycle; a call made while another is in progress returns immediately. */
   async rebalance(): Promise<void> {
+    if (this.running) {
+      console.log(`⏭️  ${this.vaultAddress}: previous run still in progress, skipping`);
+      return;
+    }
+
+    this.running = true;
+    try {
+      await this.runOnce();
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private async runOnce(): Promise<void> {
     console.log('\n' + '='.repeat(60));
     console.log(`🤖 Rebalancing Bot - ${new Date().toISOString()}`);
     console.log('='.repeat(60));
     console.log(`Vault: ${this.vaultAddress}`);
     console.log(`Threshold: ${this.minRebalanceThreshold / 100}%`);
 
+    const runId = `${Date.now()}-${Math.random().toString(16).slice(2, 8)}`;
+    let action: RebalanceAction | null = null;
+    let block = 0;
+
     try {
-      const action = await this.calculateRebalance();
+      const provider = this.wallet.provider!;
+      await this.getChainId();
+      block = await provider.getBlockNumber();
+
+      if (!this.dryRun && this.pendingTxs.get(this.chainId, this.vaultAddress)) {
+        await this.resumePending();
+      }
+
+      // Harvest first so the rebalance below also places the compounded yield.
+      for (const strategy of await this.dueHarvests()) {
+        await this.harvestStrategy(runId, block, strategy);
+      }
+
+      if (this.dryRun) {
+        const blockTag = this.dryRun.blockTag ?? block;
+        await this.syncIfDiverged(runId, block, blockTag);
+        action = await this.calculateRebalance(blockTag);
+        await this.recordPlanMetrics(action);
+        const planFile = await this.simulateRebalance(action, blockTag);
+        this.logRebalance(runId, block, "simulated", action, { planFile });
+        return;
+      }
+
+      await this.syncIfDiverged(runId, block);
+      action = await this.calculateRebalance();
+      await this.recordPlanMetrics(action);
+
+      if (!action.needsRebalance) {
+        console.log('\n✅ No rebalancing needed - all strategies within threshold');
+        this.logRebalance(runId, block, "skipped", action, {
+          reason: "No strategy outside the threshold and above the minimum trade size",
+        });
+      } else {
+        const cost = await this.checkCost(action);
+        const costDetails = {
+          gasEstimate: cost.gasEstimate?.toString(),
+          gasPrice: cost.gasPrice.toString(),
+          gasCost: cost.gasCost?.toString(),
+        };
+
+        if (!cost.proceed) {
+          console.log(`\n⏸️  Deferring rebalance: ${cost.reason}`);
+          this.logRebalance(runId, block, "deferred", action, { ...costDetails, reason: cost.reason });
+        } else {
+          const planned = this.logRebalance(runId, block, "planned", action, costDetails);
 
-      const txHash = await this.executeRebalance(action);
+          const receipt = await this.executeRebalance(action, cost.gasEstimate, (tx, replaces) => {
+            this.pendingTxs.save({
+              vault: this.vaultAddress,
+              chainId: this.chainId,
+              txHash: tx.hash,
+              replaces,
+              nonce: tx.nonce,
+              sentAt: new Date().toISOString(),
+              entry: planned,
+            });
+          });
 
-      if (txHash) {
-        this.logRebalance(txHash, action);
+          if (receipt) {
+            this.pendingTxs.clear(this.chainId, this.vaultAddress);
+            this.metrics?.addGasSpent(this.vaultAddress, receipt.gasUsed * receipt.gasPrice);
+            const balancesAfter = (await this.getStrategies()).map(s => s.currentBalance.toString());
+            this.logRebalance(runId, block, "executed", action, {
+              txHash: receipt.hash,
+              gasUsed: receipt.gasUsed.toString(),
+              executedBlock: receipt.blockNumber,
+            }, balancesAfter);
+          }
+        }
       }
+
+      await this.alerts.resolve(this.vaultAddress, 'Rebalance run succeeded');
     } catch (error: any) {
       console.error('\n❌ Error during rebalancing:', error.message);
+      // A mined revert is settled; anything else may still be in flight and
+      // stays recorded for the next run to pick up.
+      if (error.receipt) {
+        this.pendingTxs.clear(this.chainId, this.vaultAddress);
+      }
+      this.logRebalance(runId, block, "failed", action, {
+        txHash: error.receipt?.hash,
+        error: error.reason ?? error.message,
+      });
       await this.sendAlert('Rebalance failed', error.message);
+    } finally {
+      await this.recordSignerBalance();
+    }
+  }
+
+  /**
+   * Settles a rebalance left pending by an earlier run or process before a new
+   * one is planned, so funds are never moved twice. While it stays unmined it
+   * is replaced with bumped fees like any other send, rebuilt from the planned
+   * journal entry, so one stuck nonce cannot hold the bot up for good.
+   */
+  async resumePending(): Promise<void> {
+    const pending = this.pendingTxs.get(await this.getChainId(), this.vaultAddress);
+    if (!pending) return;
+
+    const provider = this.wallet.provider!;
+    console.log(`\n⏳ Resuming pending rebalance ${pending.txHash} (run ${pending.entry.runId}, sent ${pending.sentAt})`);
+
+    // Oldest first, as the transaction manager tracks them.
+    const hashes = [...(pending.replaces ?? []), pending.txHash];
+    let receipt = await this.txManager.findReceipt(hashes);
+    if (!receipt) {
+      const known = (await Promise.all(hashes.map(hash => provider.getTransaction(hash)))).filter(tx => tx !== null);
+      if (known.length === 0) {
+        console.error('❌ The node no longer knows the transaction - it was dropped or replaced');
+        await this.settlePending(pending, "failed", { txHash: pending.txHash, error: "Transaction dropped before it was mined" });
+        return;
+      }
+
+      const request = await this.vault.rebalance.populateTransaction(
+        pending.entry.strategies.map(s => BigInt(s.deposit)),
+        pending.entry.strategies.map(s => BigInt(s.withdraw)),
+        { gasLimit: known[known.length - 1]!.gasLimit }
+      );
+      console.log('Waiting for confirmation...');
+      try {
+        receipt = await this.txManager.resume(request, hashes, pending.nonce, Date.parse(pending.sentAt), (tx, replaces) => {
+          this.pendingTxs.save({ ...pending, txHash: tx.hash, replaces, sentAt: new Date().toISOString() });
+        });
+      } catch (error: any) {
+        // A revert is settled below; anything else leaves it pending for the next run.
+        if (!error.receipt) throw error;
+        receipt = error.receipt as TransactionReceipt;
+      }
+    }
+
+    this.metrics?.addGasSpent(this.vaultAddress, receipt.gasUsed * receipt.gasPrice);
+    const details = {
+      txHash: receipt.hash,
+      gasUsed: receipt.gasUsed.toString(),
+      executedBlock: receipt.blockNumber,
+    };
+
+    if (receipt.status === 1) {
+      console.log(`✅ Pending rebalance mined in block ${receipt.blockNumber}`);
+      const balancesAfter = (await this.getStrategies()).map(s => s.currentBalance.toString());
+      await this.settlePending(pending, "executed", details, balancesAfter);
+    } else {
+      console.error(`❌ Pending rebalance reverted in block ${receipt.blockNumber}`);
+      await this.settlePending(pending, "failed", { ...details, error: "Transaction reverted" });
     }
   }
 
-  private logRebalance(txHash: string, action: RebalanceAction): void {
-    const logEntry = {
+  private async settlePending(
+    pending: PendingTx,
+    status: JournalStatus,
+    details: Partial<JournalEntry>,
+    balancesAfter: string[] = []
+  ): Promise<void> {
+    this.writeEntry({
+      ...pending.entry,
       timestamp: new Date().toISOString(),
-      txHash,
-      depositAmounts: action.depositAmounts.map(a => a.toString()),
-      withdrawAmounts: action.withdrawAmounts.map(a => a.toString()),
+      status,
+      strategies: pending.entry.strategies.map((s, i) => ({ ...s, balanceAfter: balancesAfter[i] })),
+      ...details,
+    });
+    this.pendingTxs.clear(this.chainId, this.vaultAddress);
+
+    if (status === "failed") {
+      await this.sendAlert('Rebalance failed', `${pending.txHash}: ${details.error}`);
+    }
+  }
+
+  private async recordPlanMetrics(action: RebalanceAction): Promise<void> {
+    if (!this.metrics) return;
+    const asset = await this.getAsset();
+    this.metrics.recordAssets(this.vaultAddress, asset.symbol, asset.format(action.totalAssets), asset.format(action.idleBefore));
+    for (const allocation of action.allocations) {
+      this.metrics.recordDrift(this.vaultAddress, allocation.strategy, allocation.driftBps);
+    }
+  }
+
+  private async recordSignerBalance(): Promise<void> {
+    if (!this.metrics) return;
+    try {
+      const address = await this.wallet.getAddress();
+      this.metrics.recordSignerBalance(address, await this.wallet.provider!.getBalance(address));
+    } catch (error: any) {
+      console.error('⚠️  Could not read signer balance:', error.message);
+    }
+  }
+
+  private logRebalance(
+    runId: string,
+    block: number,
+    status: JournalStatus,
+    action: RebalanceAction | null,
+    details: Partial<JournalEntry> = {},
+    balancesAfter: string[] = []
+  ): JournalEntry {
+    const entry: JournalEntry = {
+      runId,
+      timestamp: new Date().toISOString(),
+      status,
+      job: "rebalance",
+      vault: this.vaultAddress,
+      chainId: this.chainId,
+      block,
+      thresholdBps: this.minRebalanceThreshold,
+      totalAssets: action?.totalAssets.toString(),
+      strategies: (action?.allocations ?? []).map((a, i) => ({
+        strategy: a.strategy,
+        targetWeight: a.targetWeight.toString(),
+        balanceBefore: a.currentBalance.toString(),
+        targetAmount: a.targetAmount.toString(),
+        deposit: action!.depositAmounts[i].toString(),
+        withdraw: action!.withdrawAmounts[i].toString(),
+        balanceAfter: balancesAfter[i],
+      })),
+      ...details,
     };
-    console.log('\n📝 Log entry:', JSON.stringify(logEntry, null, 2));
+
+    this.writeEntry(entry);
+    return entry;
+  }
+
+  /** Journals a harvest or sync; the job's own details go in `details`. */
+  private logJob(
+    runId: string,
+    block: number,
+    status: JournalStatus,
+    job: Exclude<JournalJob, "rebalance">,
+    details: Partial<JournalEntry> = {}
+  ): void {
+    this.writeEntry({
+      runId,
+      timestamp: new Date().toISOString(),
+      status,
+      job,
+      vault: this.vaultAddress,
+      chainId: this.chainId,
+      block,
+      thresholdBps: this.minRebalanceThreshold,
+      strategies: [],
+      ...details,
+    });
+  }
+
+  private writeEntry(entry: JournalEntry): void {
+    // Run metrics follow rebalances; "planned" is followed by the entry that
+    // records how the run ended.
+    if ((entry.job ?? "rebalance") === "rebalance" && entry.status !== "planned") {
+      this.metrics?.recordRun(this.vaultAddress, entry.status);
+    }
+
+    try {
+      this.journal.append(entry);
+      console.log(`\n📝 Journaled ${entry.status} ${entry.job ?? "rebalance"} run ${entry.runId}`);
+    } catch (error: any) {
+      // Losing an audit line must not stop the bot from rebalancing.
+      console.error('⚠️  Failed to write rebalance journal:', error.message);
+      console.log('\n📝 Log entry:', JSON.stringify(entry, null, 2));
+    }
   }
 
-  private async sendAlert(subject: string, message: string): Promise<void> {
-    console.error(`\n🚨 ALERT: ${subject}`);
-    console.error(`Message: ${message}`);
+  private async sendAlert(
+    subject: string,
+    message: string,
+    severity: AlertSeverity = 'critical'
+  ): Promise<void> {
+    await this.alerts.alert(severity, subject, message, this.vaultAddress);
   }
 
+  /**
+   * Runs a rebalance every `intervalMinutes` until stop() is called. The next
+   * run is only scheduled once the previous one has finished, so runs never
+   * overlap; a slow run shortens the following wait instead.
+   */
   async start(intervalMinutes: number = 60): Promise<void> {
     console.log('\n' + '='.repeat(60));
     console.log('🚀 Starting Rebalancing Bot');
@@ -179,19 +957,41 @@ class RebalancingBot {
     console.log(`Threshold: ${this.minRebalanceThreshold / 100}%`);
     console.log('='.repeat(60));
 
-    await this.rebalance().catch(err => {
-      console.error('Initial rebalance error:', err);
-    });
+    this.stopping = false;
+    this.loop = this.runLoop(intervalMinutes * 60 * 1000);
+    await this.loop;
+  }
+
+  /** Stops scheduling runs and resolves once the run in progress, if any, has finished. */
+  async stop(): Promise<void> {
+    this.stopping = true;
+    this.wake?.();
+    await this.loop;
+  }
 
-    setInterval(async () => {
+  private async runLoop(intervalMs: number): Promise<void> {
+    while (!this.stopping) {
+      const startedAt = Date.now();
       try {
         await this.rebalance();
       } catch (error) {
-        console.error('Periodic rebalance error:', error);
+        console.error('Rebalance error:', error);
       }
-    }, intervalMinutes * 60 * 1000);
 
-    console.log('\n✅ Bot is running... Press Ctrl+C to stop');
+      if (this.stopping) break;
+      await this.sleep(Math.max(0, intervalMs - (Date.now() - startedAt)));
+    }
+    console.log(`\n🛑 Bot for ${this.vaultAddress} stopped`);
+  }
+
+  private sleep(ms: number): Promise<void> {
+    return new Promise(resolve => {
+      const timer = setTimeout(resolve, ms);
+      this.wake = () => {
+        clearTimeout(timer);
+        resolve();
+      };
+    });
   }
 }
 
@@ -199,74 +999,204 @@ class RebalancingBot {
 // Main Entry Point
 // ============================================
 
-async function main() {
-  const VAULT_ADDRESS = process.env.VAULT_ADDRESS;
-  const BOT_PRIVATE_KEY = process.env.BOT_PRIVATE_KEY;
-  const INTERVAL_MINUTES = parseInt(process.env.INTERVAL_MINUTES || "1");
-  const REBALANCE_THRESHOLD_BPS = parseInt(process.env.REBALANCE_THRESHOLD_BPS || "100");
-  const RPC_URL = process.env.RPC_URL;
+interface BotRuntime {
+  rpcUrl?: string;
+  dryRun: DryRunOptions | null;
+  journal: RebalanceJournal;
+  alerts: AlertManager;
+  signers: Map<string, Signer>;
+  /** One transaction manager per signer address, so vaults sharing a key share nonces */
+  txManagers: Map<string, TxManager>;
+  txOptions?: TxManagerOptions;
+  metrics?: BotMetrics;
+  pendingTxs?: PendingTxStore;
+}
+
+async function getSigner(vaultConfig: ResolvedVaultConfig, runtime: BotRuntime): Promise<Signer> {
+  const source = vaultConfig.signer ?? null;
 
-  if (!VAULT_ADDRESS) {
-    throw new Error("VAULT_ADDRESS environment variable is required");
+  // Vaults sharing a key share one signer instance.
+  const cacheKey = source ? JSON.stringify(source) : "default";
+  const cached = runtime.signers.get(cacheKey);
+  if (cached) {
+    return cached;
   }
 
-  let wallet: ethers.Signer;
-  
-  if (BOT_PRIVATE_KEY) {
-    const provider = RPC_URL 
-      ? new ethers.providers.JsonRpcProvider(RPC_URL)
-      : ethers.provider;
-    wallet = new ethers.Wallet(BOT_PRIVATE_KEY, provider);
-    console.log("Using bot wallet:", await wallet.getAddress());
+  // The hardhat accounts send through the hardhat network's node, so they
+  // cannot sign for RPC_URL.
+  if (runtime.rpcUrl && !source) {
+    throw new Error(
+      `RPC_URL is set but vault ${vaultConfig.address} has no signer - ` +
+      `set BOT_KEYSTORE, BOT_REMOTE_SIGNER or BOT_PRIVATE_KEY, or the vault's signer in BOT_CONFIG`
+    );
+  }
+
+  const provider = runtime.rpcUrl
+    ? new ethers.JsonRpcProvider(runtime.rpcUrl)
+    : ethers.provider;
+  // A dry run never signs anything.
+  if (!runtime.dryRun) {
+    await assertNotPlaintext(source, provider);
+  }
+
+  let wallet: Signer;
+  if (source) {
+    try {
+      wallet = await createSigner(source, provider);
+    } catch (error: any) {
+      throw new Error(`${error.message} for vault ${vaultConfig.address}`);
+    }
+    console.log(`Using bot wallet from ${describeSignerSource(source)}:`, await wallet.getAddress());
   } else {
     [wallet] = await ethers.getSigners();
     console.log("Using default signer:", await wallet.getAddress());
   }
 
+  runtime.signers.set(cacheKey, wallet);
+  return wallet;
+}
+
+async function createBot(vaultConfig: ResolvedVaultConfig, runtime: BotRuntime): Promise<RebalancingBot> {
+  const wallet = await getSigner(vaultConfig, runtime);
+
   const vault = await ethers.getContractAt(
     "RaylsVault",
-    VAULT_ADDRESS,
+    vaultConfig.address,
     wallet
-  ) as RaylsVault;
+  );
 
   const botAddress = await wallet.getAddress();
   const authorizedBot = await vault.getAllocationBot();
   
   if (botAddress.toLowerCase() !== authorizedBot.toLowerCase()) {
     const registry = await vault.getRegistry();
-    const registryContract = await ethers.getContractAt(
-      "IRaylsVaultRegistry",
-      registry
-    );
+    const registryContract = RaylsVaultRegistry__factory.connect(registry, wallet);
     const owner = await registryContract.owner();
     
-    if (botAddress.toLowerCase() !== owner.toLowerCase()) {
+    if (botAddress.toLowerCase() === owner.toLowerCase()) {
+      console.log(`⚠️  ${vaultConfig.address}: running as owner (not as designated bot)`);
+    } else if (runtime.dryRun) {
+      console.log(`⚠️  ${vaultConfig.address}: signer is not authorized - simulating as bot ${authorizedBot}`);
+    } else {
       throw new Error(
-        `Bot address ${botAddress} is not authorized. ` +
+        `Bot address ${botAddress} is not authorized for vault ${vaultConfig.address}. ` +
         `Authorized bot: ${authorizedBot}, Owner: ${owner}`
       );
     }
-    console.log("⚠️  Running as owner (not as designated bot)");
   }
 
-  const bot = new RebalancingBot(
-    vault,
-    wallet,
-    VAULT_ADDRESS,
-    REBALANCE_THRESHOLD_BPS
-  );
+  runtime.metrics?.registerVault(vaultConfig.address, vaultConfig.intervalMinutes);
 
-  process.on('SIGINT', () => {
-    console.log('\n\n🛑 Shutting down bot...');
-    process.exit(0);
+  if (!runtime.txManagers.has(botAddress)) {
+    runtime.txManagers.set(botAddress, new TxManager(wallet, runtime.txOptions));
+  }
+
+  return new RebalancingBot(vault, wallet, vaultConfig.address, {
+    thresholdBps: vaultConfig.thresholdBps,
+    syncToleranceBps: vaultConfig.syncToleranceBps,
+    dryRun: runtime.dryRun,
+    journal: runtime.journal,
+    alerts: runtime.alerts,
+    cost: vaultConfig.cost,
+    harvest: vaultConfig.harvest,
+    metrics: runtime.metrics,
+    pendingTxs: runtime.pendingTxs,
+    txManager: runtime.txManagers.get(botAddress),
   });
+}
+
+async function main() {
+  const DRY_RUN = process.env.DRY_RUN === "true";
+  const DRY_RUN_BLOCK = process.env.DRY_RUN_BLOCK;
+  const PLAN_DIR = process.env.PLAN_DIR || "rebalance-plans";
+  const HEALTH_PORT = parseInt(process.env.HEALTH_PORT ?? `${DEFAULT_HEALTH_PORT}`);
+  const SHUTDOWN_TIMEOUT_SECONDS = parseInt(process.env.SHUTDOWN_TIMEOUT_SECONDS || "120");
+
+  const vaultConfigs = await resolveVaults(loadBotConfig());
+
+  if (vaultConfigs.length === 0) {
+    throw new Error("No vaults configured - set VAULT_ADDRESS, VAULT, BOT_CONFIG or DISCOVER_VAULTS=true, or add vaults for this chain to the address book");
+  }
+
+  const runtime: BotRuntime = {
+    rpcUrl: process.env.RPC_URL,
+    dryRun: DRY_RUN
+      ? { planDir: PLAN_DIR, blockTag: DRY_RUN_BLOCK ? parseInt(DRY_RUN_BLOCK) : undefined }
+      : null,
+    journal: new RebalanceJournal(process.env.JOURNAL_FILE),
+    alerts: createAlertManager(),
+    signers: new Map(),
+    txManagers: new Map(),
+    txOptions: {
+      stuckTimeoutSeconds: process.env.TX_STUCK_TIMEOUT_SECONDS ? parseInt(process.env.TX_STUCK_TIMEOUT_SECONDS) : undefined,
+      feeBumpPercent: process.env.TX_FEE_BUMP_PERCENT ? parseInt(process.env.TX_FEE_BUMP_PERCENT) : undefined,
+      maxFeeMultiplier: process.env.TX_MAX_FEE_MULTIPLIER ? parseFloat(process.env.TX_MAX_FEE_MULTIPLIER) : undefined,
+    },
+    metrics: DRY_RUN ? undefined : new BotMetrics(),
+    pendingTxs: new PendingTxStore(process.env.PENDING_TX_FILE),
+  };
+
+  console.log(`Managing ${vaultConfigs.length} vault(s)`);
+
+  // A vault that cannot be set up is alerted on and skipped; the rest still run.
+  const bots: { bot: RebalancingBot; intervalMinutes: number }[] = [];
+  for (const vaultConfig of vaultConfigs) {
+    try {
+      bots.push({ bot: await createBot(vaultConfig, runtime), intervalMinutes: vaultConfig.intervalMinutes });
+    } catch (error: any) {
+      console.error(`❌ Could not start bot for ${vaultConfig.address}:`, error.message);
+      await runtime.alerts.alert('critical', 'Bot setup failed', error.message, vaultConfig.address);
+    }
+  }
+
+  if (bots.length === 0) {
+    throw new Error("No vault bots could be started");
+  }
+
+  if (DRY_RUN) {
+    for (const { bot } of bots) {
+      await bot.rebalance();
+    }
+    return;
+  }
+
+  const healthServer = runtime.metrics && HEALTH_PORT > 0
+    ? await startHealthServer(runtime.metrics, HEALTH_PORT)
+    : null;
+  if (healthServer) {
+    console.log(`🩺 Health checks and metrics on http://localhost:${HEALTH_PORT} (/healthz, /readyz, /metrics)`);
+  }
 
-  process.on('SIGTERM', () => {
-    console.log('\n\n🛑 Shutting down bot...');
+  // Let in-flight runs finish. A transaction still unconfirmed at the timeout
+  // is already recorded in the pending-tx file and is picked up on restart.
+  let shuttingDown = false;
+  const shutdown = async (signal: string) => {
+    if (shuttingDown) {
+      console.log('\n🛑 Second signal - exiting now');
+      process.exit(1);
+    }
+    shuttingDown = true;
+    console.log(`\n\n🛑 ${signal} received - waiting up to ${SHUTDOWN_TIMEOUT_SECONDS}s for in-flight runs...`);
+
+    let timer: NodeJS.Timeout | undefined;
+    const timedOut = await Promise.race([
+      Promise.all(bots.map(({ bot }) => bot.stop())).then(() => false),
+      new Promise<boolean>(resolve => { timer = setTimeout(() => resolve(true), SHUTDOWN_TIMEOUT_SECONDS * 1000); }),
+    ]);
+    clearTimeout(timer);
+
+    if (timedOut) {
+      console.log('⏱️  Timed out - pending transactions will be resumed on restart');
+    }
+    healthServer?.close();
     process.exit(0);
-  });
+  };
+
+  process.on('SIGINT', () => void shutdown('SIGINT'));
+  process.on('SIGTERM', () => void shutdown('SIGTERM'));
 
-  await bot.start(INTERVAL_MINUTES);
+  console.log('\n✅ Bot is running... Press Ctrl+C to stop');
+  await Promise.all(bots.map(({ bot, intervalMinutes }) => bot.start(intervalMinutes)));
 }
 
 if (require.main === module) {
@@ -279,5 +1209,6 @@ if (require.main === module) {
     });
 }
 
-export { RebalancingBot };
+export { RebalancingBot, createBot };
+export type { RebalanceAction, RebalancingBotOptions, CostCheck, DryRunOptions, BotRuntime };
 
@@ -0,0 +1,213 @@
+import * as fs from "fs";
+import * as path from "path";
+
+/**
+ * Append-only JSONL journal of every rebalance and harvest the bot plans or executes.
+ *
+ * Amounts are stored as decimal strings so entries stay readable regardless
+ * of the ethers version that produced them.
+ *
+ * Query usage:
+ * npm run bot:history
+ * JOURNAL_VAULT=0x... JOURNAL_STATUS=failed JOURNAL_SINCE=2024-01-01 npm run bot:history
+ * JOURNAL_JOB=harvest npm run bot:history
+ */
+
+export type JournalStatus = "planned" | "executed" | "failed" | "skipped" | "deferred" | "simulated";
+
+export type JournalJob = "rebalance" | "harvest" | "sync";
+
+export interface JournalStrategyEntry {
+  strategy: string;
+  targetWeight: string;
+  balanceBefore: string;
+  targetAmount: string;
+  deposit: string;
+  withdraw: string;
+  balanceAfter?: string;
+}
+
+/**
+ * Strategy total assets around a harvest; simulated unless the harvest was
+ * executed, and missing when the simulation itself failed.
+ */
+export interface JournalHarvestEntry {
+  strategy: string;
+  totalAssetsBefore?: string;
+  totalAssetsAfter?: string;
+  gain?: string;
+}
+
+/** A strategy's balance as cached by the vault against its live getTotalAssets() */
+export interface JournalSyncEntry {
+  strategy: string;
+  cachedBalance: string;
+  liveBalance: string;
+  discrepancyBps: string;
+}
+
+export interface JournalEntry {
+  runId: string;
+  timestamp: string;
+  status: JournalStatus;
+  /** Entries written before harvesting existed have no job and are rebalances */
+  job?: JournalJob;
+  vault: string;
+  chainId: string;
+  block: number;
+  thresholdBps: number;
+  totalAssets?: string;
+  strategies: JournalStrategyEntry[];
+  harvest?: JournalHarvestEntry;
+  sync?: JournalSyncEntry[];
+  /** Gas estimate, gas price (wei) and their product at decision time */
+  gasEstimate?: string;
+  gasPrice?: string;
+  gasCost?: string;
+  txHash?: string;
+  gasUsed?: string;
+  executedBlock?: number;
+  planFile?: string;
+  /** Why a run was skipped or deferred */
+  reason?: string;
+  error?: string;
+}
+
+export interface JournalFilter {
+  vault?: string;
+  job?: JournalJob;
+  status?: JournalStatus[];
+  since?: Date;
+  until?: Date;
+  runId?: string;
+  limit?: number;
+}
+
+export const DEFAULT_JOURNAL_FILE = "bot-data/rebalance-journal.jsonl";
+
+export class RebalanceJournal {
+  private file: string;
+
+  constructor(file: string = DEFAULT_JOURNAL_FILE) {
+    this.file = file;
+  }
+
+  append(entry: JournalEntry): void {
+    fs.mkdirSync(path.dirname(this.file), { recursive: true });
+    fs.appendFileSync(this.file, JSON.stringify(entry) + "\n");
+  }
+
+  read(filter: JournalFilter = {}): JournalEntry[] {
+    if (!fs.existsSync(this.file)) {
+      return [];
+    }
+
+    const entries: JournalEntry[] = [];
+    const lines = fs.readFileSync(this.file, "utf-8").split("\n");
+
+    lines.forEach((line, i) => {
+      if (!line.trim()) return;
+      try {
+        entries.push(JSON.parse(line));
+      } catch {
+        // A crash mid-append can leave a truncated last line; keep the rest readable.
+        console.warn(`⚠️  Skipping malformed journal line ${i + 1} in ${this.file}`);
+      }
+    });
+
+    const matching = entries.filter(entry => {
+      const timestamp = new Date(entry.timestamp);
+      if (filter.vault && entry.vault.toLowerCase() !== filter.vault.toLowerCase()) return false;
+      if (filter.job && (entry.job ?? "rebalance") !== filter.job) return false;
+      if (filter.status && !filter.status.includes(entry.status)) return false;
+      if (filter.since && timestamp < filter.since) return false;
+      if (filter.until && timestamp > filter.until) return false;
+      if (filter.runId && entry.runId !== filter.runId) return false;
+      return true;
+    });
+
+    return filter.limit ? matching.slice(-filter.limit) : matching;
+  }
+}
+
+// ============================================
+// Query Command
+// ============================================
+
+/** The query command's filter, from JOURNAL_VAULT, JOURNAL_STATUS, JOURNAL_SINCE and the rest. */
+export function journalFilterFromEnv(env: NodeJS.ProcessEnv = process.env): JournalFilter {
+  return {
+    vault: env.JOURNAL_VAULT,
+    job: env.JOURNAL_JOB as JournalJob | undefined,
+    status: env.JOURNAL_STATUS ? env.JOURNAL_STATUS.split(",").map(s => s.trim() as JournalStatus) : undefined,
+    since: env.JOURNAL_SINCE ? new Date(env.JOURNAL_SINCE) : undefined,
+    until: env.JOURNAL_UNTIL ? new Date(env.JOURNAL_UNTIL) : undefined,
+    runId: env.JOURNAL_RUN,
+    limit: parseInt(env.JOURNAL_LIMIT || "50"),
+  };
+}
+
+async function main() {
+  const JOURNAL_FILE = process.env.JOURNAL_FILE || DEFAULT_JOURNAL_FILE;
+  const JOURNAL_JSON = process.env.JOURNAL_JSON === "true";
+
+  const journal = new RebalanceJournal(JOURNAL_FILE);
+  const entries = journal.read(journalFilterFromEnv());
+
+  if (JOURNAL_JSON) {
+    console.log(JSON.stringify(entries, null, 2));
+    return;
+  }
+
+  console.log("\n" + "=".repeat(60));
+  console.log("📜 BOT HISTORY");
+  console.log("=".repeat(60));
+  console.log("Journal:          ", JOURNAL_FILE);
+  console.log("Entries:          ", entries.length);
+
+  if (entries.length === 0) {
+    console.log("\nNo matching runs found");
+    return;
+  }
+
+  for (const entry of entries) {
+    console.log("\n" + "━".repeat(60));
+    console.log(`${entry.timestamp}  ${(entry.job ?? "rebalance").toUpperCase()} ${entry.status.toUpperCase()}  run ${entry.runId}`);
+    console.log("Vault:            ", entry.vault);
+    console.log("Block:            ", entry.block);
+    if (entry.totalAssets) console.log("Total Assets:     ", entry.totalAssets);
+    if (entry.txHash) console.log("Transaction:      ", entry.txHash);
+    if (entry.gasUsed) console.log("Gas Used:         ", entry.gasUsed);
+    if (entry.gasCost) console.log("Est. Gas Cost:    ", `${entry.gasCost} wei (${entry.gasEstimate} gas @ ${entry.gasPrice})`);
+    if (entry.harvest) {
+      console.log("Strategy:         ", entry.harvest.strategy);
+      if (entry.harvest.gain) {
+        console.log("Harvest Gain:     ", `${entry.harvest.gain} (${entry.harvest.totalAssetsBefore} -> ${entry.harvest.totalAssetsAfter})`);
+      }
+    }
+    if (entry.planFile) console.log("Plan File:        ", entry.planFile);
+    if (entry.reason) console.log("Reason:           ", entry.reason);
+    if (entry.error) console.log("Error:            ", entry.error);
+
+    entry.sync?.forEach(s => {
+      console.log(`  Strategy ${s.strategy}: cached ${s.cachedBalance}, live ${s.liveBalance} (${Number(s.discrepancyBps) / 100}% of total assets)`);
+    });
+    entry.strategies.forEach((s, i) => {
+      const after = s.balanceAfter !== undefined ? ` -> ${s.balanceAfter}` : "";
+      console.log(`  Strategy ${i + 1}: ${s.strategy}`);
+      console.log(`    Weight ${Number(s.targetWeight) / 100}%  Target ${s.targetAmount}  Balance ${s.balanceBefore}${after}`);
+      if (s.deposit !== "0") console.log(`    Deposit ${s.deposit}`);
+      if (s.withdraw !== "0") console.log(`    Withdraw ${s.withdraw}`);
+    });
+  }
+  console.log("━".repeat(60));
+}
+
+if (require.main === module) {
+  main()
+    .then(() => process.exit(0))
+    .catch((error) => {
+      console.error(error);
+      process.exit(1);
+    });
+}
@@ -0,0 +1,139 @@
+/**
+ * Pure rebalance planning for RaylsVault, kept free of chain access so it can
+ * be tested exhaustively.
+ *
+ * Drift is measured in bps of total assets (idle cash plus every strategy),
+ * so an empty strategy with a 1% target is 1% off, not 100%. Deposits are
+ * funded from idle cash above the unallocated reserve and from this plan's
+ * own withdrawals, and never exceed them: `rebalance()` withdraws first and
+ * then transfers deposits out of the vault's balance.
+ */
+
+export interface PlannerStrategy {
+  strategy: string;
+  /** Target weight in bps */
+  targetWeight: bigint;
+  currentBalance: bigint;
+}
+
+export interface PlannerInput {
+  /** Asset balance held by the vault itself */
+  idle: bigint;
+  strategies: PlannerStrategy[];
+  /** Drift, in bps of total assets, a strategy may carry before it is moved */
+  thresholdBps: number;
+  /** Legs smaller than this are not worth a transfer */
+  minTradeAmount?: bigint;
+}
+
+export interface PlannedAllocation extends PlannerStrategy {
+  targetAmount: bigint;
+  /** |target - current| in bps of total assets */
+  driftBps: bigint;
+}
+
+export interface RebalancePlan {
+  depositAmounts: bigint[];
+  withdrawAmounts: bigint[];
+  needsRebalance: boolean;
+  totalAssets: bigint;
+  idleBefore: bigint;
+  idleAfter: bigint;
+  /** Cash that stays in the vault because the target weights sum to less than 100% */
+  idleTarget: bigint;
+  allocations: PlannedAllocation[];
+}
+
+const BPS = 10000n;
+
+function abs(value: bigint): bigint {
+  return value < 0n ? -value : value;
+}
+
+function min(a: bigint, b: bigint): bigint {
+  return a < b ? a : b;
+}
+
+function sum(values: bigint[]): bigint {
+  return values.reduce((total, value) => total + value, 0n);
+}
+
+/** Indices with a positive gap, largest first, so the fewest legs absorb the funds. */
+function byLargestGap(gaps: bigint[]): number[] {
+  return gaps
+    .map((gap, i) => ({ gap, i }))
+    .filter(({ gap }) => gap > 0n)
+    .sort((a, b) => (a.gap === b.gap ? a.i - b.i : a.gap > b.gap ? -1 : 1))
+    .map(({ i }) => i);
+}
+
+export function planRebalance(input: PlannerInput): RebalancePlan {
+  const { idle, strategies } = input;
+  const threshold = BigInt(input.thresholdBps);
+  const minTrade = input.minTradeAmount ?? 0n;
+
+  const totalAssets = idle + sum(strategies.map(s => s.currentBalance));
+  const driftOf = (difference: bigint) => (totalAssets > 0n ? abs(difference) * BPS / totalAssets : 0n);
+
+  const allocations: PlannedAllocation[] = strategies.map(s => {
+    const targetAmount = totalAssets * s.targetWeight / BPS;
+    return { ...s, targetAmount, driftBps: driftOf(targetAmount - s.currentBalance) };
+  });
+  const idleTarget = totalAssets - sum(allocations.map(a => a.targetAmount));
+
+  const outOfBand = allocations.map(a =>
+    a.driftBps > threshold && abs(a.targetAmount - a.currentBalance) >= minTrade
+  );
+
+  // Overweight strategies outside the band go all the way back to target.
+  const withdrawAmounts = allocations.map((a, i) =>
+    outOfBand[i] && a.currentBalance > a.targetAmount ? a.currentBalance - a.targetAmount : 0n
+  );
+  const depositAmounts = allocations.map(() => 0n);
+
+  let available = (idle > idleTarget ? idle - idleTarget : 0n) + sum(withdrawAmounts);
+
+  const fill = (gaps: bigint[], budget: bigint): bigint => {
+    for (const i of byLargestGap(gaps)) {
+      const amount = min(gaps[i], budget);
+      if (amount === 0n || depositAmounts[i] + amount < minTrade) continue;
+      depositAmounts[i] += amount;
+      budget -= amount;
+    }
+    return budget;
+  };
+
+  // Underweight strategies outside the band come first.
+  available = fill(
+    allocations.map((a, i) => (outOfBand[i] && a.targetAmount > a.currentBalance ? a.targetAmount - a.currentBalance : 0n)),
+    available
+  );
+
+  // Idle cash is a position too: if what is left over still drifts past the
+  // band, push it into the strategies furthest below target.
+  const idleAfterFirstPass = idle + sum(withdrawAmounts) - sum(depositAmounts);
+  const idleExcess = idleAfterFirstPass - idleTarget;
+  if (idleExcess > 0n && driftOf(idleExcess) > threshold) {
+    fill(
+      allocations.map((a, i) => {
+        const gap = a.targetAmount - a.currentBalance - depositAmounts[i];
+        return withdrawAmounts[i] === 0n && gap > 0n ? gap : 0n;
+      }),
+      min(idleExcess, available)
+    );
+  }
+
+  const idleAfter = idle + sum(withdrawAmounts) - sum(depositAmounts);
+  const needsRebalance = depositAmounts.some(a => a > 0n) || withdrawAmounts.some(a => a > 0n);
+
+  return {
+    depositAmounts,
+    withdrawAmounts,
+    needsRebalance,
+    totalAssets,
+    idleBefore: idle,
+    idleAfter,
+    idleTarget,
+    allocations,
+  };
+}
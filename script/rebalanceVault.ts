@@ -1,4 +1,5 @@
 import { ethers } from "hardhat";
+import { getVaultMetadata } from "./assetMetadata";
 
 /**
  * Rebalance vault - distribute funds to strategies according to target weights
@@ -8,35 +9,29 @@ import { ethers } from "hardhat";
  * 2. Checks current strategy balances
  * 3. Calculates how much to deposit/withdraw from each strategy
  * 4. Executes rebalance
+ *
+ * Usage:
+ * npx hardhat vault:rebalance --vault nyUSDC --network rayls
  */
 
-async function main() {
+export async function rebalanceVault(VAULT_ADDRESS: string) {
     console.log("\n" + "=".repeat(60));
     console.log("⚖️  REBALANCE VAULT");
     console.log("=".repeat(60));
 
-    // Configuration
-    const VAULT_ADDRESS = process.env.VAULT_ADDRESS;
-    const ASSET_ADDRESS = process.env.ASSET_ADDRESS;
-
-    if (!VAULT_ADDRESS || !ASSET_ADDRESS) {
-        console.error("❌ Missing required environment variables:");
-        console.error("   VAULT_ADDRESS:", VAULT_ADDRESS);
-        console.error("   ASSET_ADDRESS:", ASSET_ADDRESS);
-        process.exit(1);
-    }
-
     const [bot] = await ethers.getSigners();
+    const { asset: assetMeta } = await getVaultMetadata(VAULT_ADDRESS);
     
     console.log("\n📋 Configuration:");
     console.log("━".repeat(60));
     console.log("Bot:              ", bot.address);
     console.log("Vault:            ", VAULT_ADDRESS);
+    console.log("Asset:            ", `${assetMeta.symbol} (${assetMeta.address})`);
     console.log("━".repeat(60));
 
     // Connect to contracts
     const vault = await ethers.getContractAt("RaylsVault", VAULT_ADDRESS);
-    const asset = await ethers.getContractAt("IERC20", ASSET_ADDRESS);
+    const asset = await ethers.getContractAt("IERC20", assetMeta.address);
 
     // ============================================
     // Step 1: Get Current State
@@ -49,8 +44,8 @@ async function main() {
     const totalAssets = await vault.totalAssets();
     const strategies = await vault.getStrategies();
     
-    console.log("Vault Balance:    ", ethers.formatUnits(vaultBalance, 6), "USDC (idle)");
-    console.log("Total Assets:     ", ethers.formatUnits(totalAssets, 6), "USDC");
+    console.log("Vault Balance:    ", assetMeta.display(vaultBalance), "(idle)");
+    console.log("Total Assets:     ", assetMeta.display(totalAssets));
     console.log("Number Strategies:", strategies.length);
     console.log("━".repeat(60));
 
@@ -70,8 +65,8 @@ async function main() {
         console.log(`Strategy ${i + 1}:`);
         console.log(`  Address:        ${strat.strategy}`);
         console.log(`  Target Weight:  ${strat.targetWeight} (${(Number(strat.targetWeight)/100).toFixed(2)}%)`);
-        console.log(`  Current Balance:${ethers.formatUnits(balance, 6)} USDC`);
-        console.log(`  Tracked Balance:${ethers.formatUnits(strat.currentBalance, 6)} USDC`);
+        console.log(`  Current Balance:${assetMeta.display(balance)}`);
+        console.log(`  Tracked Balance:${assetMeta.display(strat.currentBalance)}`);
     }
     console.log("━".repeat(60));
 
@@ -94,19 +89,19 @@ async function main() {
         const targetAmount = (totalAssets * BigInt(strat.targetWeight)) / BigInt(totalWeight);
         
         console.log(`Strategy ${i + 1}:`);
-        console.log(`  Current:        ${ethers.formatUnits(currentBalance, 6)} USDC`);
-        console.log(`  Target:         ${ethers.formatUnits(targetAmount, 6)} USDC`);
+        console.log(`  Current:        ${assetMeta.display(currentBalance)}`);
+        console.log(`  Target:         ${assetMeta.display(targetAmount)}`);
         
         if (targetAmount > currentBalance) {
             const toDeposit = targetAmount - currentBalance;
             depositAmounts.push(toDeposit);
             withdrawAmounts.push(0n);
-            console.log(`  Action:         Deposit ${ethers.formatUnits(toDeposit, 6)} USDC`);
+            console.log(`  Action:         Deposit ${assetMeta.display(toDeposit)}`);
         } else if (targetAmount < currentBalance) {
             const toWithdraw = currentBalance - targetAmount;
             depositAmounts.push(0n);
             withdrawAmounts.push(toWithdraw);
-            console.log(`  Action:         Withdraw ${ethers.formatUnits(toWithdraw, 6)} USDC`);
+            console.log(`  Action:         Withdraw ${assetMeta.display(toWithdraw)}`);
         } else {
             depositAmounts.push(0n);
             withdrawAmounts.push(0n);
@@ -128,8 +123,8 @@ async function main() {
     // ============================================
     
     console.log("\n📝 Executing Rebalance...");
-    console.log("Total to deposit:  ", ethers.formatUnits(totalDeposits, 6), "USDC");
-    console.log("Total to withdraw: ", ethers.formatUnits(totalWithdrawals, 6), "USDC");
+    console.log("Total to deposit:  ", assetMeta.display(totalDeposits));
+    console.log("Total to withdraw: ", assetMeta.display(totalWithdrawals));
     
     try {
         const rebalanceTx = await vault.rebalance(depositAmounts, withdrawAmounts);
@@ -138,12 +133,10 @@ async function main() {
         console.log("✅ Rebalance successful!");
         console.log("Transaction:", receipt?.hash || rebalanceTx.hash);
     } catch (error: any) {
-        console.error("❌ Rebalance failed:", error.message);
-        
         if (error.error) {
             console.error("Error data:", error.error);
         }
-        return;
+        throw new Error(`Rebalance failed: ${error.reason ?? error.message}`);
     }
 
     // ============================================
@@ -156,8 +149,8 @@ async function main() {
     const finalVaultBalance = await asset.balanceOf(VAULT_ADDRESS);
     const finalTotalAssets = await vault.totalAssets();
     
-    console.log("Vault Balance:    ", ethers.formatUnits(finalVaultBalance, 6), "USDC (idle)");
-    console.log("Total Assets:     ", ethers.formatUnits(finalTotalAssets, 6), "USDC");
+    console.log("Vault Balance:    ", assetMeta.display(finalVaultBalance), "(idle)");
+    console.log("Total Assets:     ", assetMeta.display(finalTotalAssets));
     console.log("━".repeat(60));
 
     console.log("\n📈 Final Strategy Balances:");
@@ -167,17 +160,9 @@ async function main() {
         const strategy = await ethers.getContractAt("IVaultStrategy", strat.strategy);
         const balance = await strategy.getTotalAssets();
         
-        console.log(`Strategy ${i + 1}:       ${ethers.formatUnits(balance, 6)} USDC (${(Number(strat.targetWeight)/100).toFixed(2)}%)`);
+        console.log(`Strategy ${i + 1}:       ${assetMeta.display(balance)} (${(Number(strat.targetWeight)/100).toFixed(2)}%)`);
     }
     console.log("━".repeat(60));
 
     console.log("\n✅ Rebalancing complete!");
 }
-
-main()
-    .then(() => process.exit(0))
-    .catch((error) => {
-        console.error(error);
-        process.exit(1);
-    });
-
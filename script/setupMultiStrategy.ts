@@ -1,4 +1,5 @@
 import { ethers } from "hardhat";
+import { getVaultMetadata } from "./assetMetadata";
 
 /**
  * Script to setup a multi-strategy vault system
@@ -179,11 +180,12 @@ async function main() {
   console.log("Allocation bot:", bot);
 
   const strategies = await vault.getStrategies();
+  const { asset: assetMeta } = await getVaultMetadata(vaultAddress);
   console.log("\nConfigured strategies:");
   for (const s of strategies) {
     console.log(`  - ${s.strategy}`);
-    console.log(`    Weight: ${s.targetWeight / 100}%`);
-    console.log(`    Current Balance: ${ethers.utils.formatUnits(s.currentBalance, 6)} tokens`);
+    console.log(`    Weight: ${Number(s.targetWeight) / 100}%`);
+    console.log(`    Current Balance: ${assetMeta.display(s.currentBalance)}`);
   }
 
   // ============================================
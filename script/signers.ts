@@ -0,0 +1,258 @@
+import * as fs from "fs";
+import * as readline from "readline";
+import { Writable } from "stream";
+import {
+  AbstractSigner,
+  FetchRequest,
+  Provider,
+  Signer,
+  Transaction,
+  TransactionRequest,
+  TypedDataDomain,
+  TypedDataEncoder,
+  TypedDataField,
+  getAddress,
+  hexlify,
+  resolveAddress,
+  toQuantity,
+  toUtf8Bytes,
+} from "ethers";
+import { ethers } from "hardhat";
+
+/**
+ * Where a script's or the bot's signing key comes from.
+ *
+ * - `privateKey`: a plaintext key in an env var (fine for local chains only)
+ * - `keystore`: an encrypted JSON keystore; the passphrase is read from
+ *   `passwordFile`, or prompted for on the terminal
+ * - `remote`: a local signer daemon that signs over JSON-RPC
+ *   (`eth_signTransaction`), so the key never enters this process
+ *
+ * From env, with a per-program prefix (BOT_, WALLET_, WATCHDOG_OWNER_):
+ *   <PREFIX>PRIVATE_KEY
+ *   <PREFIX>KEYSTORE, <PREFIX>KEYSTORE_PASSWORD_FILE
+ *   <PREFIX>REMOTE_SIGNER, <PREFIX>REMOTE_SIGNER_ADDRESS
+ */
+
+export type SignerSource =
+  | { type: "privateKey"; env: string }
+  | { type: "keystore"; path: string; passwordFile?: string }
+  | { type: "remote"; url: string; address?: string };
+
+export function signerSourceFromEnv(prefix: string, env: NodeJS.ProcessEnv = process.env): SignerSource | null {
+  const sources: SignerSource[] = [];
+  if (env[`${prefix}PRIVATE_KEY`]) {
+    sources.push({ type: "privateKey", env: `${prefix}PRIVATE_KEY` });
+  }
+  if (env[`${prefix}KEYSTORE`]) {
+    sources.push({ type: "keystore", path: env[`${prefix}KEYSTORE`]!, passwordFile: env[`${prefix}KEYSTORE_PASSWORD_FILE`] });
+  }
+  if (env[`${prefix}REMOTE_SIGNER`]) {
+    sources.push({ type: "remote", url: env[`${prefix}REMOTE_SIGNER`]!, address: env[`${prefix}REMOTE_SIGNER_ADDRESS`] });
+  }
+
+  if (sources.length > 1) {
+    throw new Error(
+      `Set only one of ${prefix}PRIVATE_KEY, ${prefix}KEYSTORE and ${prefix}REMOTE_SIGNER (got ${sources.map(s => s.type).join(", ")})`
+    );
+  }
+  return sources[0] ?? null;
+}
+
+export function describeSignerSource(source: SignerSource): string {
+  switch (source.type) {
+    case "privateKey": return `private key in ${source.env}`;
+    case "keystore": return `keystore ${source.path}`;
+    case "remote": return `remote signer ${source.url}`;
+  }
+}
+
+export async function createSigner(source: SignerSource, provider: Provider): Promise<Signer> {
+  switch (source.type) {
+    case "privateKey": {
+      const privateKey = process.env[source.env];
+      if (!privateKey) {
+        throw new Error(`${source.env} environment variable is required`);
+      }
+      return new ethers.Wallet(privateKey, provider);
+    }
+    case "keystore": {
+      const json = fs.readFileSync(source.path, "utf-8");
+      const password = source.passwordFile
+        ? fs.readFileSync(source.passwordFile, "utf-8").replace(/\r?\n$/, "")
+        : await promptPassword(`Passphrase for ${source.path}: `);
+      const wallet = await ethers.Wallet.fromEncryptedJson(json, password);
+      return wallet.connect(provider);
+    }
+    case "remote": {
+      const signer = new RemoteSigner(source.url, source.address ?? null, provider);
+      // Fail at startup, not at the first transaction, if the daemon is unreachable.
+      await signer.getAddress();
+      return signer;
+    }
+  }
+}
+
+/**
+ * The signer for a script: the source configured under `prefix`, or the
+ * first hardhat account (the network's `accounts` in hardhat.config.ts).
+ * Plaintext keys are refused outside local chains, as assertNotPlaintext()
+ * describes.
+ */
+export async function loadSigner(prefix: string, provider: Provider = ethers.provider, env: NodeJS.ProcessEnv = process.env): Promise<Signer> {
+  const source = signerSourceFromEnv(prefix, env);
+  await assertNotPlaintext(source, provider, env);
+  if (!source) {
+    const [signer] = await ethers.getSigners();
+    return signer;
+  }
+  const signer = await createSigner(source, provider);
+  console.log(`Using ${describeSignerSource(source)}:`, await signer.getAddress());
+  return signer;
+}
+
+export const LOCAL_CHAIN_IDS = [31337n, 1337n];
+
+/**
+ * Refuses plaintext keys - an env private key, or the hardhat account taken
+ * from PRIVATE_KEY when no source is set - outside local chains, unless
+ * ALLOW_PLAINTEXT_KEY=true.
+ */
+export async function assertNotPlaintext(source: SignerSource | null, provider: Provider, env: NodeJS.ProcessEnv = process.env): Promise<void> {
+  if (source && source.type !== "privateKey") return;
+  if (env.ALLOW_PLAINTEXT_KEY === "true") return;
+
+  const { chainId } = await provider.getNetwork();
+  if (!LOCAL_CHAIN_IDS.includes(chainId)) {
+    const where = source ? source.env : "the hardhat network accounts";
+    throw new Error(
+      `Refusing to sign with a plaintext key from ${where} on chain ${chainId}. ` +
+      `Use a keystore or remote signer, or set ALLOW_PLAINTEXT_KEY=true`
+    );
+  }
+}
+
+async function promptPassword(question: string): Promise<string> {
+  if (!process.stdin.isTTY) {
+    throw new Error(`${question.replace(/: $/, "")} is needed but there is no terminal to prompt on; set a password file`);
+  }
+
+  // readline echoes what is typed to its output, so give it one that goes
+  // nowhere and write the question ourselves.
+  const muted = new Writable({ write: (_chunk, _encoding, callback) => callback() });
+  const rl = readline.createInterface({ input: process.stdin, output: muted, terminal: true });
+  process.stdout.write(question);
+
+  try {
+    return await new Promise<string>(resolve => rl.question("", answer => resolve(answer)));
+  } finally {
+    rl.close();
+    process.stdout.write("\n");
+  }
+}
+
+/**
+ * Signs through a signer daemon's JSON-RPC endpoint (e.g. Clef or
+ * Web3Signer's eth1 mode). Nonces, fees and broadcasting stay with this
+ * process and its provider; only the signature comes from the daemon.
+ */
+export class RemoteSigner extends AbstractSigner {
+  readonly url: string;
+  private address: string | null;
+  private nextId = 1;
+
+  constructor(url: string, address: string | null, provider: Provider | null = null) {
+    super(provider);
+    this.url = url;
+    this.address = address ? getAddress(address) : null;
+  }
+
+  connect(provider: Provider | null): RemoteSigner {
+    return new RemoteSigner(this.url, this.address, provider);
+  }
+
+  /** The configured address, or the daemon's first account. */
+  async getAddress(): Promise<string> {
+    if (!this.address) {
+      const accounts: string[] = await this.rpc("eth_accounts", []);
+      if (accounts.length === 0) {
+        throw new Error(`Remote signer ${this.url} has no accounts`);
+      }
+      this.address = getAddress(accounts[0]);
+    }
+    return this.address;
+  }
+
+  async signTransaction(tx: TransactionRequest): Promise<string> {
+    const from = await this.getAddress();
+    const to = tx.to ? await resolveAddress(tx.to, this.provider) : null;
+    const result = await this.rpc("eth_signTransaction", [toRpcTransaction(tx, to, from)]);
+
+    // Clef answers { raw, tx }, most others the raw transaction.
+    const raw: string = typeof result === "string" ? result : result.raw;
+    const signed = Transaction.from(raw);
+    if (signed.from?.toLowerCase() !== from.toLowerCase()) {
+      throw new Error(`Remote signer returned a transaction signed by ${signed.from}, expected ${from}`);
+    }
+    return raw;
+  }
+
+  async signMessage(message: string | Uint8Array): Promise<string> {
+    const data = typeof message === "string" ? toUtf8Bytes(message) : message;
+    return this.rpc("personal_sign", [hexlify(data), await this.getAddress()]);
+  }
+
+  async signTypedData(
+    domain: TypedDataDomain,
+    types: Record<string, TypedDataField[]>,
+    value: Record<string, any>
+  ): Promise<string> {
+    const resolved = await TypedDataEncoder.resolveNames(domain, types, value, async (name: string) => {
+      return resolveAddress(name, this.provider);
+    });
+    const payload = TypedDataEncoder.getPayload(resolved.domain, types, resolved.value);
+    return this.rpc("eth_signTypedData_v4", [await this.getAddress(), JSON.stringify(payload)]);
+  }
+
+  private async rpc(method: string, params: any[]): Promise<any> {
+    const request = new FetchRequest(this.url);
+    request.body = { jsonrpc: "2.0", id: this.nextId++, method, params };
+    const response = await request.send();
+    response.assertOk();
+
+    const body = response.bodyJson;
+    if (body.error) {
+      throw new Error(`Remote signer ${method} failed: ${body.error.message}`);
+    }
+    return body.result;
+  }
+}
+
+/**
+ * A transaction in JSON-RPC form: hex quantities and `gas` rather than
+ * `gasLimit`. Fields are read one by one since `tx` may be a Transaction,
+ * whose fields are getters.
+ */
+function toRpcTransaction(tx: TransactionRequest, to: string | null, from: string): Record<string, string | any[]> {
+  const rpc: Record<string, string | any[]> = { from };
+  const quantities: Array<[string, keyof TransactionRequest]> = [
+    ["type", "type"],
+    ["nonce", "nonce"],
+    ["gas", "gasLimit"],
+    ["gasPrice", "gasPrice"],
+    ["maxFeePerGas", "maxFeePerGas"],
+    ["maxPriorityFeePerGas", "maxPriorityFeePerGas"],
+    ["value", "value"],
+    ["chainId", "chainId"],
+  ];
+  for (const [rpcKey, key] of quantities) {
+    const value = tx[key];
+    if (value !== null && value !== undefined) {
+      rpc[rpcKey] = toQuantity(value as bigint | number);
+    }
+  }
+  if (to) rpc.to = to;
+  if (tx.data) rpc.data = tx.data;
+  if (tx.accessList) rpc.accessList = tx.accessList as any[];
+  return rpc;
+}
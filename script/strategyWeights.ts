@@ -0,0 +1,145 @@
+import * as fs from "fs";
+import { ethers } from "hardhat";
+
+/**
+ * Target weight sets for a vault's strategies and the changes that take a
+ * vault from its current set to a desired one. Planning is kept free of chain
+ * access, like ./rebalancePlanner.
+ *
+ * A weight file is YAML or JSON: either a list of `{ address, weight }` or an
+ * object with a `strategies` list of them, so a deployment manifest works too.
+ */
+
+export const TOTAL_WEIGHT_BPS = 10000;
+
+export interface StrategyWeight {
+  address: string;
+  /** Target weight in bps */
+  weight: number;
+}
+
+/** A strategy as RaylsVault.getStrategies() returns it */
+export interface CurrentStrategy {
+  strategy: string;
+  targetWeight: bigint;
+  currentBalance: bigint;
+  /** The strategy's own getTotalAssets(), which the vault's cached currentBalance may lag behind */
+  liveBalance?: bigint;
+}
+
+/**
+ * - `add` / `update` / `remove`: the vault call of the same name
+ * - `drain`: a strategy to remove that still holds funds; removeStrategy
+ *   reverts until it is empty, so its weight goes to 0 for now, and a rerun
+ *   after a rebalance removes it
+ * - `unchanged`: shown in the diff only
+ */
+export type WeightChangeKind = "add" | "update" | "remove" | "drain" | "unchanged";
+
+export interface WeightChange {
+  kind: WeightChangeKind;
+  strategy: string;
+  /** Current weight in bps; null if the vault does not have the strategy */
+  from: bigint | null;
+  /** Weight in bps after the change; null once removed */
+  to: bigint | null;
+  /** The larger of the cached and live balance */
+  balance: bigint;
+}
+
+export interface WeightPlan {
+  /** Every strategy: the vault's in their current order, then the added ones */
+  rows: WeightChange[];
+  /**
+   * The changes to make, in order: weight reductions first, so the on-chain
+   * total never goes above 10000 bps between transactions.
+   */
+  steps: WeightChange[];
+}
+
+/** Problems with a list of strategy weights; `field` names the list in messages. */
+export function strategyWeightProblems(raw: unknown, field: string = "strategies"): string[] {
+  const problems: string[] = [];
+  if (!Array.isArray(raw) || raw.length === 0) {
+    return [`${field} must list at least one strategy`];
+  }
+
+  const seen = new Set<string>();
+  let total = 0;
+  raw.forEach((strategy: any, i: number) => {
+    if (typeof strategy?.address !== "string" || !ethers.isAddress(strategy.address)) {
+      problems.push(`${field}[${i}].address must be an address (got ${JSON.stringify(strategy?.address)})`);
+    } else {
+      if (seen.has(strategy.address.toLowerCase())) {
+        problems.push(`${field}[${i}] repeats ${strategy.address}`);
+      }
+      seen.add(strategy.address.toLowerCase());
+    }
+    if (!Number.isInteger(strategy?.weight) || strategy.weight <= 0) {
+      problems.push(`${field}[${i}].weight must be a positive whole number of bps`);
+    } else {
+      total += strategy.weight;
+    }
+  });
+  if (total !== TOTAL_WEIGHT_BPS) {
+    problems.push(`strategy weights must sum to ${TOTAL_WEIGHT_BPS} bps (got ${total})`);
+  }
+  return problems;
+}
+
+export function validateWeights(raw: unknown, source: string): StrategyWeight[] {
+  const problems = strategyWeightProblems(raw);
+  if (problems.length > 0) {
+    throw new Error(`Invalid strategy weights ${source}:\n- ${problems.join("\n- ")}`);
+  }
+  return (raw as any[]).map(s => ({ address: s.address, weight: s.weight }));
+}
+
+export function loadWeights(file: string): StrategyWeight[] {
+  const text = fs.readFileSync(file, "utf-8");
+  const raw = file.endsWith(".json") ? JSON.parse(text) : require("js-yaml").load(text);
+  return validateWeights(Array.isArray(raw) ? raw : raw?.strategies, file);
+}
+
+/** Parses "0xA...=6000,0xB...=4000" */
+export function parseWeights(text: string): StrategyWeight[] {
+  const raw = text.split(",").map(pair => {
+    const [address, weight] = pair.split("=").map(part => part.trim());
+    return { address, weight: /^\d+$/.test(weight ?? "") ? Number(weight) : weight };
+  });
+  return validateWeights(raw, `"${text}"`);
+}
+
+export function planWeights(current: CurrentStrategy[], desired: StrategyWeight[]): WeightPlan {
+  const wanted = new Map(desired.map(d => [d.address.toLowerCase(), BigInt(d.weight)]));
+  const held = new Set(current.map(c => c.strategy.toLowerCase()));
+
+  const rows: WeightChange[] = current.map(c => {
+    const to = wanted.get(c.strategy.toLowerCase());
+    // A stale cache can read 0 while the strategy still holds funds.
+    const balance = c.liveBalance !== undefined && c.liveBalance > c.currentBalance ? c.liveBalance : c.currentBalance;
+    const base = { strategy: c.strategy, from: c.targetWeight, balance };
+    if (to === undefined) {
+      return balance > 0n
+        ? { ...base, kind: "drain", to: 0n }
+        : { ...base, kind: "remove", to: null };
+    }
+    return { ...base, kind: to === c.targetWeight ? "unchanged" : "update", to };
+  });
+  for (const d of desired) {
+    if (!held.has(d.address.toLowerCase())) {
+      rows.push({ kind: "add", strategy: d.address, from: null, to: BigInt(d.weight), balance: 0n });
+    }
+  }
+
+  const delta = (change: WeightChange) => (change.to ?? 0n) - (change.from ?? 0n);
+  const steps = rows
+    // A strategy already drained to 0 has nothing to do until it is empty.
+    .filter(change => change.from !== change.to)
+    .map((change, i) => ({ change, i }))
+    // Stable: reductions in row order, then increases in row order.
+    .sort((a, b) => (delta(a.change) < 0n) === (delta(b.change) < 0n) ? a.i - b.i : delta(a.change) < 0n ? -1 : 1)
+    .map(({ change }) => change);
+
+  return { rows, steps };
+}
@@ -0,0 +1,281 @@
+import { FeeData, Signer, TransactionReceipt, TransactionRequest, TransactionResponse } from "ethers";
+
+/**
+ * Sends transactions for one bot signer and sees them mined.
+ *
+ * Nonces are assigned locally while transactions are in flight, so vaults
+ * sharing a signer never race for the same nonce. A transaction without a
+ * receipt after `stuckTimeoutSeconds` is replaced at the same nonce with fees
+ * raised by `feeBumpPercent`, until the fees would exceed `maxFeeMultiplier`
+ * times those of the first broadcast. Transactions an earlier process left
+ * pending are taken over with resume() and replaced the same way.
+ */
+
+export interface TxManagerOptions {
+  /** Seconds without a receipt before a transaction is replaced (default 180) */
+  stuckTimeoutSeconds?: number;
+  /** How much each replacement raises the fees, in percent; nodes require at least 10 (default 15) */
+  feeBumpPercent?: number;
+  /** Replacement fees never exceed the first broadcast's fees times this (default 3) */
+  maxFeeMultiplier?: number;
+  /** How often to check for a receipt, in milliseconds (default 4000) */
+  pollIntervalMs?: number;
+}
+
+export type FeeSettings =
+  | { type: 2; maxFeePerGas: bigint; maxPriorityFeePerGas: bigint }
+  | { type: 0; gasPrice: bigint };
+
+/** Called for every broadcast, with the hashes of earlier broadcasts it replaces. */
+export type BroadcastListener = (tx: TransactionResponse, replaces: string[]) => void;
+
+/** EIP-1559 fees when the network reports them, a legacy gas price otherwise. */
+export function feesFromFeeData(feeData: FeeData): FeeSettings {
+  if (feeData.maxFeePerGas !== null && feeData.maxPriorityFeePerGas !== null) {
+    return { type: 2, maxFeePerGas: feeData.maxFeePerGas, maxPriorityFeePerGas: feeData.maxPriorityFeePerGas };
+  }
+  if (feeData.gasPrice === null) {
+    throw new Error("Network reported neither EIP-1559 fees nor a gas price");
+  }
+  return { type: 0, gasPrice: feeData.gasPrice };
+}
+
+/** The fees `tx` was broadcast with. */
+export function feesOf(tx: TransactionResponse): FeeSettings {
+  if (tx.maxFeePerGas !== null && tx.maxPriorityFeePerGas !== null) {
+    return { type: 2, maxFeePerGas: tx.maxFeePerGas, maxPriorityFeePerGas: tx.maxPriorityFeePerGas };
+  }
+  return { type: 0, gasPrice: tx.gasPrice };
+}
+
+function scale(value: bigint, percent: bigint): bigint {
+  return value * percent / 100n;
+}
+
+function max(a: bigint, b: bigint): bigint {
+  return a > b ? a : b;
+}
+
+/**
+ * Fees for a replacement: each field raised by `bumpPercent`, or the
+ * network's current value if that is higher.
+ */
+export function bumpFees(previous: FeeSettings, network: FeeSettings, bumpPercent: number): FeeSettings {
+  const percent = BigInt(100 + bumpPercent);
+  if (previous.type === 2) {
+    const current = network.type === 2 ? network : { maxFeePerGas: network.gasPrice, maxPriorityFeePerGas: network.gasPrice };
+    const maxPriorityFeePerGas = max(scale(previous.maxPriorityFeePerGas, percent), current.maxPriorityFeePerGas);
+    return {
+      type: 2,
+      maxFeePerGas: max(max(scale(previous.maxFeePerGas, percent), current.maxFeePerGas), maxPriorityFeePerGas),
+      maxPriorityFeePerGas,
+    };
+  }
+  const current = network.type === 0 ? network.gasPrice : network.maxFeePerGas;
+  return { type: 0, gasPrice: max(scale(previous.gasPrice, percent), current) };
+}
+
+/** Whether any fee field of `fees` is above the same field of `cap`. */
+export function exceedsCap(fees: FeeSettings, cap: FeeSettings): boolean {
+  if (fees.type === 2 && cap.type === 2) {
+    return fees.maxFeePerGas > cap.maxFeePerGas || fees.maxPriorityFeePerGas > cap.maxPriorityFeePerGas;
+  }
+  if (fees.type === 0 && cap.type === 0) {
+    return fees.gasPrice > cap.gasPrice;
+  }
+  return true;
+}
+
+function describeFees(fees: FeeSettings): string {
+  const gwei = (wei: bigint) => `${Number(wei) / 1e9} gwei`;
+  return fees.type === 2
+    ? `maxFee ${gwei(fees.maxFeePerGas)}, priority ${gwei(fees.maxPriorityFeePerGas)}`
+    : `gasPrice ${gwei(fees.gasPrice)}`;
+}
+
+export class TxManager {
+  private signer: Signer;
+  private stuckTimeoutMs: number;
+  private feeBumpPercent: number;
+  private maxFeePercent: bigint;
+  private pollIntervalMs: number;
+  private nextNonce: number | null = null;
+  private inFlight = 0;
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(signer: Signer, options: TxManagerOptions = {}) {
+    this.signer = signer;
+    this.stuckTimeoutMs = (options.stuckTimeoutSeconds ?? 180) * 1000;
+    this.feeBumpPercent = options.feeBumpPercent ?? 15;
+    this.maxFeePercent = BigInt(Math.round((options.maxFeeMultiplier ?? 3) * 100));
+    this.pollIntervalMs = options.pollIntervalMs ?? 4000;
+  }
+
+  private get provider() {
+    if (!this.signer.provider) {
+      throw new Error("Signer is not connected to a provider");
+    }
+    return this.signer.provider;
+  }
+
+  /**
+   * Broadcasts `request` and resolves with its receipt once it, or one of its
+   * replacements, is mined. Throws with the receipt attached (`error.receipt`)
+   * if the mined transaction reverted.
+   */
+  async send(request: TransactionRequest, onBroadcast?: BroadcastListener): Promise<TransactionReceipt> {
+    const { tx, nonce, fees } = await this.exclusive(async () => {
+      const nonce = await this.reserveNonce();
+      const fees = feesFromFeeData(await this.provider.getFeeData());
+      try {
+        const tx = await this.signer.sendTransaction({ ...request, nonce, ...fees });
+        return { tx, nonce, fees };
+      } catch (error) {
+        // The nonce may not have been used; ask the node again next time.
+        this.nextNonce = null;
+        throw error;
+      }
+    });
+
+    this.notify(onBroadcast, tx, []);
+    return await this.tracking(() => this.track(request, [tx.hash], nonce, fees, this.capFor(fees), Date.now(), onBroadcast));
+  }
+
+  /**
+   * Takes over a transaction an earlier process broadcast at `nonce`, as
+   * `hashes` (oldest first, the last sent at `sentAt` ms), and sees it mined
+   * the way send() does: while it is stuck, `request` is sent again at that
+   * nonce with bumped fees, capped against the first broadcast's fees.
+   */
+  async resume(
+    request: TransactionRequest,
+    hashes: string[],
+    nonce: number,
+    sentAt: number,
+    onBroadcast?: BroadcastListener
+  ): Promise<TransactionReceipt> {
+    const known = (await Promise.all(hashes.map(hash => this.provider.getTransaction(hash))))
+      .filter((tx): tx is TransactionResponse => tx !== null);
+    if (known.length === 0) {
+      throw new Error(`The node knows none of the transactions sent at nonce ${nonce}`);
+    }
+    const fees = feesOf(known[known.length - 1]);
+    const cap = this.capFor(feesOf(known[0]));
+    return await this.tracking(() => this.track(request, [...hashes], nonce, fees, cap, sentAt, onBroadcast));
+  }
+
+  /** The first receipt found for any of `hashes`, which all share one nonce. */
+  async findReceipt(hashes: string[]): Promise<TransactionReceipt | null> {
+    for (const hash of hashes) {
+      const receipt = await this.provider.getTransactionReceipt(hash);
+      if (receipt) return receipt;
+    }
+    return null;
+  }
+
+  // While anything is tracked, reserveNonce() keeps counting past it.
+  private async tracking<T>(task: () => Promise<T>): Promise<T> {
+    this.inFlight++;
+    try {
+      return await task();
+    } finally {
+      if (--this.inFlight === 0) {
+        this.nextNonce = null;
+      }
+    }
+  }
+
+  /** The highest fees a replacement of a transaction first sent at `firstFees` may have. */
+  private capFor(firstFees: FeeSettings): FeeSettings {
+    return firstFees.type === 2
+      ? { ...firstFees, maxFeePerGas: scale(firstFees.maxFeePerGas, this.maxFeePercent), maxPriorityFeePerGas: scale(firstFees.maxPriorityFeePerGas, this.maxFeePercent) }
+      : { ...firstFees, gasPrice: scale(firstFees.gasPrice, this.maxFeePercent) };
+  }
+
+  /** Waits for one of `hashes` to be mined, replacing the last one while it is stuck. */
+  private async track(
+    request: TransactionRequest,
+    hashes: string[],
+    nonce: number,
+    lastFees: FeeSettings,
+    cap: FeeSettings,
+    lastBroadcast: number,
+    onBroadcast?: BroadcastListener
+  ): Promise<TransactionReceipt> {
+    let fees = lastFees;
+    let capped = false;
+
+    for (;;) {
+      const receipt = await this.checkMined(hashes, nonce);
+      if (receipt) {
+        if (receipt.status !== 1) {
+          throw Object.assign(new Error(`Transaction ${receipt.hash} reverted`), { receipt });
+        }
+        return receipt;
+      }
+
+      if (!capped && Date.now() - lastBroadcast >= this.stuckTimeoutMs) {
+        const bumped = bumpFees(fees, feesFromFeeData(await this.provider.getFeeData()), this.feeBumpPercent);
+        if (exceedsCap(bumped, cap)) {
+          console.warn(`⚠️  Transaction at nonce ${nonce} is stuck but replacing it would exceed the fee cap (${describeFees(cap)}) - waiting`);
+          capped = true;
+        } else {
+          try {
+            const replacement = await this.signer.sendTransaction({ ...request, nonce, ...bumped });
+            console.log(`🔁 Replaced stuck transaction ${hashes[hashes.length - 1]} with ${replacement.hash} (${describeFees(bumped)})`);
+            this.notify(onBroadcast, replacement, [...hashes]);
+            hashes.push(replacement.hash);
+            fees = bumped;
+          } catch (error: any) {
+            // Usually the previous broadcast was mined in the meantime.
+            console.warn(`⚠️  Could not replace transaction at nonce ${nonce}:`, error.message);
+          }
+          lastBroadcast = Date.now();
+        }
+      }
+
+      await this.sleep();
+    }
+  }
+
+  /**
+   * Receipt for `hashes` if one was mined. Throws once the nonce has been
+   * used by a transaction that is none of them.
+   */
+  private async checkMined(hashes: string[], nonce: number): Promise<TransactionReceipt | null> {
+    // Read the count first: once it is past the nonce, one of ours, if any, has a receipt.
+    const minedCount = await this.provider.getTransactionCount(await this.signer.getAddress(), "latest");
+    const receipt = await this.findReceipt(hashes);
+    if (!receipt && minedCount > nonce) {
+      throw new Error(`Nonce ${nonce} was used by another transaction`);
+    }
+    return receipt;
+  }
+
+  // Local nonces only matter while our own transactions are in flight; the
+  // node's pending count is authoritative otherwise.
+  private async reserveNonce(): Promise<number> {
+    const pendingCount = await this.provider.getTransactionCount(await this.signer.getAddress(), "pending");
+    const nonce = this.nextNonce === null ? pendingCount : Math.max(this.nextNonce, pendingCount);
+    this.nextNonce = nonce + 1;
+    return nonce;
+  }
+
+  private exclusive<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(task);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  private notify(listener: BroadcastListener | undefined, tx: TransactionResponse, replaces: string[]): void {
+    try {
+      listener?.(tx, replaces);
+    } catch (error: any) {
+      console.error('⚠️  Broadcast listener failed:', error.message);
+    }
+  }
+
+  private sleep(): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, this.pollIntervalMs));
+  }
+}
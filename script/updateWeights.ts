@@ -0,0 +1,158 @@
+import * as readline from "readline";
+import { ethers } from "hardhat";
+import { loadSigner } from "./signers";
+import { getVaultMetadata } from "./assetMetadata";
+import { planWeights, StrategyWeight, WeightChange } from "./strategyWeights";
+
+/**
+ * Set a vault's strategies and target weights to a desired set: updates
+ * weights that differ, adds strategies that are new and removes the ones left
+ * out. Shows the diff against getStrategies() and asks before sending.
+ *
+ * Usage:
+ * npx hardhat vault:update-weights --file weights.yaml --network rayls
+ * npx hardhat vault:update-weights --weights 0xA...=6000,0xB...=4000 --network rayls
+ *
+ * The changes go out as one transaction each, reductions first so the total
+ * never exceeds 10000 bps in between. The plan is worked out from the vault's
+ * current state, so after a failure, rerunning applies whatever is left.
+ */
+
+export interface UpdateWeightsOptions {
+    vault: string;
+    weights: StrategyWeight[];
+    /** Apply without asking */
+    yes?: boolean;
+    /** Show the diff and stop */
+    dryRun?: boolean;
+}
+
+function percent(bps: bigint | null): string {
+    return bps === null ? "-" : `${(Number(bps) / 100).toFixed(2)}%`;
+}
+
+const ACTION_LABELS: Record<WeightChange["kind"], string> = {
+    add: "add",
+    update: "update",
+    remove: "remove",
+    drain: "set to 0% (still holds funds)",
+    unchanged: "",
+};
+
+async function confirm(question: string): Promise<boolean> {
+    if (!process.stdin.isTTY) {
+        throw new Error("No terminal to confirm on - pass --yes to apply without confirming");
+    }
+    const rl = readline.createInterface({ input: process.stdin, output: process.stdout });
+    try {
+        const answer = await new Promise<string>(resolve => rl.question(question, resolve));
+        return /^y(es)?$/i.test(answer.trim());
+    } finally {
+        rl.close();
+    }
+}
+
+export async function updateWeights({ vault: VAULT_ADDRESS, weights, yes, dryRun }: UpdateWeightsOptions) {
+    console.log("\n" + "=".repeat(60));
+    console.log("🎚️  UPDATE STRATEGY WEIGHTS");
+    console.log("=".repeat(60));
+
+    const owner = await loadSigner("WALLET_");
+    const vault = await ethers.getContractAt("RaylsVault", VAULT_ADDRESS, owner);
+    const { asset: assetMeta } = await getVaultMetadata(VAULT_ADDRESS, owner);
+
+    console.log("\n📋 Configuration:");
+    console.log("━".repeat(60));
+    console.log("Signer:           ", await owner.getAddress());
+    console.log("Vault:            ", VAULT_ADDRESS);
+    console.log("━".repeat(60));
+
+    const current = await Promise.all((await vault.getStrategies()).map(async s => ({
+        strategy: s.strategy,
+        targetWeight: s.targetWeight,
+        currentBalance: s.currentBalance,
+        liveBalance: await (await ethers.getContractAt("IVaultStrategy", s.strategy, owner)).getTotalAssets(),
+    })));
+    const plan = planWeights(current, weights);
+
+    // ============================================
+    // Diff
+    // ============================================
+
+    console.log("\n📊 Changes:");
+    console.log("━".repeat(60));
+    console.log(`${"Strategy".padEnd(44)}${"Current".padStart(9)}${"Target".padStart(9)}  Action`);
+    for (const row of plan.rows) {
+        console.log(`${row.strategy.padEnd(44)}${percent(row.from).padStart(9)}${percent(row.to).padStart(9)}  ${ACTION_LABELS[row.kind]}`);
+    }
+    const totalOf = (values: Array<bigint | null>) => values.reduce<bigint>((sum, w) => sum + (w ?? 0n), 0n);
+    console.log(`${"Total".padEnd(44)}${percent(totalOf(plan.rows.map(r => r.from))).padStart(9)}${percent(totalOf(plan.rows.map(r => r.to))).padStart(9)}`);
+    console.log("━".repeat(60));
+
+    const drains = plan.rows.filter(row => row.kind === "drain");
+    for (const row of drains) {
+        console.log(`⚠️  ${row.strategy} holds ${assetMeta.display(row.balance)} - it can only be removed once a rebalance empties it (sync its balance first if the vault does not show it)`);
+    }
+
+    if (plan.steps.length === 0) {
+        console.log("\n✅ Weights already match, nothing to do");
+        return;
+    }
+
+    // ============================================
+    // Pre-flight
+    // ============================================
+
+    const vaultAsset = await vault.asset();
+    for (const step of plan.steps.filter(s => s.kind === "add")) {
+        const strategy = await ethers.getContractAt("IVaultStrategy", step.strategy, owner);
+        const want = await strategy.want();
+        if (want.toLowerCase() !== vaultAsset.toLowerCase()) {
+            throw new Error(`Strategy ${step.strategy} wants ${want}, but the vault's asset is ${vaultAsset}`);
+        }
+        const linked = await strategy.getVault();
+        if (linked.toLowerCase() !== VAULT_ADDRESS.toLowerCase()) {
+            console.log(`⚠️  ${step.strategy} is not linked to this vault yet (getVault() = ${linked}) - run vault:link-strategies before rebalancing`);
+        }
+    }
+
+    if (dryRun) {
+        console.log(`\n🧪 Dry run: ${plan.steps.length} change(s) not sent`);
+        return;
+    }
+    if (!yes && !(await confirm(`\nApply ${plan.steps.length} change(s)? [y/N] `))) {
+        console.log("Aborted, nothing sent");
+        return;
+    }
+
+    // ============================================
+    // Apply
+    // ============================================
+
+    console.log("\n📝 Applying...");
+    for (let i = 0; i < plan.steps.length; i++) {
+        const step = plan.steps[i];
+        try {
+            let tx;
+            if (step.kind === "add") {
+                tx = await vault.addStrategy(step.strategy, step.to!);
+            } else if (step.kind === "remove") {
+                tx = await vault.removeStrategy(step.strategy);
+            } else {
+                tx = await vault.updateStrategyWeight(step.strategy, step.to!);
+            }
+            await tx.wait();
+            console.log(`✅ ${ACTION_LABELS[step.kind]} ${step.strategy} ${percent(step.from)} → ${percent(step.to)}`);
+        } catch (error: any) {
+            throw new Error(
+                `${ACTION_LABELS[step.kind]} ${step.strategy} failed after ${i} of ${plan.steps.length} change(s): ` +
+                `${error.reason ?? error.message} - rerun to apply the rest`
+            );
+        }
+    }
+
+    console.log("\n✅ Weights updated");
+    if (drains.length > 0) {
+        console.log("   Rebalance (npx hardhat vault:rebalance), then rerun to remove the drained strategies");
+    }
+}
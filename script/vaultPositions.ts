@@ -0,0 +1,227 @@
+import { ethers } from "hardhat";
+import { RaylsVault } from "../typechain";
+import { getVaultMetadata, TokenMetadata } from "./assetMetadata";
+import { Position, replayPositions, ShareEvent } from "./positionLedger";
+
+/**
+ * Per-user positions and P&L for vaults, rebuilt from their Deposit, Withdraw
+ * and share Transfer events and valued with convertToAssets at one block.
+ *
+ * Usage:
+ * npx hardhat vault:position --vault nyUSDC --network rayls
+ * npx hardhat vault:position --all --block 1234567 --format csv --out positions.csv --network rayls
+ */
+
+/** Blocks per eth_getLogs request; RPCs cap the range they will search. */
+const LOG_CHUNK_BLOCKS = 10_000;
+
+export interface UserPosition extends Position {
+  /** convertToAssets(shares) at the report block */
+  value: bigint;
+  /** value minus cost basis */
+  unrealizedPnl: bigint;
+}
+
+export interface VaultPositions {
+  vault: string;
+  /** Address book name, when the vault has one */
+  name?: string;
+  asset: TokenMetadata;
+  shareToken: TokenMetadata;
+  users: UserPosition[];
+  totals: Omit<UserPosition, "user">;
+}
+
+export interface PositionReport {
+  chainId: number;
+  block: number;
+  /** Block timestamp, ISO 8601 */
+  timestamp: string;
+  vaults: VaultPositions[];
+}
+
+export interface PositionOptions {
+  /** First block to read events from; default 0 */
+  fromBlock?: number;
+  /** Block to read events up to and value positions at; default latest */
+  block?: number;
+  /** Only this user's row (totals still cover everyone) */
+  user?: string;
+}
+
+async function queryChunked<T>(fromBlock: number, toBlock: number, query: (from: number, to: number) => Promise<T[]>): Promise<T[]> {
+  const results: T[] = [];
+  for (let from = fromBlock; from <= toBlock; from += LOG_CHUNK_BLOCKS) {
+    results.push(...await query(from, Math.min(from + LOG_CHUNK_BLOCKS - 1, toBlock)));
+  }
+  return results;
+}
+
+async function readShareEvents(vault: RaylsVault, fromBlock: number, toBlock: number): Promise<ShareEvent[]> {
+  const [deposits, withdrawals, transfers] = await Promise.all([
+    queryChunked(fromBlock, toBlock, (from, to) => vault.queryFilter(vault.filters.Deposit(), from, to)),
+    queryChunked(fromBlock, toBlock, (from, to) => vault.queryFilter(vault.filters.Withdraw(), from, to)),
+    queryChunked(fromBlock, toBlock, (from, to) => vault.queryFilter(vault.filters.Transfer(), from, to)),
+  ]);
+
+  return [
+    ...deposits.map(e => ({
+      kind: "deposit" as const, block: e.blockNumber, logIndex: e.index,
+      owner: e.args.owner, assets: e.args.assets, shares: e.args.shares,
+    })),
+    ...withdrawals.map(e => ({
+      kind: "withdraw" as const, block: e.blockNumber, logIndex: e.index,
+      owner: e.args.owner, assets: e.args.assets, shares: e.args.shares,
+    })),
+    // Mints and burns are already covered by Deposit and Withdraw.
+    ...transfers
+      .filter(e => e.args.from !== ethers.ZeroAddress && e.args.to !== ethers.ZeroAddress)
+      .map(e => ({
+        kind: "transfer" as const, block: e.blockNumber, logIndex: e.index,
+        from: e.args.from, to: e.args.to, shares: e.args.value,
+      })),
+  ];
+}
+
+export async function readVaultPositions(vaultAddress: string, block: number, options: PositionOptions = {}, name?: string): Promise<VaultPositions> {
+  const vault = await ethers.getContractAt("RaylsVault", vaultAddress);
+  const { asset, shares: shareToken } = await getVaultMetadata(vaultAddress);
+  const positions = [...replayPositions(await readShareEvents(vault, options.fromBlock ?? 0, block)).values()];
+
+  const all: UserPosition[] = await Promise.all(positions.map(async p => {
+    const value = p.shares > 0n ? await vault.convertToAssets(p.shares, { blockTag: block }) : 0n;
+    return { ...p, value, unrealizedPnl: value - p.costBasis };
+  }));
+
+  const sum = (field: keyof Omit<UserPosition, "user">) => all.reduce((total, p) => total + p[field], 0n);
+  return {
+    vault: vaultAddress,
+    name,
+    asset,
+    shareToken,
+    users: options.user ? all.filter(p => p.user.toLowerCase() === options.user!.toLowerCase()) : all,
+    totals: {
+      shares: sum("shares"),
+      costBasis: sum("costBasis"),
+      deposited: sum("deposited"),
+      withdrawn: sum("withdrawn"),
+      realizedPnl: sum("realizedPnl"),
+      value: sum("value"),
+      unrealizedPnl: sum("unrealizedPnl"),
+    },
+  };
+}
+
+export async function readPositions(vaults: Array<{ address: string; name?: string }>, options: PositionOptions = {}): Promise<PositionReport> {
+  const block = options.block ?? await ethers.provider.getBlockNumber();
+  const [network, header] = await Promise.all([ethers.provider.getNetwork(), ethers.provider.getBlock(block)]);
+  if (!header) {
+    throw new Error(`Block ${block} does not exist yet`);
+  }
+
+  const report: PositionReport = {
+    chainId: Number(network.chainId),
+    block,
+    timestamp: new Date(header.timestamp * 1000).toISOString(),
+    vaults: [],
+  };
+  for (const vault of vaults) {
+    report.vaults.push(await readVaultPositions(vault.address, block, options, vault.name));
+  }
+  return report;
+}
+
+// ============================================
+// Output
+// ============================================
+
+const COLUMNS = ["shares", "deposited", "withdrawn", "costBasis", "value", "realizedPnl", "unrealizedPnl"] as const;
+
+/** Row amounts as decimal strings in the asset's (or, for shares, the vault's) units */
+function formatRow(vault: VaultPositions, row: Omit<UserPosition, "user">): Record<(typeof COLUMNS)[number], string> {
+  const formatted = {} as Record<(typeof COLUMNS)[number], string>;
+  for (const column of COLUMNS) {
+    formatted[column] = column === "shares" ? vault.shareToken.format(row.shares) : vault.asset.format(row[column]);
+  }
+  return formatted;
+}
+
+export function positionsToJson(report: PositionReport): string {
+  return JSON.stringify({
+    chainId: report.chainId,
+    block: report.block,
+    timestamp: report.timestamp,
+    vaults: report.vaults.map(v => ({
+      vault: v.vault,
+      name: v.name,
+      asset: v.asset.address,
+      symbol: v.asset.symbol,
+      totals: formatRow(v, v.totals),
+      users: v.users.map(u => ({ user: u.user, ...formatRow(v, u) })),
+    })),
+  }, null, 2);
+}
+
+function csvField(value: string): string {
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/** One row per user per vault, then a `total` row per vault. */
+export function positionsToCsv(report: PositionReport): string {
+  const header = ["block", "timestamp", "vault", "name", "symbol", "user", ...COLUMNS];
+  const lines = [header.join(",")];
+  for (const v of report.vaults) {
+    const rows = [...v.users.map(u => ({ user: u.user, row: u as Omit<UserPosition, "user"> })), { user: "total", row: v.totals }];
+    for (const { user, row } of rows) {
+      const formatted = formatRow(v, row);
+      const fields = [String(report.block), report.timestamp, v.vault, v.name ?? "", v.asset.symbol, user, ...COLUMNS.map(c => formatted[c])];
+      lines.push(fields.map(csvField).join(","));
+    }
+  }
+  return lines.join("\n") + "\n";
+}
+
+export function printPositions(report: PositionReport): void {
+  console.log("\n" + "=".repeat(60));
+  console.log("📒 VAULT POSITIONS");
+  console.log("=".repeat(60));
+  console.log("Chain ID:         ", report.chainId);
+  console.log("Block:            ", `${report.block} (${report.timestamp})`);
+
+  const widths = [44, 16, 16, 16, 16, 16];
+  const line = (cells: string[]) => cells.map((c, i) => (i === 0 ? c.padEnd(widths[i]) : c.padStart(widths[i]))).join("");
+
+  for (const v of report.vaults) {
+    console.log("\n" + "━".repeat(124));
+    console.log(`${v.name ? `${v.name} (${v.vault})` : v.vault}, amounts in ${v.asset.symbol}`);
+    console.log("━".repeat(124));
+    console.log(line(["User", "Cost basis", "Value", "Realized", "Unrealized", "Total P&L"]));
+    const rows = [...v.users.map(u => ({ user: u.user, row: u as Omit<UserPosition, "user"> })), { user: "Total", row: v.totals }];
+    for (const { user, row } of rows) {
+      if (user === "Total") console.log("━".repeat(124));
+      console.log(line([
+        user,
+        v.asset.format(row.costBasis),
+        v.asset.format(row.value),
+        v.asset.format(row.realizedPnl),
+        v.asset.format(row.unrealizedPnl),
+        v.asset.format(row.realizedPnl + row.unrealizedPnl),
+      ]));
+    }
+  }
+
+  console.log("\n📊 By Vault:");
+  console.log("━".repeat(124));
+  console.log(line(["Vault", "Deposited", "Withdrawn", "Value", "Realized", "Unrealized"]));
+  for (const v of report.vaults) {
+    console.log(line([
+      `${v.name ?? v.vault} (${v.asset.symbol})`,
+      v.asset.format(v.totals.deposited),
+      v.asset.format(v.totals.withdrawn),
+      v.asset.format(v.totals.value),
+      v.asset.format(v.totals.realizedPnl),
+      v.asset.format(v.totals.unrealizedPnl),
+    ]));
+  }
+  console.log("━".repeat(124));
+}
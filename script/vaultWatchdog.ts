@@ -0,0 +1,344 @@
+import { ethers } from "hardhat";
+import { Signer } from "ethers";
+import { IERC20__factory, IVaultStrategy__factory, RaylsVault, RaylsVault__factory, RaylsVaultRegistry__factory } from "../typechain";
+import { AlertManager, ConsoleSink, createAlertManager } from "./alerts";
+import { getVaultMetadata } from "./assetMetadata";
+import { loadBotConfig, resolveVaults } from "./botConfig";
+import { assertNotPlaintext, createSigner, describeSignerSource, signerSourceFromEnv } from "./signers";
+import { TxManager } from "./txManager";
+
+/**
+ * Circuit breaker for RaylsVaults, run separately from the rebalancing bot.
+ *
+ * Every block (or every WATCHDOG_INTERVAL_SECONDS) it checks that:
+ *   - the share price has not fallen more than WATCHDOG_MAX_SHARE_PRICE_DROP_BPS
+ *     (default 100) below the highest price seen since the watchdog started
+ *   - no strategy's live getTotalAssets() is more than WATCHDOG_MAX_STRATEGY_LOSS_BPS
+ *     (default 5000) below the balance the vault has cached for it
+ *   - the vault's assets are all accounted for, within WATCHDOG_TOTAL_ASSETS_TOLERANCE_BPS
+ *     (default 0): in multi-strategy mode totalAssets() is not below idle assets plus
+ *     the cached strategy balances, and in single-strategy mode no assets sit idle in
+ *     the vault, where totalAssets() does not count them
+ *
+ * A breach raises a critical alert. With WATCHDOG_PAUSE=true and a signer for
+ * the registry owner (WATCHDOG_OWNER_KEYSTORE, WATCHDOG_OWNER_REMOTE_SIGNER or,
+ * on local chains, WATCHDOG_OWNER_PRIVATE_KEY) it also pauses the vault. Vaults
+ * come from the bot's config (VAULT_ADDRESS, BOT_CONFIG or DISCOVER_VAULTS).
+ *
+ * Usage:
+ * npm run watchdog:start
+ * WATCHDOG_PAUSE=true WATCHDOG_OWNER_KEYSTORE=keys/owner.json npm run watchdog:start
+ */
+
+export interface WatchdogLimits {
+  /** Largest tolerated fall of the share price below its high-water mark, in bps */
+  maxSharePriceDropBps: number;
+  /** Largest tolerated shortfall of a strategy's live assets against its cached balance, in bps */
+  maxStrategyLossBps: number;
+  /** Largest tolerated shortfall of totalAssets() against the vault's books, in bps */
+  totalAssetsToleranceBps: number;
+}
+
+export const DEFAULT_WATCHDOG_LIMITS: WatchdogLimits = {
+  maxSharePriceDropBps: 100,
+  maxStrategyLossBps: 5000,
+  totalAssetsToleranceBps: 0,
+};
+
+export interface VaultSnapshot {
+  block: number;
+  paused: boolean;
+  /** isMultiStrategyEnabled(); a single-strategy vault keeps everything in getStrategy() */
+  multiStrategy: boolean;
+  /** Assets one whole share converts to */
+  sharePrice: bigint;
+  totalAssets: bigint;
+  idle: bigint;
+  /** getStrategies(), in multi-strategy mode only */
+  strategies: { strategy: string; cachedBalance: bigint; liveBalance: bigint }[];
+}
+
+export type Invariant = "sharePrice" | "strategyLoss" | "totalAssets";
+
+export interface Breach {
+  invariant: Invariant;
+  message: string;
+}
+
+/** Amounts in messages are formatted by `format` (asset units). */
+export function checkInvariants(
+  snapshot: VaultSnapshot,
+  sharePriceHigh: bigint,
+  limits: WatchdogLimits,
+  format: (amount: bigint) => string = amount => amount.toString()
+): Breach[] {
+  const breaches: Breach[] = [];
+  const bps = (part: bigint, whole: bigint) => (whole > 0n ? part * 10000n / whole : 0n);
+  const percent = (value: bigint) => `${Number(value) / 100}%`;
+
+  if (snapshot.sharePrice < sharePriceHigh) {
+    const drop = bps(sharePriceHigh - snapshot.sharePrice, sharePriceHigh);
+    if (drop > BigInt(limits.maxSharePriceDropBps)) {
+      breaches.push({
+        invariant: "sharePrice",
+        message: `Share price fell ${percent(drop)} from ${format(sharePriceHigh)} to ${format(snapshot.sharePrice)}`,
+      });
+    }
+  }
+
+  for (const s of snapshot.strategies) {
+    if (s.liveBalance >= s.cachedBalance) continue;
+    const loss = bps(s.cachedBalance - s.liveBalance, s.cachedBalance);
+    if (loss > BigInt(limits.maxStrategyLossBps)) {
+      breaches.push({
+        invariant: "strategyLoss",
+        message: `Strategy ${s.strategy} holds ${format(s.liveBalance)}, ${percent(loss)} below its cached ${format(s.cachedBalance)}`,
+      });
+    }
+  }
+
+  // A paused vault's totalAssets() is just its idle balance; there is nothing to compare.
+  const tolerance = BigInt(limits.totalAssetsToleranceBps);
+  if (!snapshot.paused && snapshot.multiStrategy) {
+    // totalAssets() is idle plus live strategy balances here, so it is held
+    // against the vault's books instead; yield not yet synced only adds to it.
+    const booked = snapshot.idle + snapshot.strategies.reduce((total, s) => total + s.cachedBalance, 0n);
+    const shortfall = snapshot.totalAssets < booked ? bps(booked - snapshot.totalAssets, booked) : 0n;
+    if (shortfall > tolerance) {
+      breaches.push({
+        invariant: "totalAssets",
+        message: `totalAssets() is ${format(snapshot.totalAssets)}, ${percent(shortfall)} below the ` +
+          `${format(booked)} of idle assets and cached strategy balances`,
+      });
+    }
+  } else if (!snapshot.paused && bps(snapshot.idle, snapshot.totalAssets + snapshot.idle) > tolerance) {
+    // Deposits go straight to the strategy, and totalAssets() counts only the strategy.
+    breaches.push({
+      invariant: "totalAssets",
+      message: `${format(snapshot.idle)} sits idle in the vault, outside its totalAssets() of ${format(snapshot.totalAssets)}`,
+    });
+  }
+
+  return breaches;
+}
+
+export interface VaultWatchdogOptions {
+  limits?: WatchdogLimits;
+  alerts?: AlertManager;
+  /** Registry owner; when set, a breach pauses the vault */
+  pauser?: TxManager;
+}
+
+export class VaultWatchdog {
+  private vault: RaylsVault;
+  private vaultAddress: string;
+  private limits: WatchdogLimits;
+  private alerts: AlertManager;
+  private pauser: TxManager | null;
+  private sharePriceHigh = 0n;
+
+  constructor(vault: RaylsVault, vaultAddress: string, options: VaultWatchdogOptions = {}) {
+    this.vault = vault;
+    this.vaultAddress = vaultAddress;
+    this.limits = options.limits ?? DEFAULT_WATCHDOG_LIMITS;
+    this.alerts = options.alerts ?? new AlertManager([new ConsoleSink()]);
+    this.pauser = options.pauser ?? null;
+  }
+
+  /** Reads everything the invariants need at one block, so the values agree with each other. */
+  async snapshot(blockTag: number): Promise<VaultSnapshot> {
+    const overrides = { blockTag };
+    const runner = this.vault.runner!;
+    const metadata = await getVaultMetadata(this.vaultAddress, runner);
+    const asset = IERC20__factory.connect(metadata.asset.address, runner);
+
+    const [paused, multiStrategy, sharePrice, totalAssets, idle] = await Promise.all([
+      this.vault.paused(overrides),
+      this.vault.isMultiStrategyEnabled(overrides),
+      this.vault.convertToAssets(10n ** BigInt(metadata.shares.decimals), overrides),
+      this.vault.totalAssets(overrides),
+      asset.balanceOf(this.vaultAddress, overrides),
+    ]);
+    const strategies = multiStrategy ? await this.vault.getStrategies(overrides) : [];
+    const liveBalances = await Promise.all(
+      strategies.map(s => IVaultStrategy__factory.connect(s.strategy, runner).getTotalAssets(overrides))
+    );
+
+    return {
+      block: blockTag,
+      paused,
+      multiStrategy,
+      sharePrice,
+      totalAssets,
+      idle,
+      strategies: strategies.map((s, i) => ({
+        strategy: s.strategy,
+        cachedBalance: s.currentBalance,
+        liveBalance: liveBalances[i],
+      })),
+    };
+  }
+
+  /**
+   * Checks the invariants at `blockTag`, alerting on breaches and pausing the
+   * vault when a pauser is configured. A paused vault is not checked: its
+   * totalAssets() only counts idle assets until it is unpaused.
+   */
+  async check(blockTag: number): Promise<Breach[]> {
+    const alertKey = `${this.vaultAddress}:watchdog`;
+    try {
+      const snapshot = await this.snapshot(blockTag);
+      await this.alerts.resolve(`${alertKey}:check`, 'Watchdog checks succeed again');
+      if (snapshot.paused) {
+        return [];
+      }
+
+      const { asset } = await getVaultMetadata(this.vaultAddress, this.vault.runner!);
+      const breaches = checkInvariants(snapshot, this.sharePriceHigh, this.limits, amount => asset.display(amount));
+      if (snapshot.sharePrice > this.sharePriceHigh) {
+        this.sharePriceHigh = snapshot.sharePrice;
+      }
+
+      if (breaches.length === 0) {
+        await this.alerts.resolve(alertKey, `Invariants hold again at block ${blockTag}`);
+        return [];
+      }
+
+      const message = breaches.map(b => `- ${b.message}`).join("\n");
+      console.error(`\n🚨 ${this.vaultAddress} breached invariants at block ${blockTag}:\n${message}`);
+      await this.alerts.alert('critical', 'Vault invariant breached', `Block ${blockTag}\n${message}`, alertKey);
+
+      if (this.pauser) {
+        await this.pause(blockTag);
+      }
+      return breaches;
+    } catch (error: any) {
+      console.error(`❌ Watchdog check of ${this.vaultAddress} failed:`, error.message);
+      await this.alerts.alert('warning', 'Watchdog check failed', error.message, `${alertKey}:check`);
+      return [];
+    }
+  }
+
+  private async pause(blockTag: number): Promise<void> {
+    try {
+      const request = await this.vault.pause.populateTransaction();
+      const receipt = await this.pauser!.send(request, tx => console.log(`⏸️  Pause transaction sent: ${tx.hash}`));
+      await this.alerts.alert(
+        'critical',
+        'Vault paused by watchdog',
+        `Paused in block ${receipt.blockNumber} (tx ${receipt.hash}) after the breach at block ${blockTag}. ` +
+          `Review before calling emergencyWithdraw() or unpause().`,
+        this.vaultAddress
+      );
+    } catch (error: any) {
+      await this.alerts.alert('critical', 'Watchdog could not pause vault', error.message, this.vaultAddress);
+    }
+  }
+}
+
+/** Checks that `owner` may pause `vault`, i.e. is the owner of its registry. */
+async function assertCanPause(vault: RaylsVault, owner: Signer): Promise<void> {
+  const registry = RaylsVaultRegistry__factory.connect(await vault.getRegistry(), owner);
+  const registryOwner = await registry.owner();
+  const address = await owner.getAddress();
+  if (address.toLowerCase() !== registryOwner.toLowerCase()) {
+    throw new Error(`The watchdog owner signer is ${address}, but only the registry owner ${registryOwner} can pause`);
+  }
+}
+
+// ============================================
+// Main Entry Point
+// ============================================
+
+async function main() {
+  const INTERVAL_SECONDS = process.env.WATCHDOG_INTERVAL_SECONDS ? parseInt(process.env.WATCHDOG_INTERVAL_SECONDS) : 0;
+  const PAUSE = process.env.WATCHDOG_PAUSE === "true";
+  const ownerSource = signerSourceFromEnv("WATCHDOG_OWNER_");
+  const limits: WatchdogLimits = {
+    maxSharePriceDropBps: parseInt(process.env.WATCHDOG_MAX_SHARE_PRICE_DROP_BPS || `${DEFAULT_WATCHDOG_LIMITS.maxSharePriceDropBps}`),
+    maxStrategyLossBps: parseInt(process.env.WATCHDOG_MAX_STRATEGY_LOSS_BPS || `${DEFAULT_WATCHDOG_LIMITS.maxStrategyLossBps}`),
+    totalAssetsToleranceBps: parseInt(process.env.WATCHDOG_TOTAL_ASSETS_TOLERANCE_BPS || `${DEFAULT_WATCHDOG_LIMITS.totalAssetsToleranceBps}`),
+  };
+
+  if (PAUSE && !ownerSource) {
+    throw new Error("WATCHDOG_OWNER_KEYSTORE, WATCHDOG_OWNER_REMOTE_SIGNER or WATCHDOG_OWNER_PRIVATE_KEY is required when WATCHDOG_PAUSE=true");
+  }
+
+  const vaultConfigs = await resolveVaults(loadBotConfig());
+  if (vaultConfigs.length === 0) {
+    throw new Error("No vaults configured - set VAULT_ADDRESS, VAULT, BOT_CONFIG or DISCOVER_VAULTS=true, or add vaults for this chain to the address book");
+  }
+
+  const provider = process.env.RPC_URL ? new ethers.JsonRpcProvider(process.env.RPC_URL) : ethers.provider;
+  let owner: Signer | null = null;
+  if (PAUSE) {
+    await assertNotPlaintext(ownerSource, provider);
+    owner = await createSigner(ownerSource!, provider);
+  }
+  const pauser = owner ? new TxManager(owner, { stuckTimeoutSeconds: 30 }) : undefined;
+  const alerts = createAlertManager();
+
+  console.log("\n" + "=".repeat(60));
+  console.log("🐕 Vault Watchdog");
+  console.log("=".repeat(60));
+  console.log(`Vaults: ${vaultConfigs.length}`);
+  console.log(`Max share price drop: ${limits.maxSharePriceDropBps / 100}%`);
+  console.log(`Max strategy loss: ${limits.maxStrategyLossBps / 100}%`);
+  console.log(`totalAssets tolerance: ${limits.totalAssetsToleranceBps / 100}%`);
+  console.log(`On breach: ${owner ? `alert and pause as ${await owner.getAddress()}` : "alert only"}`);
+  console.log(`Checking: ${INTERVAL_SECONDS > 0 ? `every ${INTERVAL_SECONDS}s` : "every block"}`);
+  console.log("=".repeat(60));
+
+  const watchdogs: VaultWatchdog[] = [];
+  for (const { address } of vaultConfigs) {
+    // Read on the provider block numbers come from, whichever network hardhat is on.
+    const vault = RaylsVault__factory.connect(address, owner ?? provider);
+    if (owner) {
+      await assertCanPause(vault, owner);
+    }
+    watchdogs.push(new VaultWatchdog(vault, address, { limits, alerts, pauser }));
+  }
+
+  // A check that outlasts a block is not overlapped; the next block's check
+  // covers the ones skipped meanwhile.
+  let checking = false;
+  const checkAll = async (block: number) => {
+    if (checking) return;
+    checking = true;
+    try {
+      for (const watchdog of watchdogs) {
+        await watchdog.check(block);
+      }
+    } finally {
+      checking = false;
+    }
+  };
+
+  await checkAll(await provider.getBlockNumber());
+  let timer: NodeJS.Timeout | undefined;
+  if (INTERVAL_SECONDS > 0) {
+    timer = setInterval(() => {
+      provider.getBlockNumber()
+        .then(checkAll)
+        .catch(error => console.error("❌ Could not read the block number:", error.message));
+    }, INTERVAL_SECONDS * 1000);
+  } else {
+    await provider.on("block", checkAll);
+  }
+
+  const shutdown = async () => {
+    console.log("\n🛑 Stopping watchdog");
+    clearInterval(timer);
+    await provider.removeAllListeners("block");
+    process.exit(0);
+  };
+  process.on("SIGINT", shutdown);
+  process.on("SIGTERM", shutdown);
+}
+
+if (require.main === module) {
+  main().catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
+}
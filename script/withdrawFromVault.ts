@@ -1,40 +1,48 @@
 import { ethers } from "hardhat";
+import { loadSigner } from "./signers";
+import { getVaultMetadata } from "./assetMetadata";
 
 /**
  * Withdraw assets from the vault
  * 
  * Usage:
- * WITHDRAW_AMOUNT=50 npm run withdraw:rayls          # Withdraw 50 USDC
- * REDEEM_SHARES=50 npm run withdraw:rayls            # Redeem 50 shares
- * WITHDRAW_ALL=true npm run withdraw:rayls           # Withdraw everything
+ * npx hardhat vault:withdraw --amount 50 --network rayls     # Withdraw 50 asset tokens
+ * npx hardhat vault:withdraw --shares 50 --network rayls     # Redeem 50 shares
+ * npx hardhat vault:withdraw --all --network rayls           # Withdraw everything
  */
 
-async function main() {
+export interface WithdrawOptions {
+    vault: string;
+    /** Exactly one of amount (asset tokens), shares or all */
+    amount?: string;
+    shares?: string;
+    all?: boolean;
+}
+
+export async function withdrawFromVault(options: WithdrawOptions) {
     console.log("\n" + "=".repeat(60));
     console.log("💸 WITHDRAW FROM VAULT");
     console.log("=".repeat(60));
 
-    // Configuration
-    const VAULT_ADDRESS = process.env.VAULT_ADDRESS;
-    const ASSET_ADDRESS = process.env.ASSET_ADDRESS;
-
-    // Parse command options
-    const WITHDRAW_AMOUNT = process.env.WITHDRAW_AMOUNT; // Amount of USDC to withdraw
-    const REDEEM_SHARES = process.env.REDEEM_SHARES;     // Amount of shares to redeem
-    const WITHDRAW_ALL = process.env.WITHDRAW_ALL === "true"; // Withdraw all
+    const VAULT_ADDRESS = options.vault;
+    const WITHDRAW_AMOUNT = options.amount; // Amount of assets to withdraw
+    const REDEEM_SHARES = options.shares;   // Amount of shares to redeem
+    const WITHDRAW_ALL = options.all === true; // Withdraw all
 
-    const [user] = await ethers.getSigners();
+    const user = await loadSigner("WALLET_");
+    const userAddress = await user.getAddress();
+    const { asset: assetMeta, shares: shareMeta } = await getVaultMetadata(VAULT_ADDRESS);
     
     console.log("\n📋 Configuration:");
     console.log("━".repeat(60));
-    console.log("User:             ", user.address);
+    console.log("User:             ", userAddress);
     console.log("Vault:            ", VAULT_ADDRESS);
-    console.log("Asset:            ", ASSET_ADDRESS);
+    console.log("Asset:            ", `${assetMeta.symbol} (${assetMeta.address})`);
     console.log("━".repeat(60));
 
     // Connect to contracts
-    const asset = await ethers.getContractAt("IERC20", ASSET_ADDRESS);
-    const vault = await ethers.getContractAt("RaylsVault", VAULT_ADDRESS);
+    const asset = await ethers.getContractAt("IERC20", assetMeta.address, user);
+    const vault = await ethers.getContractAt("RaylsVault", VAULT_ADDRESS, user);
 
     // ============================================
     // Step 1: Check Current Position
@@ -43,10 +51,10 @@ async function main() {
     console.log("\n📊 Your Current Position:");
     console.log("━".repeat(60));
     
-    const shareBalance = await vault.balanceOf(user.address);
+    const shareBalance = await vault.balanceOf(userAddress);
     const totalSupply = await vault.totalSupply();
     const totalAssets = await vault.totalAssets();
-    const usdcBalance = await asset.balanceOf(user.address);
+    const usdcBalance = await asset.balanceOf(userAddress);
     
     if (shareBalance === 0n) {
         console.log("❌ You have no shares in this vault!");
@@ -62,10 +70,10 @@ async function main() {
         ? Number((shareBalance * 10000n) / totalSupply) / 100
         : 0;
     
-    console.log("Your Shares:      ", ethers.formatEther(shareBalance));
-    console.log("Share Value:      ", ethers.formatUnits(shareValue, 6), "USDC");
+    console.log("Your Shares:      ", shareMeta.format(shareBalance));
+    console.log("Share Value:      ", assetMeta.display(shareValue));
     console.log("% Ownership:      ", `${percentOwnership.toFixed(4)}%`);
-    console.log("USDC Balance:     ", ethers.formatUnits(usdcBalance, 6), "USDC");
+    console.log("Asset Balance:    ", assetMeta.display(usdcBalance));
     console.log("━".repeat(60));
 
     // ============================================
@@ -81,29 +89,29 @@ async function main() {
         redeemShares = shareBalance;
         withdrawAssets = shareValue;
         console.log("\n🎯 Mode: Withdraw All");
-        console.log("Will redeem:      ", ethers.formatEther(redeemShares), "shares");
-        console.log("Expected USDC:    ", ethers.formatUnits(withdrawAssets, 6), "USDC");
+        console.log("Will redeem:      ", shareMeta.format(redeemShares), "shares");
+        console.log("Expected Assets:  ", assetMeta.display(withdrawAssets));
     } else if (REDEEM_SHARES) {
         mode = "REDEEM SHARES";
-        redeemShares = ethers.parseEther(REDEEM_SHARES);
+        redeemShares = shareMeta.parse(REDEEM_SHARES);
         
         if (redeemShares > shareBalance) {
             console.log("\n❌ Insufficient shares!");
-            console.log("Requested:        ", ethers.formatEther(redeemShares), "shares");
-            console.log("Available:        ", ethers.formatEther(shareBalance), "shares");
+            console.log("Requested:        ", shareMeta.format(redeemShares), "shares");
+            console.log("Available:        ", shareMeta.format(shareBalance), "shares");
             return;
         }
         
-        // Preview how much USDC we'll get
+        // Preview how many assets we'll get
         const previewRedeem = await vault.previewRedeem(redeemShares);
         withdrawAssets = previewRedeem;
         
         console.log("\n🎯 Mode: Redeem Shares");
-        console.log("Redeeming:        ", ethers.formatEther(redeemShares), "shares");
-        console.log("Expected USDC:    ", ethers.formatUnits(withdrawAssets, 6), "USDC");
+        console.log("Redeeming:        ", shareMeta.format(redeemShares), "shares");
+        console.log("Expected Assets:  ", assetMeta.display(withdrawAssets));
     } else if (WITHDRAW_AMOUNT) {
         mode = "WITHDRAW ASSETS";
-        withdrawAssets = ethers.parseUnits(WITHDRAW_AMOUNT, 6);
+        withdrawAssets = assetMeta.parse(WITHDRAW_AMOUNT);
         
         // Preview how many shares will be burned
         const previewWithdraw = await vault.previewWithdraw(withdrawAssets);
@@ -111,21 +119,16 @@ async function main() {
         
         if (redeemShares > shareBalance) {
             console.log("\n❌ Insufficient shares for this withdrawal!");
-            console.log("Required shares:  ", ethers.formatEther(redeemShares));
-            console.log("Your shares:      ", ethers.formatEther(shareBalance));
+            console.log("Required shares:  ", shareMeta.format(redeemShares));
+            console.log("Your shares:      ", shareMeta.format(shareBalance));
             return;
         }
         
         console.log("\n🎯 Mode: Withdraw Specific Amount");
-        console.log("Withdrawing:      ", ethers.formatUnits(withdrawAssets, 6), "USDC");
-        console.log("Shares to burn:   ", ethers.formatEther(redeemShares));
+        console.log("Withdrawing:      ", assetMeta.display(withdrawAssets));
+        console.log("Shares to burn:   ", shareMeta.format(redeemShares));
     } else {
-        console.log("\n❌ Please specify withdrawal amount:");
-        console.log("Examples:");
-        console.log("  WITHDRAW_AMOUNT=50 npm run withdraw:rayls");
-        console.log("  REDEEM_SHARES=50 npm run withdraw:rayls");
-        console.log("  WITHDRAW_ALL=true npm run withdraw:rayls");
-        return;
+        throw new Error("Specify one of amount, shares or all");
     }
 
     // ============================================
@@ -138,14 +141,14 @@ async function main() {
     const strategies = await vault.getStrategies();
     const vaultAssetBalance = await asset.balanceOf(VAULT_ADDRESS);
     
-    console.log("Vault idle balance:", ethers.formatUnits(vaultAssetBalance, 6), "USDC");
+    console.log("Vault idle balance:", assetMeta.display(vaultAssetBalance));
     console.log("Total in strategies:", strategies.length);
     
     for (let i = 0; i < strategies.length; i++) {
         const strat = strategies[i];
         const strategy = await ethers.getContractAt("IVaultStrategy", strat.strategy);
         const balance = await strategy.getTotalAssets();
-        console.log(`  Strategy ${i + 1}:      ${ethers.formatUnits(balance, 6)} USDC`);
+        console.log(`  Strategy ${i + 1}:      ${assetMeta.display(balance)}`);
     }
     console.log("━".repeat(60));
 
@@ -159,10 +162,10 @@ async function main() {
     try {
         if (mode === "REDEEM SHARES" || mode === "WITHDRAW ALL") {
             console.log("Calling redeem()...");
-            tx = await vault.redeem(redeemShares, user.address, user.address);
+            tx = await vault.redeem(redeemShares, userAddress, userAddress);
         } else {
             console.log("Calling withdraw()...");
-            tx = await vault.withdraw(withdrawAssets, user.address, user.address);
+            tx = await vault.withdraw(withdrawAssets, userAddress, userAddress);
         }
         
         console.log("⏳ Waiting for transaction...");
@@ -194,15 +197,15 @@ async function main() {
     console.log("\n📊 Final State:");
     console.log("━".repeat(60));
     
-    const newShareBalance = await vault.balanceOf(user.address);
-    const newUsdcBalance = await asset.balanceOf(user.address);
+    const newShareBalance = await vault.balanceOf(userAddress);
+    const newUsdcBalance = await asset.balanceOf(userAddress);
     const newTotalAssets = await vault.totalAssets();
     const newTotalSupply = await vault.totalSupply();
     
-    console.log("Your Shares:      ", ethers.formatEther(newShareBalance));
-    console.log("Your USDC:        ", ethers.formatUnits(newUsdcBalance, 6), "USDC");
-    console.log("Vault Total Assets:", ethers.formatUnits(newTotalAssets, 6), "USDC");
-    console.log("Vault Total Supply:", ethers.formatEther(newTotalSupply));
+    console.log("Your Shares:      ", shareMeta.format(newShareBalance));
+    console.log("Your Balance:     ", assetMeta.display(newUsdcBalance));
+    console.log("Vault Total Assets:", assetMeta.display(newTotalAssets));
+    console.log("Vault Total Supply:", shareMeta.format(newTotalSupply));
     console.log("━".repeat(60));
 
     // ============================================
@@ -211,9 +214,9 @@ async function main() {
     
     console.log("\n📈 Changes:");
     console.log("━".repeat(60));
-    console.log("Shares Burned:    ", ethers.formatEther(shareBalance - newShareBalance));
-    console.log("USDC Received:    ", ethers.formatUnits(newUsdcBalance - usdcBalance, 6), "USDC");
-    console.log("Vault Assets ↓:   ", ethers.formatUnits(totalAssets - newTotalAssets, 6), "USDC");
+    console.log("Shares Burned:    ", shareMeta.format(shareBalance - newShareBalance));
+    console.log("Assets Received:  ", assetMeta.display(newUsdcBalance - usdcBalance));
+    console.log("Vault Assets ↓:   ", assetMeta.display(totalAssets - newTotalAssets));
     console.log("━".repeat(60));
 
     // ============================================
@@ -224,13 +227,13 @@ async function main() {
     console.log("━".repeat(60));
     
     const newVaultAssetBalance = await asset.balanceOf(VAULT_ADDRESS);
-    console.log("Vault idle balance:", ethers.formatUnits(newVaultAssetBalance, 6), "USDC");
+    console.log("Vault idle balance:", assetMeta.display(newVaultAssetBalance));
     
     for (let i = 0; i < strategies.length; i++) {
         const strat = strategies[i];
         const strategy = await ethers.getContractAt("IVaultStrategy", strat.strategy);
         const newBalance = await strategy.getTotalAssets();
-        console.log(`  Strategy ${i + 1}:      ${ethers.formatUnits(newBalance, 6)} USDC`);
+        console.log(`  Strategy ${i + 1}:      ${assetMeta.display(newBalance)}`);
     }
     console.log("━".repeat(60));
 
@@ -245,15 +248,7 @@ async function main() {
             ? (newTotalAssets * newShareBalance) / newTotalSupply
             : 0n;
         console.log("\n💰 Remaining Position:");
-        console.log("Your Shares:      ", ethers.formatEther(newShareBalance));
-        console.log("Share Value:      ", ethers.formatUnits(remainingValue, 6), "USDC");
+        console.log("Your Shares:      ", shareMeta.format(newShareBalance));
+        console.log("Share Value:      ", assetMeta.display(remainingValue));
     }
 }
-
-main()
-    .then(() => process.exit(0))
-    .catch((error) => {
-        console.error(error);
-        process.exit(1);
-    });
-
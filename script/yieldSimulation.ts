@@ -0,0 +1,238 @@
+import { ethers } from "hardhat";
+import { impersonateAccount, setBalance, stopImpersonatingAccount, time } from "@nomicfoundation/hardhat-network-helpers";
+import { ExtendedChildERC4626Vault, MockToken } from "../typechain";
+import { LOCAL_CHAIN_IDS } from "./signers";
+import { getVaultMetadata } from "./assetMetadata";
+
+/**
+ * Simulated yield for local vaults. Child vaults earn by having MockToken
+ * minted into them, which raises their share price and so the balance their
+ * ERC4626ChildStrategy reports; losses send assets out of the child vault.
+ * Time moves with hardhat time travel, so only the in-process network and a
+ * local `npx hardhat node` work.
+ *
+ * Usage:
+ * npx hardhat sim:scenario --scenario sudden-loss --vault 0x... --network localhost
+ */
+
+export const DAY = 24 * 60 * 60;
+export const SECONDS_PER_YEAR = 365 * DAY;
+
+/** APY in bps at `elapsed` seconds into the simulation */
+export type YieldCurve = (elapsed: number) => number;
+
+export function flatApy(apyBps: number): YieldCurve {
+  return () => apyBps;
+}
+
+/** `apyBps` from each step's `from` (seconds) until the next step's */
+export function steppedApy(steps: Array<{ from: number; apyBps: number }>): YieldCurve {
+  const sorted = [...steps].sort((a, b) => a.from - b.from);
+  return elapsed => sorted.filter(s => s.from <= elapsed).pop()?.apyBps ?? 0;
+}
+
+export type SimulationEventKind = "yield" | "loss" | "pause" | "unpause";
+
+export interface SimulationEvent {
+  kind: SimulationEventKind;
+  childVault: string;
+  /** Seconds into the simulation */
+  elapsed: number;
+  /** Assets minted or lost; 0 for pause and unpause */
+  amount: bigint;
+}
+
+/** Gain for `assets` over `seconds` at `apyBps`, compounded per call. */
+export function accruedYield(assets: bigint, apyBps: number, seconds: number): bigint {
+  return (assets * BigInt(apyBps) * BigInt(seconds)) / (10000n * BigInt(SECONDS_PER_YEAR));
+}
+
+/** Annualized return in bps between two share prices `seconds` apart, without compounding. */
+export function annualizedReturnBps(priceBefore: bigint, priceAfter: bigint, seconds: number): number {
+  if (priceBefore === 0n || seconds === 0) return 0;
+  return Number(((priceAfter - priceBefore) * 10000n * BigInt(SECONDS_PER_YEAR)) / (priceBefore * BigInt(seconds)));
+}
+
+export class YieldSimulator {
+  private token: MockToken;
+  private curves = new Map<string, { childVault: ExtendedChildERC4626Vault; curve: YieldCurve }>();
+  private elapsed = 0;
+  readonly events: SimulationEvent[] = [];
+
+  constructor(token: MockToken) {
+    this.token = token;
+  }
+
+  /** Seconds advanced so far */
+  get elapsedSeconds(): number {
+    return this.elapsed;
+  }
+
+  /** Makes `childVault` earn along `curve` from now on; replaces its previous curve. */
+  async setCurve(childVault: ExtendedChildERC4626Vault, curve: YieldCurve): Promise<void> {
+    this.curves.set(await childVault.getAddress(), { childVault, curve });
+  }
+
+  async clearCurve(childVault: ExtendedChildERC4626Vault): Promise<void> {
+    this.curves.delete(await childVault.getAddress());
+  }
+
+  /**
+   * Moves time forward by `seconds` in steps of `stepSeconds`, minting each
+   * child vault's yield for a step at the end of it. A paused child vault
+   * still earns.
+   */
+  async advance(seconds: number, stepSeconds: number = DAY): Promise<void> {
+    let remaining = seconds;
+    while (remaining > 0) {
+      const step = Math.min(stepSeconds, remaining);
+      await time.increase(step);
+      for (const [address, { childVault, curve }] of this.curves) {
+        const gain = accruedYield(await childVault.totalAssets(), curve(this.elapsed), step);
+        if (gain > 0n) {
+          await (await this.token.mint(address, gain)).wait();
+          this.events.push({ kind: "yield", childVault: address, elapsed: this.elapsed + step, amount: gain });
+        }
+      }
+      this.elapsed += step;
+      remaining -= step;
+    }
+  }
+
+  /** Loses `bps` of the child vault's assets, e.g. 2000 for a 20% drawdown. */
+  async loss(childVault: ExtendedChildERC4626Vault, bps: number): Promise<bigint> {
+    const amount = ((await childVault.totalAssets()) * BigInt(bps)) / 10000n;
+    await this.slash(childVault, amount);
+    return amount;
+  }
+
+  /** Takes `amount` of assets out of the child vault. */
+  async slash(childVault: ExtendedChildERC4626Vault, amount: bigint): Promise<void> {
+    const address = await childVault.getAddress();
+    await this.as(address, signer => this.token.connect(signer).transfer("0x000000000000000000000000000000000000dEaD", amount));
+    this.events.push({ kind: "loss", childVault: address, elapsed: this.elapsed, amount });
+  }
+
+  /** Pauses the child vault, so its strategy's deposits and withdrawals revert. */
+  async pause(childVault: ExtendedChildERC4626Vault): Promise<void> {
+    await this.as(await childVault.owner(), signer => childVault.connect(signer).pause());
+    this.events.push({ kind: "pause", childVault: await childVault.getAddress(), elapsed: this.elapsed, amount: 0n });
+  }
+
+  async unpause(childVault: ExtendedChildERC4626Vault): Promise<void> {
+    await this.as(await childVault.owner(), signer => childVault.connect(signer).unpause());
+    this.events.push({ kind: "unpause", childVault: await childVault.getAddress(), elapsed: this.elapsed, amount: 0n });
+  }
+
+  /** Sends a transaction from any account, funding it for gas if needed. */
+  private async as(address: string, send: (signer: Awaited<ReturnType<typeof ethers.getSigner>>) => Promise<{ wait(): Promise<unknown> }>) {
+    await impersonateAccount(address);
+    try {
+      if ((await ethers.provider.getBalance(address)) === 0n) {
+        await setBalance(address, ethers.parseEther("1"));
+      }
+      await (await send(await ethers.getSigner(address))).wait();
+    } finally {
+      await stopImpersonatingAccount(address);
+    }
+  }
+}
+
+// ============================================
+// Scenarios
+// ============================================
+
+export type ScenarioName = "steady-yield" | "sudden-loss" | "strategy-paused";
+
+export interface ScenarioOptions {
+  /** Length of the simulation; default 30 days */
+  days?: number;
+  /** APY every child vault earns; default 500 bps */
+  apyBps?: number;
+  /** Drawdown of the first child vault in sudden-loss; default 2000 bps */
+  lossBps?: number;
+}
+
+export interface ScenarioResult {
+  scenario: ScenarioName;
+  vault: string;
+  /** The child vaults behind the vault's strategies, in strategy order */
+  childVaults: string[];
+  elapsed: number;
+  sharePriceBefore: bigint;
+  sharePriceAfter: bigint;
+  events: SimulationEvent[];
+}
+
+/**
+ * - steady-yield: every child vault earns `apyBps` for `days`
+ * - sudden-loss: steady yield, with the first child vault losing `lossBps`
+ *   halfway through
+ * - strategy-paused: steady yield, with the first child vault paused from the
+ *   start, so rebalances that touch its strategy revert
+ */
+const SCENARIOS: Record<ScenarioName, (sim: YieldSimulator, childVaults: ExtendedChildERC4626Vault[], options: Required<ScenarioOptions>) => Promise<void>> = {
+  "steady-yield": async (sim, _childVaults, { days }) => {
+    await sim.advance(days * DAY);
+  },
+  "sudden-loss": async (sim, [first], { days, lossBps }) => {
+    const half = Math.floor(days / 2);
+    await sim.advance(half * DAY);
+    await sim.loss(first, lossBps);
+    await sim.advance((days - half) * DAY);
+  },
+  "strategy-paused": async (sim, [first], { days }) => {
+    await sim.pause(first);
+    await sim.advance(days * DAY);
+  },
+};
+
+/** The child vault behind each of the vault's strategies that is an ERC4626ChildStrategy. */
+export async function childVaultsOf(vaultAddress: string): Promise<ExtendedChildERC4626Vault[]> {
+  const vault = await ethers.getContractAt("RaylsVault", vaultAddress);
+  const childVaults: ExtendedChildERC4626Vault[] = [];
+  for (const { strategy } of await vault.getStrategies()) {
+    try {
+      const childVault = await (await ethers.getContractAt("ERC4626ChildStrategy", strategy)).CHILD_VAULT();
+      childVaults.push(await ethers.getContractAt("ExtendedChildERC4626Vault", childVault));
+    } catch {
+      // Not a child vault strategy; nothing to simulate.
+    }
+  }
+  return childVaults;
+}
+
+export async function runScenario(scenario: ScenarioName, vaultAddress: string, options: ScenarioOptions = {}): Promise<ScenarioResult> {
+  const { chainId } = await ethers.provider.getNetwork();
+  if (!LOCAL_CHAIN_IDS.includes(chainId)) {
+    throw new Error(`Yield simulation needs a local chain with time travel, not chain ${chainId}`);
+  }
+
+  const settings = { days: 30, apyBps: 500, lossBps: 2000, ...options };
+  const vault = await ethers.getContractAt("RaylsVault", vaultAddress);
+  const metadata = await getVaultMetadata(vaultAddress);
+  const oneShare = 10n ** BigInt(metadata.shares.decimals);
+  const childVaults = await childVaultsOf(vaultAddress);
+  if (childVaults.length === 0) {
+    throw new Error(`Vault ${vaultAddress} has no ERC4626ChildStrategy strategies to simulate yield on`);
+  }
+
+  const sim = new YieldSimulator(await ethers.getContractAt("MockToken", metadata.asset.address));
+  for (const childVault of childVaults) {
+    await sim.setCurve(childVault, flatApy(settings.apyBps));
+  }
+
+  const sharePriceBefore = await vault.convertToAssets(oneShare);
+  await SCENARIOS[scenario](sim, childVaults, settings);
+  const sharePriceAfter = await vault.convertToAssets(oneShare);
+
+  return {
+    scenario,
+    vault: vaultAddress,
+    childVaults: await Promise.all(childVaults.map(c => c.getAddress())),
+    elapsed: sim.elapsedSeconds,
+    sharePriceBefore,
+    sharePriceAfter,
+    events: sim.events,
+  };
+}
@@ -0,0 +1,26 @@
+// SPDX-License-Identifier: GPL-3.0
+pragma solidity 0.8.28;
+
+import { IVaultStrategy } from "../interfaces/IVaultStrategy.sol";
+
+/**
+ * @title HarvestLens
+ * @notice Measures what a strategy's harvest() would add to its total assets.
+ * @dev Never deployed: off-chain tooling eth_calls the creation code, so the
+ *      constructor runs harvest() in a throwaway context and returns
+ *      abi.encode(totalAssetsBefore, totalAssetsAfter) as the call result.
+ *      harvest() sees this lens as msg.sender, so strategies that restrict who
+ *      may harvest make the simulation revert.
+ */
+contract HarvestLens {
+    constructor(IVaultStrategy strategy) {
+        uint256 totalAssetsBefore = strategy.getTotalAssets();
+        strategy.harvest();
+        uint256 totalAssetsAfter = strategy.getTotalAssets();
+
+        bytes memory result = abi.encode(totalAssetsBefore, totalAssetsAfter);
+        assembly {
+            return(add(result, 32), mload(result))
+        }
+    }
+}
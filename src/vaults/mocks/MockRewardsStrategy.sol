@@ -0,0 +1,75 @@
+// SPDX-License-Identifier: GPL-3.0
+pragma solidity 0.8.28;
+
+import { IVaultStrategy } from "../../interfaces/IVaultStrategy.sol";
+import { IERC20 } from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import { SafeERC20 } from "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import { MockToken } from "./MockToken.sol";
+
+/**
+ * @title MockRewardsStrategy
+ * @notice Strategy that holds WANT directly and accrues rewards that only
+ *         count towards its assets once harvested. Losses can be simulated
+ *         with slash().
+ */
+contract MockRewardsStrategy is IVaultStrategy {
+    using SafeERC20 for IERC20;
+
+    MockToken public immutable WANT;
+    address private _vault;
+    uint256 public pendingRewards;
+
+    error NotVault();
+
+    constructor(address want_) {
+        require(want_ != address(0), "Zero address");
+        WANT = MockToken(want_);
+    }
+
+    /// @notice Rewards the next harvest() mints into the strategy.
+    function setPendingRewards(uint256 amount) external {
+        pendingRewards = amount;
+    }
+
+    function want() external view override returns (IERC20) {
+        return IERC20(address(WANT));
+    }
+
+    function getVault() external view override returns (address) {
+        return _vault;
+    }
+
+    function setVault(address vault_) external override {
+        require(_vault == address(0), "Vault already set");
+        require(vault_ != address(0), "Invalid vault");
+        _vault = vault_;
+    }
+
+    function getTotalAssets() external view override returns (uint256) {
+        return WANT.balanceOf(address(this));
+    }
+
+    /// @notice Assets stay in this contract, so there is nothing to do.
+    function deposit() external override {}
+
+    function withdraw(uint256 amount) external override {
+        if (msg.sender != _vault) revert NotVault();
+        IERC20(address(WANT)).safeTransfer(_vault, amount);
+    }
+
+    function withdrawAll() external override {
+        if (msg.sender != _vault) revert NotVault();
+        IERC20(address(WANT)).safeTransfer(_vault, WANT.balanceOf(address(this)));
+    }
+
+    /// @notice Simulates a loss by sending `amount` of the strategy's assets away.
+    function slash(uint256 amount) external {
+        IERC20(address(WANT)).safeTransfer(address(0xdead), amount);
+    }
+
+    function harvest() external override {
+        uint256 rewards = pendingRewards;
+        pendingRewards = 0;
+        if (rewards > 0) WANT.mint(address(this), rewards);
+    }
+}
@@ -0,0 +1,37 @@
+import { task, types } from "hardhat/config";
+import * as params from "./params";
+
+/**
+ * Deployment tasks. Scripts are imported inside the actions since they import
+ * "hardhat", which cannot be loaded while the config is.
+ */
+
+task("deploy:system", "Deploys the registry, StrategyManager and a vault from a deployment manifest")
+  .addOptionalParam("manifest", "Manifest file (default deploy/<network>.yaml)", undefined, types.inputFile)
+  .addFlag("fresh", "Ignore the checkpoint, even of a finished deployment, and deploy from scratch")
+  .setAction(async (args: { manifest?: string; fresh: boolean }) => {
+    const { deployAllContracts } = await import("../script/deployAllContracts");
+    await deployAllContracts(args);
+  });
+
+task("deploy:strategy", "Deploys a strategy for an asset")
+  .addOptionalParam("asset", "Asset token (default: ASSET_ADDRESS, or the address book vault's asset)", undefined, params.address)
+  .addOptionalParam("type", "Strategy type", "erc4626", params.oneOf(["erc4626", "simple"] as const))
+  .addFlag("extraVault", "Also deploy a standalone child vault for future strategies")
+  .setAction(async (args: { asset?: string; type: "erc4626" | "simple"; extraVault: boolean }) => {
+    const { resolveAssetAddress } = await import("../script/addressBook");
+    const { deployStrategy } = await import("../script/deployStrategy");
+    const asset = args.asset ?? await resolveAssetAddress();
+    if (!asset) {
+      throw params.usageError("Pass --asset, or set VAULT to a vault name from the address book");
+    }
+    await deployStrategy({ ...args, asset });
+  });
+
+task("frontend:config", "Writes a vault's addresses from the address book into the frontend's .env.local")
+  .addOptionalParam("vault", "Address book name of the vault", undefined, types.string)
+  .addOptionalParam("out", "File to write (default frontend/.env.local)", undefined, types.string)
+  .setAction(async (args: { vault?: string; out?: string }) => {
+    const { generateFrontendConfig } = await import("../script/generateFrontendConfig");
+    await generateFrontendConfig(args);
+  });
@@ -0,0 +1,2 @@
+import "./deploy";
+import "./vault";
@@ -0,0 +1,79 @@
+import { isAddress } from "ethers";
+import { HardhatPluginError } from "hardhat/plugins";
+import { CLIArgumentType } from "hardhat/types";
+
+/**
+ * Task parameter types. Hardhat validates every argument against its type
+ * before the task's action runs, so a bad address or amount fails up front.
+ */
+
+const PLUGIN_NAME = "vault-tasks";
+
+/** The flag as typed on the command line: hardhat hands us camelCase names */
+function flag(argName: string): string {
+  return `--${argName.replace(/[A-Z]/g, c => `-${c.toLowerCase()}`)}`;
+}
+
+export function invalidArgument(argName: string, value: unknown, expected: string): HardhatPluginError {
+  return new HardhatPluginError(PLUGIN_NAME, `Invalid value ${JSON.stringify(value)} for ${flag(argName)}: expected ${expected}`);
+}
+
+/** Errors in how a task was invoked, printed without a stack trace */
+export function usageError(message: string): HardhatPluginError {
+  return new HardhatPluginError(PLUGIN_NAME, message);
+}
+
+export const address: CLIArgumentType<string> = {
+  name: "address",
+  parse: (_argName, value) => value,
+  validate(argName, value) {
+    if (typeof value !== "string" || !isAddress(value)) {
+      throw invalidArgument(argName, value, "an address");
+    }
+  },
+};
+
+export const addressList: CLIArgumentType<string[]> = {
+  name: "address list",
+  parse: (_argName, value) => value.split(",").map(s => s.trim()).filter(s => s.length > 0),
+  validate(argName, value) {
+    if (!Array.isArray(value) || value.length === 0 || !value.every(v => typeof v === "string" && isAddress(v))) {
+      throw invalidArgument(argName, value, "a comma-separated list of addresses");
+    }
+  },
+};
+
+/** A positive decimal amount in whole tokens ("100", "0.5"); scaled by the token's decimals later */
+export const amount: CLIArgumentType<string> = {
+  name: "amount",
+  parse: (_argName, value) => value,
+  validate(argName, value) {
+    if (typeof value !== "string" || !/^\d+(\.\d+)?$/.test(value) || !/[1-9]/.test(value)) {
+      throw invalidArgument(argName, value, "a positive decimal amount such as 100 or 0.5");
+    }
+  },
+};
+
+/** A vault address, or its name in the address book (e.g. nyUSDC) */
+export const vault: CLIArgumentType<string> = {
+  name: "vault",
+  parse: (_argName, value) => value,
+  validate(argName, value) {
+    const looksLikeAddress = typeof value === "string" && value.startsWith("0x");
+    if (typeof value !== "string" || value.length === 0 || (looksLikeAddress && !isAddress(value))) {
+      throw invalidArgument(argName, value, "a vault address or address book name");
+    }
+  },
+};
+
+export function oneOf<T extends string>(choices: readonly T[]): CLIArgumentType<T> {
+  return {
+    name: choices.join("|"),
+    parse: (_argName, value) => value as T,
+    validate(argName, value) {
+      if (!choices.includes(value)) {
+        throw invalidArgument(argName, value, `one of ${choices.join(", ")}`);
+      }
+    },
+  };
+}
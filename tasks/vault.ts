@@ -0,0 +1,181 @@
+import { task, types } from "hardhat/config";
+import * as params from "./params";
+
+/**
+ * Vault operations. `--vault` takes an address or an address book name; when
+ * omitted it falls back to VAULT_ADDRESS / VAULT, or the chain's only vault.
+ *
+ * Scripts are imported inside the actions since they import "hardhat", which
+ * cannot be loaded while the config is.
+ */
+
+/** The vault to act on; a vault the address book does not know is a usage error. */
+async function vaultAddress(vault: string | undefined): Promise<string> {
+  const { lookupVault } = await import("../script/addressBook");
+  try {
+    return await lookupVault(vault);
+  } catch (error: any) {
+    throw params.usageError(error.message);
+  }
+}
+
+task("vault:deposit", "Deposits assets into a vault")
+  .addParam("amount", "Amount of the vault's asset, in whole tokens", undefined, params.amount)
+  .addOptionalParam("vault", "Vault address or address book name", undefined, params.vault)
+  .setAction(async (args: { amount: string; vault?: string }) => {
+    const { depositToVault } = await import("../script/depositToVault");
+    await depositToVault({ vault: await vaultAddress(args.vault), amount: args.amount });
+  });
+
+task("vault:withdraw", "Withdraws assets from a vault (one of --amount, --shares, --all)")
+  .addOptionalParam("amount", "Amount of the vault's asset to withdraw, in whole tokens", undefined, params.amount)
+  .addOptionalParam("shares", "Number of shares to redeem", undefined, params.amount)
+  .addFlag("all", "Redeem every share")
+  .addOptionalParam("vault", "Vault address or address book name", undefined, params.vault)
+  .setAction(async (args: { amount?: string; shares?: string; all: boolean; vault?: string }) => {
+    const chosen = [args.amount !== undefined, args.shares !== undefined, args.all].filter(Boolean).length;
+    if (chosen !== 1) {
+      throw params.usageError("Pass exactly one of --amount, --shares and --all");
+    }
+    const { withdrawFromVault } = await import("../script/withdrawFromVault");
+    await withdrawFromVault({ ...args, vault: await vaultAddress(args.vault) });
+  });
+
+task("vault:rebalance", "Moves a vault's assets to its strategies' target weights")
+  .addOptionalParam("vault", "Vault address or address book name", undefined, params.vault)
+  .setAction(async (args: { vault?: string }) => {
+    const { rebalanceVault } = await import("../script/rebalanceVault");
+    await rebalanceVault(await vaultAddress(args.vault));
+  });
+
+task("vault:link-strategies", "Links strategies to a vault, registers them in its StrategyManager (if they have TOKEN_ADDRESS()) and adds them with a weight")
+  .addParam("strategies", "Comma-separated strategy addresses", undefined, params.addressList)
+  .addOptionalParam("weight", "Target weight in bps for strategies the vault does not have yet", undefined, types.int)
+  .addOptionalParam("vault", "Vault address or address book name", undefined, params.vault)
+  .setAction(async (args: { strategies: string[]; weight?: number; vault?: string }) => {
+    if (args.weight !== undefined && (args.weight <= 0 || args.weight > 10000)) {
+      throw params.usageError(`--weight must be between 1 and 10000 bps (got ${args.weight})`);
+    }
+    const { linkStrategies } = await import("../script/linkStrategies");
+    await linkStrategies(await vaultAddress(args.vault), args.strategies, { weight: args.weight });
+  });
+
+task("vault:strategies", "Shows a vault's strategy balances against their targets")
+  .addOptionalParam("vault", "Vault address or address book name", undefined, params.vault)
+  .setAction(async (args: { vault?: string }) => {
+    const { checkStrategyBalances } = await import("../script/checkStrategyBalances");
+    await checkStrategyBalances(await vaultAddress(args.vault));
+  });
+
+task("vault:update-weights", "Sets a vault's strategies and target weights, adding and removing strategies as needed")
+  .addOptionalParam("file", "YAML/JSON file listing { address, weight } (a deployment manifest works)", undefined, types.inputFile)
+  .addOptionalParam("weights", "Inline weights in bps: 0xA...=6000,0xB...=4000", undefined, types.string)
+  .addOptionalParam("vault", "Vault address or address book name", undefined, params.vault)
+  .addFlag("yes", "Apply without asking for confirmation")
+  .addFlag("dryRun", "Show the changes without sending them")
+  .setAction(async (args: { file?: string; weights?: string; vault?: string; yes: boolean; dryRun: boolean }) => {
+    if ((args.file === undefined) === (args.weights === undefined)) {
+      throw params.usageError("Pass exactly one of --file and --weights");
+    }
+    const { loadWeights, parseWeights } = await import("../script/strategyWeights");
+    let weights;
+    try {
+      weights = args.file ? loadWeights(args.file) : parseWeights(args.weights!);
+    } catch (error: any) {
+      throw params.usageError(error.message);
+    }
+    const { updateWeights } = await import("../script/updateWeights");
+    await updateWeights({ vault: await vaultAddress(args.vault), weights, yes: args.yes, dryRun: args.dryRun });
+  });
+
+task("vault:diagnose", "Checks a vault's registry, strategies, StrategyManager, bot and pause state")
+  .addOptionalParam("vault", "Vault address or address book name", undefined, params.vault)
+  .addOptionalParam("owner", "Expected registry owner", undefined, params.address)
+  .addOptionalParam("bot", "Expected allocation bot", undefined, params.address)
+  .addFlag("json", "Print the report as JSON")
+  .setAction(async (args: { vault?: string; owner?: string; bot?: string; json: boolean }) => {
+    const { diagnoseVault, printReport } = await import("../script/diagnoseVault");
+    const report = await diagnoseVault(await vaultAddress(args.vault), { owner: args.owner, bot: args.bot });
+    if (args.json) {
+      console.log(JSON.stringify(report, null, 2));
+    } else {
+      printReport(report);
+    }
+    if (!report.ok) {
+      process.exitCode = 1;
+    }
+    return report;
+  });
+
+task("sim:scenario", "Simulates yield on a local vault's child vaults: steady yield, a sudden loss or a paused strategy")
+  .addParam("scenario", "steady-yield, sudden-loss or strategy-paused", undefined, params.oneOf(["steady-yield", "sudden-loss", "strategy-paused"] as const))
+  .addOptionalParam("vault", "Vault address or address book name", undefined, params.vault)
+  .addOptionalParam("days", "Days to simulate", 30, types.int)
+  .addOptionalParam("apy", "APY every child vault earns, in bps", 500, types.int)
+  .addOptionalParam("loss", "Drawdown in sudden-loss, in bps", 2000, types.int)
+  .setAction(async (args: { scenario: "steady-yield" | "sudden-loss" | "strategy-paused"; vault?: string; days: number; apy: number; loss: number }) => {
+    if (args.days <= 0) {
+      throw params.usageError(`--days must be positive (got ${args.days})`);
+    }
+    if (args.loss < 0 || args.loss > 10000) {
+      throw params.usageError(`--loss must be between 0 and 10000 bps (got ${args.loss})`);
+    }
+    const { getVaultMetadata } = await import("../script/assetMetadata");
+    const { annualizedReturnBps, runScenario } = await import("../script/yieldSimulation");
+    const vault = await vaultAddress(args.vault);
+
+    const result = await runScenario(args.scenario, vault, { days: args.days, apyBps: args.apy, lossBps: args.loss });
+    const { asset } = await getVaultMetadata(vault);
+    console.log(`🧪 ${result.scenario}: ${result.elapsed / 86400} days on ${result.childVaults.length} child vault(s)`);
+    for (const event of result.events.filter(e => e.kind !== "yield")) {
+      console.log(`   day ${(event.elapsed / 86400).toFixed(1)}: ${event.kind} ${event.childVault}${event.amount > 0n ? ` ${asset.display(event.amount)}` : ""}`);
+    }
+    console.log(`   Share price: ${asset.display(result.sharePriceBefore)} → ${asset.display(result.sharePriceAfter)}`);
+    console.log(`   Annualized:  ${(annualizedReturnBps(result.sharePriceBefore, result.sharePriceAfter, result.elapsed) / 100).toFixed(2)}%`);
+    return result;
+  });
+
+task("vault:position", "Reports per-user cost basis and realized/unrealized P&L from a vault's deposit and withdraw history")
+  .addOptionalParam("vault", "Vault address or address book name", undefined, params.vault)
+  .addFlag("all", "Every vault in the address book for this chain")
+  .addOptionalParam("user", "Only this user's position", undefined, params.address)
+  .addOptionalParam("fromBlock", "First block to read events from (e.g. the vault's deployment block)", 0, types.int)
+  .addOptionalParam("block", "Block to value positions at (default latest)", undefined, types.int)
+  .addOptionalParam("format", "table, csv or json", "table", params.oneOf(["table", "csv", "json"] as const))
+  .addOptionalParam("out", "File to write csv or json to (default stdout)", undefined, types.string)
+  .setAction(async (args: { vault?: string; all: boolean; user?: string; fromBlock: number; block?: number; format: "table" | "csv" | "json"; out?: string }) => {
+    if (args.all && args.vault !== undefined) {
+      throw params.usageError("Pass --vault or --all, not both");
+    }
+    if (args.out !== undefined && args.format === "table") {
+      throw params.usageError("--out needs --format csv or json");
+    }
+    const { AddressBook, currentChainId } = await import("../script/addressBook");
+    const { positionsToCsv, positionsToJson, printPositions, readPositions } = await import("../script/vaultPositions");
+
+    let vaults: Array<{ address: string; name?: string }>;
+    if (args.all) {
+      vaults = new AddressBook().listVaults(await currentChainId());
+      if (vaults.length === 0) {
+        throw params.usageError(`No vaults for chain ${await currentChainId()} in the address book`);
+      }
+    } else {
+      const name = args.vault !== undefined && !args.vault.startsWith("0x") ? args.vault : undefined;
+      vaults = [{ address: await vaultAddress(args.vault), name }];
+    }
+
+    const report = await readPositions(vaults, { fromBlock: args.fromBlock, block: args.block, user: args.user });
+    if (args.format === "table") {
+      printPositions(report);
+      return report;
+    }
+    const text = args.format === "csv" ? positionsToCsv(report) : positionsToJson(report);
+    if (args.out) {
+      const fs = await import("fs");
+      fs.writeFileSync(args.out, text);
+      console.log(`💾 Positions written to ${args.out}`);
+    } else {
+      process.stdout.write(text);
+    }
+    return report;
+  });
@@ -0,0 +1,105 @@
+import { expect } from "chai";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { AddressBook, resolveAssetAddress, resolveVaultAddress, validateAddressBook } from "../script/addressBook";
+import { resolveVaults } from "../script/botConfig";
+import { mergeEnv } from "../script/generateFrontendConfig";
+
+const HARDHAT_CHAIN_ID = 31337;
+const ASSET = "0x00000000000000000000000000000000000000a0";
+const VAULT_A = "0x00000000000000000000000000000000000000b1";
+const VAULT_B = "0x00000000000000000000000000000000000000b2";
+const STRATEGY = "0x00000000000000000000000000000000000000c1";
+
+describe("AddressBook", function () {
+  let dir: string;
+  let book: AddressBook;
+
+  beforeEach(function () {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "address-book-test-"));
+    book = new AddressBook(path.join(dir, "address-book.json"));
+  });
+
+  afterEach(function () {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  function addVault(name: string, address: string) {
+    book.update(HARDHAT_CHAIN_ID, "hardhat", chain => {
+      chain.vaults[name] = { address, asset: ASSET, strategies: [STRATEGY] };
+    });
+  }
+
+  it("stores vaults per chain and looks them up by name", function () {
+    addVault("nyUSDC", VAULT_A);
+    book.update(HARDHAT_CHAIN_ID, "hardhat", chain => { chain.registry = VAULT_B; });
+
+    expect(book.getVault(HARDHAT_CHAIN_ID, "nyUSDC")).to.deep.equal({ address: VAULT_A, asset: ASSET, strategies: [STRATEGY] });
+    expect(book.getRegistry(HARDHAT_CHAIN_ID)).to.equal(VAULT_B);
+    expect(book.getChain(HARDHAT_CHAIN_ID)!.name).to.equal("hardhat");
+    expect(book.findVault(123123, "nyUSDC")).to.equal(undefined);
+    expect(fs.readdirSync(dir)).to.deep.equal(["address-book.json"]);
+  });
+
+  it("names the known vaults when one is missing", function () {
+    addVault("nyUSDC", VAULT_A);
+
+    expect(() => book.getVault(HARDHAT_CHAIN_ID, "nyDAI")).to.throw(/No vault "nyDAI" on chain 31337 .*\(known: nyUSDC\)/);
+    expect(() => book.getStrategyManager(HARDHAT_CHAIN_ID)).to.throw(/No strategyManager for chain 31337/);
+  });
+
+  it("refuses to write an invalid book", function () {
+    expect(() => book.update(HARDHAT_CHAIN_ID, "hardhat", chain => {
+      chain.vaults.nyUSDC = { address: "0x1234", asset: ASSET, strategies: [] };
+    })).to.throw(/chains\.31337\.vaults\.nyUSDC\.address must be an address/);
+    expect(fs.existsSync(book.file)).to.equal(false);
+  });
+
+  it("lists every problem with an invalid file", function () {
+    const raw = { version: 2, chains: { rayls: { vaults: { x: { address: VAULT_A, asset: ASSET } } } } };
+
+    expect(() => validateAddressBook(raw, "book.json")).to.throw(Error)
+      .with.property("message")
+      .that.includes("version must be 1")
+      .and.includes("chains.rayls: chain ids must be decimal numbers")
+      .and.includes("chains.rayls.name is required")
+      .and.includes("chains.rayls.vaults.x.strategies must be a list");
+  });
+
+  it("resolves a script's vault from env or the book", async function () {
+    expect(await resolveVaultAddress({}, book)).to.equal(undefined);
+
+    addVault("nyUSDC", VAULT_A);
+    expect(await resolveVaultAddress({}, book)).to.equal(VAULT_A);
+    expect(await resolveAssetAddress({}, book)).to.equal(ASSET);
+
+    addVault("nyDAI", VAULT_B);
+    expect(await resolveVaultAddress({}, book)).to.equal(undefined);
+    expect(await resolveVaultAddress({ VAULT: "nyDAI" }, book)).to.equal(VAULT_B);
+    expect(await resolveVaultAddress({ VAULT: "nyDAI", VAULT_ADDRESS: VAULT_A }, book)).to.equal(VAULT_A);
+  });
+
+  it("gives the bot vaults by name, or every vault on the chain", async function () {
+    addVault("nyUSDC", VAULT_A);
+    addVault("nyDAI", VAULT_B);
+    const defaults = { thresholdBps: 500, syncToleranceBps: 50, intervalMinutes: 60 };
+
+    const named = await resolveVaults({ defaults, vaults: [{ name: "nyDAI" }] }, book);
+    expect(named.map(v => v.address)).to.deep.equal([VAULT_B]);
+
+    const all = await resolveVaults({ defaults, vaults: [] }, book);
+    expect(all.map(v => [v.name, v.address])).to.deep.equal([["nyUSDC", VAULT_A], ["nyDAI", VAULT_B]]);
+  });
+});
+
+describe("mergeEnv", function () {
+  it("replaces keys in place and appends new ones", function () {
+    const text = "# Network\nNEXT_PUBLIC_VAULT_ADDRESS=\nNEXT_PUBLIC_OPENAI_API_KEY=sk-1\n";
+
+    expect(mergeEnv(text, { NEXT_PUBLIC_VAULT_ADDRESS: VAULT_A, NEXT_PUBLIC_CHAIN_ID: "0x7a69" })).to.equal(
+      `# Network\nNEXT_PUBLIC_VAULT_ADDRESS=${VAULT_A}\nNEXT_PUBLIC_OPENAI_API_KEY=sk-1\nNEXT_PUBLIC_CHAIN_ID=0x7a69\n`
+    );
+    expect(mergeEnv("", { A: "1" })).to.equal("A=1\n");
+  });
+});
@@ -0,0 +1,202 @@
+import { expect } from "chai";
+import * as fs from "fs";
+import * as http from "http";
+import { AddressInfo } from "net";
+import * as os from "os";
+import * as path from "path";
+import { Alert, AlertManager, AlertSeverity, AlertSink, FileSink, WebhookSink } from "../script/alerts";
+
+class RecordingSink implements AlertSink {
+  name = "recording";
+  alerts: Alert[] = [];
+
+  constructor(public minSeverity: AlertSeverity = "info") {}
+
+  async send(alert: Alert): Promise<void> {
+    this.alerts.push(alert);
+  }
+}
+
+const alert = (overrides: Partial<Alert> = {}): Alert => ({
+  severity: "warning",
+  subject: "Rebalance failed",
+  message: "execution reverted",
+  key: "0xvault",
+  timestamp: "2026-10-01T00:00:00.000Z",
+  ...overrides,
+});
+
+describe("WebhookSink", function () {
+  let server: http.Server;
+  let url: string;
+  let requests: { method?: string; contentType?: string; body: any }[];
+  let respond: (res: http.ServerResponse) => void;
+
+  beforeEach(async function () {
+    requests = [];
+    respond = res => res.end("ok");
+    server = http.createServer((req, res) => {
+      let body = "";
+      req.on("data", chunk => (body += chunk));
+      req.on("end", () => {
+        requests.push({ method: req.method, contentType: req.headers["content-type"], body: JSON.parse(body) });
+        respond(res);
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/hook`;
+  });
+
+  afterEach(async function () {
+    server.closeAllConnections();
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it("posts the alert as JSON in the configured format", async function () {
+    await new WebhookSink(url, "json").send(alert({ suppressedCount: 2 }));
+    await new WebhookSink(url, "slack").send(alert());
+    await new WebhookSink(url, "discord").send(alert());
+
+    const text = "[WARNING] Rebalance failed: execution reverted";
+    expect(requests.map(r => [r.method, r.contentType])).to.deep.equal([
+      ["POST", "application/json"],
+      ["POST", "application/json"],
+      ["POST", "application/json"],
+    ]);
+    expect(requests[0].body).to.deep.equal({
+      ...alert({ suppressedCount: 2 }),
+      text: `${text} (2 similar alert(s) suppressed)`,
+      content: `${text} (2 similar alert(s) suppressed)`,
+    });
+    expect(requests[1].body).to.deep.equal({ text });
+    expect(requests[2].body).to.deep.equal({ content: text });
+  });
+
+  it("fails on a non-2xx response", async function () {
+    respond = res => {
+      res.statusCode = 500;
+      res.statusMessage = "Internal Server Error";
+      res.end();
+    };
+
+    await expect(new WebhookSink(url).send(alert())).to.be.rejectedWith("Webhook responded with 500 Internal Server Error");
+  });
+
+  it("gives up on a webhook that does not answer in time", async function () {
+    respond = () => undefined;
+    const started = Date.now();
+
+    await expect(new WebhookSink(url, "json", "info", 100).send(alert())).to.be.rejectedWith(/timeout/i);
+    expect(Date.now() - started).to.be.below(5000);
+  });
+
+  it("does not let a failing webhook stop the other sinks", async function () {
+    respond = res => {
+      res.statusCode = 404;
+      res.end();
+    };
+    const recording = new RecordingSink();
+    const alerts = new AlertManager([new WebhookSink(url), recording]);
+
+    await alerts.alert("critical", "Vault paused", "by watchdog", "0xvault");
+
+    expect(requests).to.have.length(1);
+    expect(recording.alerts.map(a => a.subject)).to.deep.equal(["Vault paused"]);
+  });
+});
+
+describe("FileSink", function () {
+  let dir: string;
+
+  beforeEach(function () {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "alerts-test-"));
+  });
+
+  afterEach(function () {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("appends one JSON line per alert, creating the directory", async function () {
+    const file = path.join(dir, "nested", "alerts.jsonl");
+    const sink = new FileSink(file);
+
+    await sink.send(alert());
+    await sink.send(alert({ severity: "critical", subject: "Vault paused" }));
+
+    const lines = fs.readFileSync(file, "utf-8").trim().split("\n").map(line => JSON.parse(line));
+    expect(lines).to.deep.equal([alert(), alert({ severity: "critical", subject: "Vault paused" })]);
+  });
+});
+
+describe("AlertManager", function () {
+  let sink: RecordingSink;
+
+  beforeEach(function () {
+    sink = new RecordingSink();
+  });
+
+  it("suppresses repeats of the same subject and key inside the dedup window", async function () {
+    const alerts = new AlertManager([sink], 30);
+
+    await alerts.alert("warning", "Rebalance failed", "first", "0xvault");
+    await alerts.alert("warning", "Rebalance failed", "second", "0xvault");
+    await alerts.alert("warning", "Rebalance failed", "other vault", "0xother");
+    await alerts.alert("warning", "Low gas", "same vault, other subject", "0xvault");
+
+    expect(sink.alerts.map(a => a.message)).to.deep.equal(["first", "other vault", "same vault, other subject"]);
+  });
+
+  it("reports how many alerts were suppressed once the window has passed", async function () {
+    // 60 ms
+    const alerts = new AlertManager([sink], 0.001);
+
+    await alerts.alert("warning", "Rebalance failed", "first", "0xvault");
+    await alerts.alert("warning", "Rebalance failed", "second", "0xvault");
+    await alerts.alert("warning", "Rebalance failed", "third", "0xvault");
+    await new Promise(resolve => setTimeout(resolve, 100));
+    await alerts.alert("warning", "Rebalance failed", "fourth", "0xvault");
+
+    expect(sink.alerts.map(a => [a.message, a.suppressedCount])).to.deep.equal([
+      ["first", undefined],
+      ["fourth", 2],
+    ]);
+  });
+
+  it("sends a recovery notice once, and alerts again straight away after one", async function () {
+    const alerts = new AlertManager([sink], 30);
+
+    await alerts.alert("warning", "Rebalance failed", "execution reverted", "0xvault");
+    expect(alerts.isFailing("0xvault")).to.equal(true);
+    await alerts.resolve("0xvault");
+    await alerts.resolve("0xvault");
+    expect(alerts.isFailing("0xvault")).to.equal(false);
+    await alerts.alert("warning", "Rebalance failed", "again", "0xvault");
+
+    expect(sink.alerts.map(a => [a.severity, a.subject])).to.deep.equal([
+      ["warning", "Rebalance failed"],
+      ["info", "Recovered: Rebalance failed"],
+      ["warning", "Rebalance failed"],
+    ]);
+    expect(sink.alerts[1].message).to.match(/^Operating normally again \(failing since .+\)$/);
+  });
+
+  it("does not track info alerts for recovery", async function () {
+    const alerts = new AlertManager([sink], 30);
+
+    await alerts.alert("info", "Rebalanced", "done", "0xvault");
+    await alerts.resolve("0xvault");
+
+    expect(sink.alerts.map(a => a.subject)).to.deep.equal(["Rebalanced"]);
+  });
+
+  it("only sends to sinks at or below the alert's severity", async function () {
+    const critical = new RecordingSink("critical");
+    const alerts = new AlertManager([sink, critical], 30);
+
+    await alerts.alert("warning", "Low gas", "0.01 ETH left", "0xbot");
+    await alerts.alert("critical", "Vault paused", "by watchdog", "0xvault");
+
+    expect(sink.alerts.map(a => a.subject)).to.deep.equal(["Low gas", "Vault paused"]);
+    expect(critical.alerts.map(a => a.subject)).to.deep.equal(["Vault paused"]);
+  });
+});
@@ -0,0 +1,48 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { ContractRunner } from "ethers";
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+import { getTokenMetadata, getVaultMetadata, TokenMetadata } from "../script/assetMetadata";
+import { deployVaultFixture } from "./fixtures";
+
+describe("TokenMetadata", function () {
+  it("formats and parses in the token's decimals", function () {
+    const usdc = new TokenMetadata("0x0000000000000000000000000000000000000001", "USDC", 6);
+
+    expect(usdc.format(1500000n)).to.equal("1.5");
+    expect(usdc.parse("2.25")).to.equal(2250000n);
+    expect(usdc.display(1000000n)).to.equal("1.0 USDC");
+  });
+});
+
+describe("getVaultMetadata", function () {
+  it("reads an 18-decimal asset and the vault's share token", async function () {
+    const { vaultAddress, token } = await loadFixture(deployVaultFixture);
+
+    const { asset, shares } = await getVaultMetadata(vaultAddress);
+
+    expect(asset).to.deep.include({ address: await token.getAddress(), symbol: "mUSD", decimals: 18 });
+    expect(shares).to.deep.include({ address: vaultAddress, decimals: 18 });
+    expect(asset.parse("1000")).to.equal(10n ** 21n);
+    expect(asset.display(ethers.parseUnits("1.5", 18))).to.equal("1.5 mUSD");
+  });
+
+  it("reads through the runner it is given", async function () {
+    // A deployer no other test uses, so the token's address is not in the cache yet.
+    const deployer = (await ethers.getSigners())[7];
+    const token = await ethers.deployContract("MockToken", ["Runner Token", "RUN"], deployer);
+    let calls = 0;
+    const runner: ContractRunner = {
+      provider: ethers.provider,
+      call: tx => {
+        calls++;
+        return ethers.provider.call(tx);
+      },
+    };
+
+    const metadata = await getTokenMetadata(await token.getAddress(), runner);
+
+    expect(metadata).to.deep.include({ symbol: "RUN", decimals: 18 });
+    expect(calls).to.equal(2);
+  });
+});
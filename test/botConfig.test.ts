@@ -0,0 +1,142 @@
+import { expect } from "chai";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+import { AddressBook } from "../script/addressBook";
+import { BotConfig, loadBotConfig, resolveVaults } from "../script/botConfig";
+import { deployVaultFixture } from "./fixtures";
+
+const HARDHAT_CHAIN_ID = 31337;
+const ASSET = "0x00000000000000000000000000000000000000a0";
+const VAULT_A = "0x00000000000000000000000000000000000000a1";
+const VAULT_B = "0x00000000000000000000000000000000000000a2";
+const VAULT_C = "0x00000000000000000000000000000000000000a3";
+
+describe("bot config", function () {
+  let dir: string;
+  let book: AddressBook;
+
+  beforeEach(function () {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "bot-config-test-"));
+    book = new AddressBook(path.join(dir, "address-book.json"));
+    book.update(HARDHAT_CHAIN_ID, "hardhat", chain => {
+      chain.vaults.nyUSDC = { address: VAULT_B, asset: ASSET, strategies: [] };
+      chain.vaults.nyUSDT = { address: VAULT_C, asset: ASSET, strategies: [] };
+    });
+  });
+
+  afterEach(function () {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  function writeConfig(config: object): string {
+    const file = path.join(dir, "bot.json");
+    fs.writeFileSync(file, JSON.stringify(config));
+    return file;
+  }
+
+  it("reads several vaults from env, by address and by name", function () {
+    const config = loadBotConfig({
+      VAULT_ADDRESS: `${VAULT_A}, `,
+      VAULT: "nyUSDC,nyUSDT",
+      REBALANCE_THRESHOLD_BPS: "250",
+      MAX_GAS_PRICE_GWEI: "40.5",
+      HARVEST_INTERVAL_MINUTES: "1440",
+    });
+
+    expect(config.vaults).to.deep.equal([{ address: VAULT_A }, { name: "nyUSDC" }, { name: "nyUSDT" }]);
+    expect(config.defaults).to.deep.include({ thresholdBps: 250, syncToleranceBps: 50, intervalMinutes: 1, signer: undefined });
+    expect(config.defaults.cost?.maxGasPriceGwei).to.equal(40.5);
+    expect(config.defaults.harvest?.intervalMinutes).to.equal(1440);
+    expect(config.discovery).to.equal(undefined);
+  });
+
+  it("merges a BOT_CONFIG file's defaults over the env ones", function () {
+    const file = writeConfig({
+      defaults: { thresholdBps: 50, cost: { benefitBps: 10 } },
+      vaults: [{ name: "nyUSDC", intervalMinutes: 5 }, { address: VAULT_A }],
+      discovery: { registry: VAULT_C },
+    });
+
+    const config = loadBotConfig({ BOT_CONFIG: file, MIN_TRADE_AMOUNT: "250", VAULT_ADDRESS: VAULT_B });
+
+    expect(config.defaults).to.deep.include({ thresholdBps: 50, syncToleranceBps: 50 });
+    expect(config.defaults.cost).to.deep.include({ minTradeAmount: "250", benefitBps: 10 });
+    // The file's vault list replaces the env one.
+    expect(config.vaults).to.deep.equal([{ name: "nyUSDC", intervalMinutes: 5 }, { address: VAULT_A }]);
+    expect(config.discovery).to.deep.equal({ registry: VAULT_C });
+  });
+
+  it("rejects discovery without a registry and more than one default signer", function () {
+    expect(() => loadBotConfig({ DISCOVER_VAULTS: "true" })).to.throw("REGISTRY_ADDRESS is required when DISCOVER_VAULTS=true");
+    expect(() => loadBotConfig({ BOT_PRIVATE_KEY: "0x01", BOT_KEYSTORE: "keys/bot.json" }))
+      .to.throw(/Set only one of BOT_PRIVATE_KEY, BOT_KEYSTORE and BOT_REMOTE_SIGNER/);
+    expect(loadBotConfig({ DISCOVER_VAULTS: "true", REGISTRY_ADDRESS: VAULT_C, DISCOVER_ASSETS: `${ASSET}, ${VAULT_A}` }).discovery)
+      .to.deep.equal({ registry: VAULT_C, assets: [ASSET, VAULT_A] });
+  });
+
+  it("resolves names through the address book and fills in defaults per vault", async function () {
+    const config: BotConfig = {
+      defaults: {
+        thresholdBps: 100,
+        syncToleranceBps: 50,
+        intervalMinutes: 60,
+        signer: { type: "remote", url: "http://127.0.0.1:8550" },
+        cost: { maxGasPriceGwei: 50, minTradeAmount: "10" },
+        harvest: { intervalMinutes: 1440, strategies: { [VAULT_C]: 60 } },
+      },
+      vaults: [
+        { address: VAULT_A, thresholdBps: 25, signerKeyEnv: "VAULT_A_BOT_KEY", cost: { minTradeAmount: "250" } },
+        { name: "nyUSDC", harvest: { strategies: { [VAULT_A]: 0 } } },
+      ],
+    };
+
+    const [first, second] = await resolveVaults(config, book);
+
+    expect(first).to.deep.equal({
+      address: VAULT_A,
+      name: undefined,
+      thresholdBps: 25,
+      syncToleranceBps: 50,
+      intervalMinutes: 60,
+      signer: { type: "privateKey", env: "VAULT_A_BOT_KEY" },
+      cost: { maxGasPriceGwei: 50, minTradeAmount: "250" },
+      harvest: { intervalMinutes: 1440, strategies: { [VAULT_C]: 60 } },
+    });
+    expect(second).to.deep.include({ address: VAULT_B, name: "nyUSDC", thresholdBps: 100 });
+    expect(second.signer).to.deep.equal({ type: "remote", url: "http://127.0.0.1:8550" });
+    expect(second.harvest.strategies).to.deep.equal({ [VAULT_C]: 60, [VAULT_A]: 0 });
+  });
+
+  it("manages every address book vault when none are configured", async function () {
+    const config = loadBotConfig({});
+
+    const vaults = await resolveVaults(config, book);
+
+    expect(vaults.map(v => [v.name, v.address])).to.deep.equal([["nyUSDC", VAULT_B], ["nyUSDT", VAULT_C]]);
+  });
+
+  it("rejects vaults with neither address nor a known name", async function () {
+    const defaults = loadBotConfig({}).defaults;
+
+    await expect(resolveVaults({ defaults, vaults: [{ thresholdBps: 10 }] }, book))
+      .to.be.rejectedWith("Every configured vault needs an address or an address book name");
+    await expect(resolveVaults({ defaults, vaults: [{ name: "nyDAI" }] }, book)).to.be.rejectedWith(/nyDAI/);
+  });
+
+  it("adds discovered registry vaults, keeping the explicit entry for a vault it already has", async function () {
+    const { registry, vaultAddress, token } = await loadFixture(deployVaultFixture);
+    const defaults = loadBotConfig({}).defaults;
+    const discovery = { registry: await registry.getAddress() };
+
+    const vaults = await resolveVaults({ defaults, vaults: [{ address: vaultAddress.toLowerCase(), thresholdBps: 10 }, { address: VAULT_A }], discovery }, book);
+    expect(vaults.map(v => [v.address, v.thresholdBps])).to.deep.equal([[vaultAddress.toLowerCase(), 10], [VAULT_A, 100]]);
+
+    const discovered = await resolveVaults({ defaults, vaults: [], discovery }, book);
+    expect(discovered.map(v => v.address)).to.deep.equal([vaultAddress]);
+
+    const byAsset = await resolveVaults({ defaults, vaults: [], discovery: { ...discovery, assets: [await token.getAddress(), ASSET] } }, book);
+    expect(byAsset.map(v => v.address)).to.deep.equal([vaultAddress]);
+  });
+});
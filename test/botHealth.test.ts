@@ -0,0 +1,101 @@
+import { expect } from "chai";
+import * as http from "http";
+import { AddressInfo } from "net";
+import { BotMetrics, startHealthServer } from "../script/botHealth";
+
+const VAULT = "0x00000000000000000000000000000000000000aa";
+
+describe("BotMetrics", function () {
+  it("is not ready until every vault has finished a run", function () {
+    const metrics = new BotMetrics();
+    metrics.registerVault(VAULT, 5);
+
+    expect(metrics.readiness().ok).to.equal(false);
+    expect(metrics.readiness().vaults[VAULT].reason).to.equal("first run not finished");
+
+    metrics.recordRun(VAULT, "skipped");
+    expect(metrics.readiness().ok).to.equal(true);
+  });
+
+  it("stops being ready after repeated failures and recovers on success", function () {
+    const metrics = new BotMetrics({ maxConsecutiveFailures: 2 });
+    metrics.registerVault(VAULT, 5);
+
+    metrics.recordRun(VAULT, "failed");
+    expect(metrics.readiness().ok).to.equal(true);
+    metrics.recordRun(VAULT, "failed");
+    expect(metrics.readiness().vaults[VAULT]).to.deep.equal({ ok: false, reason: "2 consecutive failures" });
+
+    metrics.recordRun(VAULT, "executed");
+    expect(metrics.readiness().ok).to.equal(true);
+  });
+
+  it("reports a vault loop as dead once it misses several intervals", function () {
+    const metrics = new BotMetrics({ staleIntervals: 3 });
+    metrics.registerVault(VAULT, 1);
+    metrics.recordRun(VAULT, "skipped");
+
+    expect(metrics.liveness(Date.now() + 2 * 60_000).ok).to.equal(true);
+    expect(metrics.liveness(Date.now() + 4 * 60_000).vaults[VAULT].ok).to.equal(false);
+  });
+
+  it("renders Prometheus text", function () {
+    const metrics = new BotMetrics();
+    metrics.registerVault(VAULT, 5);
+    metrics.recordRun(VAULT, "failed");
+    metrics.recordRun(VAULT, "executed");
+    metrics.recordAssets(VAULT, "USDC", "1500.5", "10.0");
+    metrics.recordDrift(VAULT, "0xstrategy", 250n);
+    metrics.addGasSpent(VAULT, 10n ** 15n);
+    metrics.addGasSpent(VAULT, 10n ** 15n);
+    metrics.recordSignerBalance("0xbot", 3n * 10n ** 17n);
+
+    const text = metrics.render();
+
+    expect(text).to.include("# TYPE rayls_bot_runs_total counter");
+    expect(text).to.include(`rayls_bot_runs_total{vault="${VAULT}",status="failed"} 1`);
+    expect(text).to.include(`rayls_bot_runs_total{vault="${VAULT}",status="executed"} 1`);
+    expect(text).to.include(`rayls_bot_consecutive_failures{vault="${VAULT}"} 0`);
+    expect(text).to.include(`rayls_bot_total_assets{vault="${VAULT}",asset="USDC"} 1500.5`);
+    expect(text).to.include(`rayls_bot_strategy_drift_bps{vault="${VAULT}",strategy="0xstrategy"} 250`);
+    expect(text).to.include(`rayls_bot_gas_spent_native_total{vault="${VAULT}"} 0.002`);
+    expect(text).to.include(`rayls_bot_signer_balance_native{signer="0xbot"} 0.3`);
+    expect(text).to.match(/rayls_bot_last_success_timestamp_seconds\{vault="[^"]+"\} \d+\.\d{3}/);
+  });
+});
+
+describe("startHealthServer", function () {
+  let server: http.Server;
+  let metrics: BotMetrics;
+  let base: string;
+
+  beforeEach(async function () {
+    metrics = new BotMetrics();
+    metrics.registerVault(VAULT, 5);
+    server = await startHealthServer(metrics, 0);
+    base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(function (done) {
+    server.close(done);
+  });
+
+  it("serves liveness, readiness and metrics", async function () {
+    expect((await fetch(`${base}/healthz`)).status).to.equal(200);
+
+    const notReady = await fetch(`${base}/readyz`);
+    expect(notReady.status).to.equal(503);
+    expect((await notReady.json()).vaults[VAULT].ok).to.equal(false);
+
+    metrics.recordRun(VAULT, "executed");
+    expect((await fetch(`${base}/readyz`)).status).to.equal(200);
+
+    const response = await fetch(`${base}/metrics`);
+    expect(response.headers.get("content-type")).to.match(/^text\/plain/);
+    expect(await response.text()).to.include("rayls_bot_up 1");
+  });
+
+  it("returns 404 for unknown paths", async function () {
+    expect((await fetch(`${base}/nope`)).status).to.equal(404);
+  });
+});
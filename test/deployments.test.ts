@@ -0,0 +1,180 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import {
+  CheckpointedDeployment,
+  checkpointPath,
+  DeploymentManifest,
+  DeploymentRecord,
+  loadManifest,
+  readDeploymentRecord,
+  validateManifest,
+  writeDeploymentRecord,
+} from "../script/deployments";
+
+const ASSET = "0x00000000000000000000000000000000000000a0";
+const STRATEGY_A = "0x00000000000000000000000000000000000000a1";
+const STRATEGY_B = "0x00000000000000000000000000000000000000a2";
+
+describe("deployment manifests", function () {
+  let dir: string;
+
+  beforeEach(function () {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "deployments-test-"));
+  });
+
+  afterEach(function () {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("loads a YAML manifest", function () {
+    const file = path.join(dir, "rayls.yaml");
+    fs.writeFileSync(file, [
+      `asset: "${ASSET}"`,
+      "vault: { name: NativeYield USDC, symbol: nyUSDC }",
+      "strategies:",
+      `  - { address: "${STRATEGY_A}", weight: 6000 }`,
+      `  - { address: "${STRATEGY_B}", weight: 4000 }`,
+      "fees: { management: 100 }",
+    ].join("\n"));
+
+    expect(loadManifest(file)).to.deep.equal({
+      asset: ASSET,
+      vault: { name: "NativeYield USDC", symbol: "nyUSDC" },
+      strategies: [{ address: STRATEGY_A, weight: 6000 }, { address: STRATEGY_B, weight: 4000 }],
+      bot: undefined,
+      treasury: undefined,
+      fees: { deposit: 0, management: 100, performance: 0, withdraw: 0 },
+    });
+  });
+
+  it("lists every problem with an invalid manifest", function () {
+    const raw = {
+      asset: "not an address",
+      vault: { name: "Vault" },
+      strategies: [{ address: STRATEGY_A, weight: 6000 }, { address: STRATEGY_A, weight: 3000 }],
+      fees: { performance: 6000 },
+    };
+
+    expect(() => validateManifest(raw, "bad.yaml")).to.throw(Error)
+      .with.property("message")
+      .that.includes("asset must be an address")
+      .and.includes("vault.symbol is required")
+      .and.includes(`strategies[1] repeats ${STRATEGY_A}`)
+      .and.includes("strategy weights must sum to 10000 bps (got 9000)")
+      .and.includes("fees.performance must be between 0 and 5000 bps");
+  });
+
+  it("round-trips a deployment record per network", function () {
+    const record: DeploymentRecord = {
+      network: "rayls",
+      chainId: 123123,
+      deployedAt: new Date().toISOString(),
+      deployer: ASSET,
+      manifest: "deploy/rayls.yaml",
+      contracts: { vaultImplementation: ASSET, registry: ASSET, strategyManager: ASSET, vault: STRATEGY_A, asset: ASSET },
+      vault: { name: "NativeYield USDC", symbol: "nyUSDC" },
+      bot: ASSET,
+      treasury: ASSET,
+      fees: null,
+      strategies: [{ address: STRATEGY_A, weight: 10000 }],
+    };
+
+    expect(writeDeploymentRecord(record, dir)).to.equal(path.join(dir, "rayls.json"));
+    expect(fs.readdirSync(dir)).to.deep.equal(["rayls.json"]);
+    expect(readDeploymentRecord("rayls", dir)).to.deep.equal(record);
+    expect(readDeploymentRecord("hardhat", dir)).to.equal(null);
+  });
+});
+
+describe("CheckpointedDeployment", function () {
+  const manifest: DeploymentManifest = {
+    asset: ASSET,
+    vault: { name: "NativeYield USDC", symbol: "nyUSDC" },
+    strategies: [{ address: STRATEGY_A, weight: 10000 }],
+  };
+  let dir: string;
+  let deploys: number;
+
+  beforeEach(function () {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "checkpoint-test-"));
+    deploys = 0;
+  });
+
+  afterEach(function () {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  async function deployToken(): Promise<string> {
+    deploys++;
+    const token = await ethers.deployContract("MockToken", ["Mock USD", "mUSD"]);
+    return token.getAddress();
+  }
+
+  it("skips contracts and steps finished by an earlier run", async function () {
+    const first = await CheckpointedDeployment.open("hardhat", manifest, ethers.provider, { dir });
+    const address = await first.contract("Token", deployToken);
+    await first.step("Configure", async () => {});
+    await expect(first.step("Fail", async () => { throw new Error("reverted"); })).to.be.rejectedWith("reverted");
+
+    const rerun = await CheckpointedDeployment.open("hardhat", manifest, ethers.provider, { dir });
+    let configured = false;
+    expect(rerun.resumed).to.equal(true);
+    expect(await rerun.contract("Token", deployToken)).to.equal(address);
+    await rerun.step("Configure", async () => { configured = true; });
+
+    expect(deploys).to.equal(1);
+    expect(configured).to.equal(false);
+    expect(rerun.isDone("Fail")).to.equal(false);
+  });
+
+  it("redoes a contract whose code changed, and every step after it", async function () {
+    const first = await CheckpointedDeployment.open("hardhat", manifest, ethers.provider, { dir });
+    const address = await first.contract("Token", deployToken);
+    await first.step("Configure", async () => {});
+    await ethers.provider.send("hardhat_setCode", [address, "0x00"]);
+
+    const rerun = await CheckpointedDeployment.open("hardhat", manifest, ethers.provider, { dir });
+
+    expect(rerun.isDone("Token")).to.equal(false);
+    expect(rerun.isDone("Configure")).to.equal(false);
+    expect(await rerun.contract("Token", deployToken)).to.not.equal(address);
+  });
+
+  it("starts over with fresh and refuses a changed manifest", async function () {
+    const first = await CheckpointedDeployment.open("hardhat", manifest, ethers.provider, { dir });
+    await first.contract("Token", deployToken);
+
+    const changed = { ...manifest, vault: { name: "Other", symbol: "OTH" } };
+    await expect(CheckpointedDeployment.open("hardhat", changed, ethers.provider, { dir }))
+      .to.be.rejectedWith(/manifest changed/);
+
+    const fresh = await CheckpointedDeployment.open("hardhat", changed, ethers.provider, { dir, fresh: true });
+    expect(fresh.resumed).to.equal(false);
+    await fresh.contract("Token", deployToken);
+    expect(deploys).to.equal(2);
+
+    fresh.finish();
+    expect(fs.existsSync(checkpointPath("hardhat", dir))).to.equal(true);
+  });
+
+  it("reuses a finished deployment on a rerun unless fresh", async function () {
+    const first = await CheckpointedDeployment.open("hardhat", manifest, ethers.provider, { dir });
+    const address = await first.contract("Token", deployToken);
+    await first.step("Configure", async () => {});
+    first.finish();
+
+    const rerun = await CheckpointedDeployment.open("hardhat", manifest, ethers.provider, { dir });
+    expect(rerun.completedAt).to.be.a("string");
+    expect(await rerun.contract("Token", deployToken)).to.equal(address);
+    expect(rerun.isDone("Configure")).to.equal(true);
+    expect(deploys).to.equal(1);
+
+    const fresh = await CheckpointedDeployment.open("hardhat", manifest, ethers.provider, { dir, fresh: true });
+    expect(fresh.completedAt).to.equal(undefined);
+    expect(await fresh.contract("Token", deployToken)).to.not.equal(address);
+    expect(deploys).to.equal(2);
+  });
+});
@@ -0,0 +1,82 @@
+import { expect } from "chai";
+import hre from "hardhat";
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+import { diagnoseVault, DiagnosticReport } from "../script/diagnoseVault";
+import { deployChildStrategy, deployVaultFixture } from "./fixtures";
+
+function statuses(report: DiagnosticReport) {
+  return report.checks.map(c => [c.check, c.subject ?? null, c.status]);
+}
+
+describe("vault diagnostics", function () {
+  it("passes a correctly set up vault", async function () {
+    const { owner, bot, vaultAddress, strategies } = await loadFixture(deployVaultFixture);
+    const [first, second] = await Promise.all(strategies.map(s => s.getAddress()));
+
+    const report = await diagnoseVault(vaultAddress, { owner: owner.address, bot: bot.address });
+
+    expect(report.ok).to.equal(true);
+    expect(report.chainId).to.equal(31337);
+    expect(statuses(report)).to.deep.equal([
+      ["Registry owner", null, "pass"],
+      ["Registry lists vault", null, "pass"],
+      ["Multi-strategy mode", null, "pass"],
+      ["Weight sum", null, "pass"],
+      ["Strategy linked", first, "pass"],
+      ["Strategy asset", first, "pass"],
+      ["Strategy linked", second, "pass"],
+      ["Strategy asset", second, "pass"],
+      // The fixture does not set a StrategyManager.
+      ["StrategyManager", null, "warn"],
+      ["Allocation bot", null, "pass"],
+      ["Pause state", null, "pass"],
+    ]);
+  });
+
+  it("fails unlinked strategies, overweight sets, a wrong bot and a paused vault", async function () {
+    const { vault, vaultAddress, token, other } = await loadFixture(deployVaultFixture);
+    const { strategy: stray } = await deployChildStrategy(await token.getAddress(), 3);
+    await stray.setVault(other.address);
+    const strayAddress = await stray.getAddress();
+    await vault.addStrategy(strayAddress, 1000);
+    await vault.pause();
+
+    const report: DiagnosticReport = await hre.run("vault:diagnose", { vault: vaultAddress, bot: other.address, json: true });
+    process.exitCode = undefined;
+
+    expect(report.ok).to.equal(false);
+    const failed = report.checks.filter(c => c.status === "fail");
+    expect(failed.map(c => [c.check, c.subject ?? null])).to.deep.equal([
+      ["Weight sum", null],
+      ["Strategy linked", strayAddress],
+      ["Allocation bot", null],
+      ["Pause state", null],
+    ]);
+    expect(failed.every(c => c.hint)).to.equal(true);
+    expect(failed[1].hint).to.contain(`vault:link-strategies --strategies ${strayAddress}`);
+  });
+
+  it("stops at the vault check when there is no contract", async function () {
+    const report = await diagnoseVault("0x00000000000000000000000000000000000000a1");
+
+    expect(report.ok).to.equal(false);
+    expect(statuses(report)).to.deep.equal([["Vault contract", null, "fail"]]);
+  });
+
+  it("fails each check it cannot read instead of stopping, for a contract that is not a vault", async function () {
+    const { token } = await loadFixture(deployVaultFixture);
+
+    const report = await diagnoseVault(await token.getAddress());
+
+    expect(report.ok).to.equal(false);
+    expect(statuses(report)).to.deep.equal([
+      ["Vault contract", null, "fail"],
+      ["Registry owner", null, "fail"],
+      ["Multi-strategy mode", null, "fail"],
+      ["StrategyManager", null, "fail"],
+      ["Allocation bot", null, "fail"],
+      ["Pause state", null, "fail"],
+    ]);
+    expect(report.checks[0].hint).to.contain("Not a RaylsVault?");
+  });
+});
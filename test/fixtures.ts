@@ -0,0 +1,135 @@
+import { ethers } from "hardhat";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+
+export const STRATEGY_WEIGHTS = [6000n, 4000n];
+
+/**
+ * An ERC4626ChildStrategy over a fresh ExtendedChildERC4626Vault for `asset`,
+ * not linked to any vault.
+ */
+export async function deployChildStrategy(asset: string, index: number) {
+  const childVault = await ethers.deployContract("ExtendedChildERC4626Vault", [asset, `Child Vault ${index}`, `cv${index}`]);
+  const strategy = await ethers.deployContract("ERC4626ChildStrategy", [asset, await childVault.getAddress()]);
+  return { childVault, strategy };
+}
+
+/**
+ * Points ADDRESS_BOOK at a temporary file for each test in the suite, so
+ * scripts and tasks resolve vaults without touching the repo's book.
+ */
+export function useTempAddressBook() {
+  let dir: string;
+  let saved: string | undefined;
+
+  beforeEach(function () {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "address-book-"));
+    saved = process.env.ADDRESS_BOOK;
+    process.env.ADDRESS_BOOK = path.join(dir, "address-book.json");
+  });
+
+  afterEach(function () {
+    if (saved === undefined) delete process.env.ADDRESS_BOOK;
+    else process.env.ADDRESS_BOOK = saved;
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+}
+
+/**
+ * Registry-deployed RaylsVault over a MockToken with two ERC4626 child
+ * strategies (60/40), multi-strategy mode on and `bot` as the allocation bot.
+ * `user` holds 100k tokens and has approved the vault.
+ */
+export async function deployVaultFixture() {
+  const [owner, bot, user, other] = await ethers.getSigners();
+
+  const token = await ethers.deployContract("MockToken", ["Mock USD", "mUSD"]);
+  const implementation = await ethers.deployContract("RaylsVault");
+  const registry = await ethers.deployContract("RaylsVaultRegistry", [
+    await implementation.getAddress(),
+    owner.address,
+    owner.address,
+  ]);
+
+  const childVaults = [];
+  const strategies = [];
+  for (let i = 0; i < STRATEGY_WEIGHTS.length; i++) {
+    const { childVault, strategy } = await deployChildStrategy(await token.getAddress(), i + 1);
+    childVaults.push(childVault);
+    strategies.push(strategy);
+  }
+
+  await registry.deployVault(await token.getAddress(), "Mock USD", "mUSD", await strategies[0].getAddress());
+  const [vaultAddress] = await registry.getVaults(await token.getAddress());
+  const vault = await ethers.getContractAt("RaylsVault", vaultAddress);
+
+  await vault.setAllocationBot(bot.address);
+  await vault.setMultiStrategyEnabled(true);
+  for (let i = 0; i < strategies.length; i++) {
+    await strategies[i].setVault(vaultAddress);
+    await vault.addStrategy(await strategies[i].getAddress(), STRATEGY_WEIGHTS[i]);
+  }
+
+  await token.mint(user.address, ethers.parseUnits("100000", 18));
+  await token.connect(user).approve(vaultAddress, ethers.MaxUint256);
+
+  return { owner, bot, user, other, token, registry, vault, vaultAddress, childVaults, strategies };
+}
+
+/**
+ * Registry-deployed RaylsVault left in its default single-strategy mode on one
+ * ERC4626 child strategy, with 100 of `user`'s tokens deposited into it.
+ */
+export async function deploySingleStrategyVaultFixture() {
+  const [owner, , user] = await ethers.getSigners();
+
+  const token = await ethers.deployContract("MockToken", ["Mock USD", "mUSD"]);
+  const implementation = await ethers.deployContract("RaylsVault");
+  const registry = await ethers.deployContract("RaylsVaultRegistry", [
+    await implementation.getAddress(),
+    owner.address,
+    owner.address,
+  ]);
+  const { childVault, strategy } = await deployChildStrategy(await token.getAddress(), 1);
+
+  await registry.deployVault(await token.getAddress(), "Mock USD", "mUSD", await strategy.getAddress());
+  const [vaultAddress] = await registry.getVaults(await token.getAddress());
+  const vault = await ethers.getContractAt("RaylsVault", vaultAddress);
+  await strategy.setVault(vaultAddress);
+
+  await token.mint(user.address, ethers.parseUnits("100", 18));
+  await token.connect(user).approve(vaultAddress, ethers.MaxUint256);
+  await vault.connect(user).deposit(ethers.parseUnits("100", 18), user.address);
+
+  return { owner, user, token, registry, vault, vaultAddress, childVault, strategy };
+}
+
+/**
+ * deployVaultFixture with `user`'s 1000 tokens deposited and rebalanced 600/400
+ * into the child vaults, so there is something for yield to accrue on.
+ */
+export async function deployFundedVaultFixture() {
+  const fixture = await deployVaultFixture();
+  const amount = ethers.parseUnits("1000", 18);
+  await fixture.vault.connect(fixture.user).deposit(amount, fixture.user.address);
+  await fixture.vault.connect(fixture.bot).rebalance(STRATEGY_WEIGHTS.map(w => (amount * w) / 10000n), STRATEGY_WEIGHTS.map(() => 0n));
+  return fixture;
+}
+
+/**
+ * deployVaultFixture with a third strategy, a MockRewardsStrategy whose
+ * rewards only count once harvested and which can be slashed. Weights are
+ * 60/20/20.
+ */
+export async function deployRewardsFixture() {
+  const fixture = await deployVaultFixture();
+  const rewards = await ethers.deployContract("MockRewardsStrategy", [await fixture.token.getAddress()]);
+  const rewardsAddress = await rewards.getAddress();
+
+  await rewards.setVault(fixture.vaultAddress);
+  await fixture.vault.updateStrategyWeight(await fixture.strategies[1].getAddress(), 2000);
+  await fixture.vault.addStrategy(rewardsAddress, 2000);
+
+  return { ...fixture, rewards, rewardsAddress };
+}
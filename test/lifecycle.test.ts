@@ -0,0 +1,80 @@
+import { expect } from "chai";
+import hre, { ethers } from "hardhat";
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { AddressBook } from "../script/addressBook";
+import { AlertManager } from "../script/alerts";
+import { RebalancingBot } from "../script/rebalanceBot";
+import { RebalanceJournal } from "../script/rebalanceJournal";
+import { PendingTxStore } from "../script/pendingTx";
+import { deployChildStrategy, deployVaultFixture, useTempAddressBook } from "./fixtures";
+
+const amount = (value: string) => ethers.parseUnits(value, 18);
+
+/**
+ * Runs the operator scripts one after another against a single vault, the
+ * way they are used after a deployment: onboard a strategy, deposit,
+ * rebalance by hand, let the bot rebalance, withdraw.
+ */
+describe("vault lifecycle", function () {
+  useTempAddressBook();
+  let dataDir: string;
+
+  beforeEach(function () {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), "lifecycle-"));
+  });
+
+  afterEach(function () {
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it("onboards, deposits, rebalances and withdraws through the scripts and the bot", async function () {
+    const { owner, bot, user, token, vault, vaultAddress, strategies } = await loadFixture(deployVaultFixture);
+    const asset = await token.getAddress();
+    const startingBalance = await token.balanceOf(owner.address);
+    new AddressBook().update(31337, "hardhat", chain => {
+      chain.vaults.nyUSD = { address: vaultAddress, asset, strategies: [] };
+    });
+    const balances = async () => (await vault.getStrategies()).map(s => s.currentBalance);
+
+    // Onboard a third strategy at 20%, taking it from the second.
+    await vault.updateStrategyWeight(await strategies[1].getAddress(), 2000);
+    const { strategy: third } = await deployChildStrategy(asset, 3);
+    await hre.run("vault:link-strategies", { vault: "nyUSD", strategies: [await third.getAddress()], weight: 2000 });
+    expect(await third.getVault()).to.equal(vaultAddress);
+
+    await hre.run("vault:deposit", { vault: "nyUSD", amount: "1000" });
+    expect(await vault.totalAssets()).to.equal(amount("1000"));
+
+    await hre.run("vault:rebalance", { vault: "nyUSD" });
+    expect(await balances()).to.deep.equal([amount("600"), amount("200"), amount("200")]);
+
+    // A user deposit leaves idle cash for the bot to place.
+    await vault.connect(user).deposit(amount("500"), user.address);
+    const rebalancer = new RebalancingBot(vault.connect(bot), bot, vaultAddress, {
+      journal: new RebalanceJournal(path.join(dataDir, "journal.jsonl")),
+      alerts: new AlertManager([]),
+      pendingTxs: new PendingTxStore(path.join(dataDir, "pending-tx.json")),
+    });
+    const plan = await rebalancer.calculateRebalance();
+    expect(plan.depositAmounts).to.deep.equal([amount("300"), amount("100"), amount("100")]);
+    await rebalancer.rebalance();
+    expect(await balances()).to.deep.equal([amount("900"), amount("300"), amount("300")]);
+
+    await hre.run("vault:withdraw", { vault: "nyUSD", all: true });
+    expect(await vault.balanceOf(owner.address)).to.equal(0n);
+    expect(await token.balanceOf(owner.address)).to.equal(startingBalance);
+    expect(await vault.totalAssets()).to.equal(amount("500"));
+  });
+
+  it("fails the rebalance script when the vault rejects the rebalance", async function () {
+    const { registry, vaultAddress, other } = await loadFixture(deployVaultFixture);
+    await hre.run("vault:deposit", { vault: vaultAddress, amount: "100" });
+    // The script signs as the first account, which is then neither the bot nor the registry owner.
+    await registry.transferOwnership(other.address);
+
+    await expect(hre.run("vault:rebalance", { vault: vaultAddress })).to.be.rejectedWith(/Rebalance failed/);
+  });
+});
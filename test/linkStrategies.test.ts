@@ -0,0 +1,63 @@
+import { expect } from "chai";
+import hre, { ethers } from "hardhat";
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+import { deployChildStrategy, deployVaultFixture } from "./fixtures";
+
+async function newStrategy(asset: string) {
+  return (await deployChildStrategy(asset, 3)).strategy;
+}
+
+describe("link strategies", function () {
+  it("links and adds a new strategy, and does nothing on a rerun", async function () {
+    const { vault, vaultAddress, token, strategies } = await loadFixture(deployVaultFixture);
+    await vault.updateStrategyWeight(await strategies[1].getAddress(), 2000);
+    const strategy = await newStrategy(await token.getAddress());
+    const address = await strategy.getAddress();
+
+    await hre.run("vault:link-strategies", { vault: vaultAddress, strategies: [address], weight: 2000 });
+
+    expect(await strategy.getVault()).to.equal(vaultAddress);
+    const added = (await vault.getStrategies()).find(s => s.strategy === address);
+    expect(added?.targetWeight).to.equal(2000n);
+
+    const block = await ethers.provider.getBlockNumber();
+    await hre.run("vault:link-strategies", { vault: vaultAddress, strategies: [address], weight: 2000 });
+    expect(await ethers.provider.getBlockNumber()).to.equal(block);
+  });
+
+  it("refuses before sending anything when a strategy cannot be onboarded", async function () {
+    const { vault, vaultAddress, token, other, strategies } = await loadFixture(deployVaultFixture);
+    const elsewhere = await newStrategy(await token.getAddress());
+    await elsewhere.setVault(other.address);
+    const otherToken = await ethers.deployContract("MockToken", ["Other", "OTH"]);
+    const wrongAsset = await newStrategy(await otherToken.getAddress());
+    const fresh = await newStrategy(await token.getAddress());
+    const link = (addresses: string[], extra: object = {}) =>
+      hre.run("vault:link-strategies", { vault: vaultAddress, strategies: addresses, ...extra });
+
+    await expect(link([await fresh.getAddress(), await elsewhere.getAddress()], { weight: 1 }))
+      .to.be.rejectedWith(/linked to a different vault .* setVault\(\) cannot change it/);
+    await expect(link([await wrongAsset.getAddress()], { weight: 1 })).to.be.rejectedWith(/want\(\) is .* but the vault's asset is/);
+    await expect(link([await fresh.getAddress()])).to.be.rejectedWith(/pass --weight to add them/);
+    await expect(link([await fresh.getAddress()], { weight: 1 })).to.be.rejectedWith(/over 10000 - lower the other strategies first/);
+    await expect(link([await fresh.getAddress()], { weight: 0 })).to.be.rejectedWith(/--weight must be between 1 and 10000/);
+
+    // The strategy that passed its checks was not linked either.
+    expect(await fresh.getVault()).to.equal(ethers.ZeroAddress);
+    expect((await vault.getStrategies()).map(s => s.strategy)).to.deep.equal(await Promise.all(strategies.map(s => s.getAddress())));
+  });
+
+  it("has no --force to relink a strategy, since setVault() only works once", async function () {
+    const { vaultAddress, token, other } = await loadFixture(deployVaultFixture);
+    const elsewhere = await newStrategy(await token.getAddress());
+    await elsewhere.setVault(other.address);
+    await expect(elsewhere.setVault(vaultAddress)).to.be.revertedWith("Vault already set");
+
+    expect(hre.tasks["vault:link-strategies"].paramDefinitions).to.not.have.property("force");
+    const block = await ethers.provider.getBlockNumber();
+    await expect(hre.run("vault:link-strategies", { vault: vaultAddress, strategies: [await elsewhere.getAddress()], weight: 1, force: true }))
+      .to.be.rejectedWith(/linked to a different vault/);
+    expect(await ethers.provider.getBlockNumber()).to.equal(block);
+    expect(await elsewhere.getVault()).to.equal(other.address);
+  });
+});
@@ -0,0 +1,759 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { RebalancingBot, createBot, BotRuntime } from "../script/rebalanceBot";
+import { RebalanceJournal } from "../script/rebalanceJournal";
+import { Alert, AlertManager, AlertSink } from "../script/alerts";
+import { BotMetrics } from "../script/botHealth";
+import { PendingTxStore } from "../script/pendingTx";
+import { TxManager } from "../script/txManager";
+import { deployRewardsFixture, deployVaultFixture } from "./fixtures";
+
+class RecordingSink implements AlertSink {
+  name = "recording";
+  minSeverity = "info" as const;
+  alerts: Alert[] = [];
+
+  async send(alert: Alert): Promise<void> {
+    this.alerts.push(alert);
+  }
+}
+
+const amount = (value: string) => ethers.parseUnits(value, 18);
+
+describe("RebalancingBot", function () {
+  let dataDir: string;
+  let journal: RebalanceJournal;
+  let sink: RecordingSink;
+  let alerts: AlertManager;
+  let pendingTxs: PendingTxStore;
+
+  beforeEach(function () {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), "rebalance-bot-"));
+    journal = new RebalanceJournal(path.join(dataDir, "journal.jsonl"));
+    sink = new RecordingSink();
+    alerts = new AlertManager([sink]);
+    pendingTxs = new PendingTxStore(path.join(dataDir, "pending-tx.json"));
+  });
+
+  afterEach(function () {
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  async function deployWithDeposit(deposit: string = "1000") {
+    const fixture = await loadFixture(deployVaultFixture);
+    await fixture.vault.connect(fixture.user).deposit(amount(deposit), fixture.user.address);
+    return fixture;
+  }
+
+  async function balances(vault: Awaited<ReturnType<typeof deployVaultFixture>>["vault"]) {
+    return (await vault.getStrategies()).map(s => s.currentBalance);
+  }
+
+  describe("calculateRebalance", function () {
+    it("plans deposits of idle assets up to the target weights", async function () {
+      const { vault, vaultAddress, bot } = await deployWithDeposit();
+      const rebalancer = new RebalancingBot(vault.connect(bot), bot, vaultAddress, { journal, alerts, pendingTxs });
+
+      const action = await rebalancer.calculateRebalance();
+
+      expect(action.needsRebalance).to.equal(true);
+      expect(action.totalAssets).to.equal(amount("1000"));
+      expect(action.depositAmounts).to.deep.equal([amount("600"), amount("400")]);
+      expect(action.withdrawAmounts).to.deep.equal([0n, 0n]);
+      expect(action.allocations.map(a => a.targetAmount)).to.deep.equal([amount("600"), amount("400")]);
+    });
+
+    it("withdraws from strategies that are over their target weight", async function () {
+      const { vault, vaultAddress, bot, strategies } = await deployWithDeposit();
+      const rebalancer = new RebalancingBot(vault.connect(bot), bot, vaultAddress, { journal, alerts, pendingTxs });
+      await rebalancer.executeRebalance(await rebalancer.calculateRebalance());
+
+      await vault.updateStrategyWeight(await strategies[0].getAddress(), 2000);
+      await vault.updateStrategyWeight(await strategies[1].getAddress(), 8000);
+      const action = await rebalancer.calculateRebalance();
+
+      expect(action.needsRebalance).to.equal(true);
+      expect(action.withdrawAmounts).to.deep.equal([amount("400"), 0n]);
+      expect(action.depositAmounts).to.deep.equal([0n, amount("400")]);
+    });
+
+    it("leaves strategies within the threshold alone", async function () {
+      const { vault, vaultAddress, bot } = await deployWithDeposit();
+      const rebalancer = new RebalancingBot(vault.connect(bot), bot, vaultAddress, { journal, alerts, pendingTxs });
+      await rebalancer.executeRebalance(await rebalancer.calculateRebalance());
+
+      const action = await rebalancer.calculateRebalance();
+
+      expect(action.needsRebalance).to.equal(false);
+      expect(action.depositAmounts).to.deep.equal([0n, 0n]);
+      expect(action.withdrawAmounts).to.deep.equal([0n, 0n]);
+    });
+  });
+
+  describe("rebalance", function () {
+    it("executes the plan and journals the run", async function () {
+      const { vault, vaultAddress, bot } = await deployWithDeposit();
+      const rebalancer = new RebalancingBot(vault.connect(bot), bot, vaultAddress, { journal, alerts, pendingTxs });
+
+      await rebalancer.rebalance();
+
+      expect(await balances(vault)).to.deep.equal([amount("600"), amount("400")]);
+
+      const entries = journal.read();
+      expect(entries.map(e => e.status)).to.deep.equal(["planned", "executed"]);
+      const executed = entries[1];
+      expect(executed.runId).to.equal(entries[0].runId);
+      expect(executed.chainId).to.equal("31337");
+      expect(executed.txHash).to.match(/^0x[0-9a-f]{64}$/);
+      expect(BigInt(executed.gasUsed!)).to.be.greaterThan(0n);
+      expect(executed.strategies.map(s => s.balanceAfter)).to.deep.equal([
+        amount("600").toString(),
+        amount("400").toString(),
+      ]);
+      expect(sink.alerts).to.have.length(0);
+    });
+
+    it("journals a skipped run when nothing needs to move", async function () {
+      const { vault, vaultAddress, bot } = await deployWithDeposit();
+      const rebalancer = new RebalancingBot(vault.connect(bot), bot, vaultAddress, { journal, alerts, pendingTxs });
+      await rebalancer.rebalance();
+
+      await rebalancer.rebalance();
+
+      expect(journal.read().map(e => e.status)).to.deep.equal(["planned", "executed", "skipped"]);
+    });
+
+    it("journals the failure and alerts when the transaction reverts", async function () {
+      const { vault, vaultAddress, other } = await deployWithDeposit();
+      const rebalancer = new RebalancingBot(vault.connect(other), other, vaultAddress, { journal, alerts, pendingTxs });
+
+      await rebalancer.rebalance();
+
+      expect(await balances(vault)).to.deep.equal([0n, 0n]);
+      expect(journal.read().map(e => e.status)).to.deep.equal(["failed"]);
+      expect(journal.read()[0].error).to.be.a("string");
+      expect(sink.alerts).to.have.length(1);
+      expect(sink.alerts[0]).to.include({ severity: "critical", subject: "Rebalance failed", key: vaultAddress });
+    });
+
+    it("sends a recovery notice once a failing vault rebalances again", async function () {
+      const { vault, vaultAddress, bot, other } = await deployWithDeposit();
+      await new RebalancingBot(vault.connect(other), other, vaultAddress, { journal, alerts, pendingTxs }).rebalance();
+
+      await new RebalancingBot(vault.connect(bot), bot, vaultAddress, { journal, alerts, pendingTxs }).rebalance();
+
+      expect(sink.alerts.map(a => a.subject)).to.deep.equal(["Rebalance failed", "Recovered: Rebalance failed"]);
+    });
+  });
+
+  describe("metrics", function () {
+    it("records run outcomes, drift, total assets, gas spent and signer balance", async function () {
+      const { vault, vaultAddress, bot, strategies } = await deployWithDeposit();
+      const metrics = new BotMetrics();
+      metrics.registerVault(vaultAddress, 1);
+      const rebalancer = new RebalancingBot(vault.connect(bot), bot, vaultAddress, { journal, alerts, pendingTxs, metrics });
+
+      await rebalancer.rebalance();
+
+      const text = metrics.render();
+      expect(text).to.include(`rayls_bot_runs_total{vault="${vaultAddress}",status="executed"} 1`);
+      expect(text).to.include(`rayls_bot_total_assets{vault="${vaultAddress}",asset="mUSD"} 1000.0`);
+      expect(text).to.include(
+        `rayls_bot_strategy_drift_bps{vault="${vaultAddress}",strategy="${await strategies[0].getAddress()}"} 6000`
+      );
+      expect(text).to.match(new RegExp(`rayls_bot_gas_spent_native_total\\{vault="${vaultAddress}"\\} 0\\.0*[1-9]`));
+      expect(text).to.include(`rayls_bot_signer_balance_native{signer="${bot.address}"}`);
+      expect(metrics.readiness().ok).to.equal(true);
+    });
+
+    it("counts consecutive failures", async function () {
+      const { vault, vaultAddress, other } = await deployWithDeposit();
+      const metrics = new BotMetrics();
+      const rebalancer = new RebalancingBot(vault.connect(other), other, vaultAddress, { journal, alerts, pendingTxs, metrics });
+
+      await rebalancer.rebalance();
+      await rebalancer.rebalance();
+
+      expect(metrics.render()).to.include(`rayls_bot_consecutive_failures{vault="${vaultAddress}"} 2`);
+    });
+  });
+
+  describe("scheduling", function () {
+    it("ignores a run requested while another is still in progress", async function () {
+      const { vault, vaultAddress, bot } = await deployWithDeposit();
+      const rebalancer = new RebalancingBot(vault.connect(bot), bot, vaultAddress, { journal, alerts, pendingTxs });
+
+      await Promise.all([rebalancer.rebalance(), rebalancer.rebalance()]);
+
+      expect(journal.read().map(e => e.status)).to.deep.equal(["planned", "executed"]);
+    });
+
+    it("keeps running on the interval until stopped", async function () {
+      const { vault, vaultAddress, bot } = await deployWithDeposit();
+      const rebalancer = new RebalancingBot(vault.connect(bot), bot, vaultAddress, { journal, alerts, pendingTxs });
+
+      const running = rebalancer.start(0.001);
+      while (journal.read().length < 4) {
+        await new Promise(resolve => setTimeout(resolve, 20));
+      }
+      await rebalancer.stop();
+      await running;
+
+      const statuses = journal.read().map(e => e.status);
+      expect(statuses.slice(0, 4)).to.deep.equal(["planned", "executed", "skipped", "skipped"]);
+      await new Promise(resolve => setTimeout(resolve, 150));
+      expect(journal.read()).to.have.length(statuses.length);
+    });
+
+    it("lets the in-flight run finish when stopped", async function () {
+      const { vault, vaultAddress, bot } = await deployWithDeposit();
+      const rebalancer = new RebalancingBot(vault.connect(bot), bot, vaultAddress, { journal, alerts, pendingTxs });
+
+      const running = rebalancer.start(60);
+      await rebalancer.stop();
+      await running;
+
+      expect(journal.read().map(e => e.status)).to.deep.equal(["planned", "executed"]);
+      expect(await balances(vault)).to.deep.equal([amount("600"), amount("400")]);
+    });
+  });
+
+  describe("pending transactions", function () {
+    afterEach(async function () {
+      await ethers.provider.send("evm_setAutomine", [true]);
+    });
+
+    function plannedEntry(vaultAddress: string, runId: string) {
+      return {
+        runId,
+        timestamp: new Date().toISOString(),
+        status: "planned" as const,
+        vault: vaultAddress,
+        chainId: "31337",
+        block: 0,
+        thresholdBps: 100,
+        totalAssets: amount("1000").toString(),
+        strategies: [],
+      };
+    }
+
+    it("records the transaction while it is unconfirmed and clears it once mined", async function () {
+      const { vault, vaultAddress, bot } = await deployWithDeposit();
+      const rebalancer = new RebalancingBot(vault.connect(bot), bot, vaultAddress, {
+        journal,
+        alerts,
+        pendingTxs,
+        txManager: new TxManager(bot, { pollIntervalMs: 20 }),
+      });
+      await ethers.provider.send("evm_setAutomine", [false]);
+
+      const run = rebalancer.rebalance();
+      while (!pendingTxs.get("31337", vaultAddress)) {
+        await new Promise(resolve => setTimeout(resolve, 20));
+      }
+      const pending = pendingTxs.get("31337", vaultAddress)!;
+      expect(pending.entry.status).to.equal("planned");
+      expect(pending.nonce).to.equal(await ethers.provider.getTransactionCount(bot.address));
+
+      await ethers.provider.send("evm_mine", []);
+      await run;
+
+      expect(pendingTxs.get("31337", vaultAddress)).to.equal(undefined);
+      expect(journal.read().map(e => e.status)).to.deep.equal(["planned", "executed"]);
+      expect(journal.read()[1].txHash).to.equal(pending.txHash);
+    });
+
+    it("replaces a stuck rebalance and journals the replacement that was mined", async function () {
+      const { vault, vaultAddress, bot } = await deployWithDeposit();
+      const rebalancer = new RebalancingBot(vault.connect(bot), bot, vaultAddress, {
+        journal,
+        alerts,
+        pendingTxs,
+        txManager: new TxManager(bot, { stuckTimeoutSeconds: 0.05, pollIntervalMs: 20 }),
+      });
+      await ethers.provider.send("evm_setAutomine", [false]);
+
+      const run = rebalancer.rebalance();
+      while (!pendingTxs.get("31337", vaultAddress)?.replaces?.length) {
+        await new Promise(resolve => setTimeout(resolve, 20));
+      }
+      const pending = pendingTxs.get("31337", vaultAddress)!;
+      await ethers.provider.send("evm_mine", []);
+      await run;
+
+      const executed = journal.read()[1];
+      expect(executed.status).to.equal("executed");
+      expect(executed.txHash).to.equal(pending.txHash);
+      expect(pending.replaces).to.not.include(pending.txHash);
+      expect(await balances(vault)).to.deep.equal([amount("600"), amount("400")]);
+    });
+
+    it("waits for a transaction left pending by a previous process before planning", async function () {
+      const { vault, vaultAddress, bot } = await deployWithDeposit();
+      await ethers.provider.send("evm_setAutomine", [false]);
+      const tx = await vault.connect(bot).rebalance([amount("600"), amount("400")], [0n, 0n]);
+      pendingTxs.save({
+        vault: vaultAddress,
+        chainId: "31337",
+        txHash: tx.hash,
+        nonce: tx.nonce,
+        sentAt: new Date().toISOString(),
+        entry: plannedEntry(vaultAddress, "previous-run"),
+      });
+      const rebalancer = new RebalancingBot(vault.connect(bot), bot, vaultAddress, {
+        journal,
+        alerts,
+        pendingTxs,
+        txManager: new TxManager(bot, { pollIntervalMs: 20 }),
+      });
+
+      const run = rebalancer.rebalance();
+      await new Promise(resolve => setTimeout(resolve, 100));
+      await ethers.provider.send("evm_mine", []);
+      await ethers.provider.send("evm_setAutomine", [true]);
+      await run;
+
+      const entries = journal.read();
+      expect(entries.map(e => [e.runId, e.status])).to.deep.equal([
+        ["previous-run", "executed"],
+        [entries[1].runId, "skipped"],
+      ]);
+      expect(entries[0].txHash).to.equal(tx.hash);
+      expect(pendingTxs.get("31337", vaultAddress)).to.equal(undefined);
+    });
+
+    it("replaces a transaction a previous process left stuck in the mempool", async function () {
+      const { vault, vaultAddress, bot, strategies } = await deployWithDeposit();
+      await ethers.provider.send("evm_setAutomine", [false]);
+      const tx = await vault.connect(bot).rebalance([amount("600"), amount("400")], [0n, 0n]);
+      const planned = [amount("600"), amount("400")];
+      pendingTxs.save({
+        vault: vaultAddress,
+        chainId: "31337",
+        txHash: tx.hash,
+        nonce: tx.nonce,
+        // Sent long enough ago to count as stuck right away.
+        sentAt: new Date(Date.now() - 60 * 60 * 1000).toISOString(),
+        entry: {
+          ...plannedEntry(vaultAddress, "previous-run"),
+          strategies: await Promise.all(strategies.map(async (strategy, i) => ({
+            strategy: await strategy.getAddress(),
+            targetWeight: "0",
+            balanceBefore: "0",
+            targetAmount: planned[i].toString(),
+            deposit: planned[i].toString(),
+            withdraw: "0",
+          }))),
+        },
+      });
+      const rebalancer = new RebalancingBot(vault.connect(bot), bot, vaultAddress, {
+        journal,
+        alerts,
+        pendingTxs,
+        txManager: new TxManager(bot, { pollIntervalMs: 20 }),
+      });
+
+      const run = rebalancer.rebalance();
+      while (!pendingTxs.get("31337", vaultAddress)?.replaces?.length) {
+        await new Promise(resolve => setTimeout(resolve, 20));
+      }
+      const replaced = pendingTxs.get("31337", vaultAddress)!;
+      await ethers.provider.send("evm_mine", []);
+      await ethers.provider.send("evm_setAutomine", [true]);
+      await run;
+
+      expect(replaced.replaces).to.deep.equal([tx.hash]);
+      expect(replaced.nonce).to.equal(tx.nonce);
+      const entries = journal.read();
+      expect(entries.map(e => [e.runId, e.status])).to.deep.equal([
+        ["previous-run", "executed"],
+        [entries[1].runId, "skipped"],
+      ]);
+      expect(entries[0].txHash).to.equal(replaced.txHash);
+      expect(pendingTxs.get("31337", vaultAddress)).to.equal(undefined);
+      expect(await balances(vault)).to.deep.equal(planned);
+    });
+
+    it("ignores a transaction pending for the same vault address on another chain", async function () {
+      const { vault, vaultAddress, bot } = await deployWithDeposit();
+      const elsewhere = {
+        vault: vaultAddress,
+        chainId: "1",
+        txHash: "0x" + "22".repeat(32),
+        nonce: 0,
+        sentAt: new Date().toISOString(),
+        entry: { ...plannedEntry(vaultAddress, "mainnet-run"), chainId: "1" },
+      };
+      pendingTxs.save(elsewhere);
+      const rebalancer = new RebalancingBot(vault.connect(bot), bot, vaultAddress, { journal, alerts, pendingTxs });
+
+      await rebalancer.rebalance();
+
+      expect(journal.read().map(e => e.status)).to.deep.equal(["planned", "executed"]);
+      expect(pendingTxs.get("1", vaultAddress)).to.deep.equal(elsewhere);
+      expect(pendingTxs.get("31337", vaultAddress)).to.equal(undefined);
+    });
+
+    it("journals a transaction the node no longer knows as failed", async function () {
+      const { vault, vaultAddress, bot } = await deployWithDeposit();
+      pendingTxs.save({
+        vault: vaultAddress,
+        chainId: "31337",
+        txHash: "0x" + "11".repeat(32),
+        nonce: 0,
+        sentAt: new Date().toISOString(),
+        entry: plannedEntry(vaultAddress, "lost-run"),
+      });
+      const rebalancer = new RebalancingBot(vault.connect(bot), bot, vaultAddress, {
+        journal,
+        alerts,
+        pendingTxs,
+        txManager: new TxManager(bot, { pollIntervalMs: 20 }),
+      });
+
+      await rebalancer.rebalance();
+
+      const entries = journal.read();
+      expect(entries.map(e => e.status)).to.deep.equal(["failed", "planned", "executed"]);
+      expect(entries[0]).to.include({ runId: "lost-run", error: "Transaction dropped before it was mined" });
+      expect(sink.alerts.map(a => a.subject)).to.include("Rebalance failed");
+      expect(await balances(vault)).to.deep.equal([amount("600"), amount("400")]);
+    });
+  });
+
+  describe("balance sync", function () {
+    /** Rebalances 600/400, then lets the first child vault earn `yieldAmount` the vault has not seen. */
+    async function deployWithYield(yieldAmount: string) {
+      const fixture = await deployWithDeposit();
+      await new RebalancingBot(fixture.vault.connect(fixture.bot), fixture.bot, fixture.vaultAddress, {
+        journal: new RebalanceJournal(path.join(dataDir, "setup.jsonl")),
+        alerts,
+        pendingTxs,
+      }).rebalance();
+      await fixture.token.mint(await fixture.childVaults[0].getAddress(), amount(yieldAmount));
+      return fixture;
+    }
+
+    it("reports how far cached balances are from live ones", async function () {
+      const { vault, vaultAddress, bot, strategies } = await deployWithYield("100");
+      const rebalancer = new RebalancingBot(vault.connect(bot), bot, vaultAddress, { journal, alerts, pendingTxs });
+
+      const check = await rebalancer.checkSync();
+
+      expect(check.needsSync).to.equal(true);
+      expect(check.balances[0].strategy).to.equal(await strategies[0].getAddress());
+      expect(check.balances[0].cachedBalance).to.equal(amount("600"));
+      // 100 of 1100 total assets, less the child vault's share rounding.
+      expect(check.balances[0].discrepancyBps).to.be.within(908n, 909n);
+      expect(check.balances[1].discrepancyBps).to.equal(0n);
+    });
+
+    it("syncs before planning once the discrepancy passes the tolerance", async function () {
+      const { vault, vaultAddress, bot, strategies } = await deployWithYield("100");
+      const metrics = new BotMetrics();
+      const rebalancer = new RebalancingBot(vault.connect(bot), bot, vaultAddress, {
+        journal,
+        alerts,
+        pendingTxs,
+        metrics,
+        thresholdBps: 5000,
+        syncToleranceBps: 500,
+      });
+
+      await rebalancer.rebalance();
+
+      const [sync, skipped] = journal.read();
+      expect([sync.job, sync.status, skipped.job, skipped.status]).to.deep.equal(["sync", "executed", "rebalance", "skipped"]);
+      expect(sync.reason).to.match(/tolerance 5%/);
+      expect(sync.sync![0].liveBalance).to.equal((await strategies[0].getTotalAssets()).toString());
+      expect((await vault.getStrategies())[0].currentBalance).to.equal(await strategies[0].getTotalAssets());
+      expect(metrics.render()).to.include(`rayls_bot_balance_discrepancy_bps{vault="${vaultAddress}",strategy="${await strategies[0].getAddress()}"} 0`);
+    });
+
+    it("leaves balances within the tolerance cached but still reports them", async function () {
+      const { vault, vaultAddress, bot, strategies } = await deployWithYield("100");
+      const metrics = new BotMetrics();
+      const rebalancer = new RebalancingBot(vault.connect(bot), bot, vaultAddress, {
+        journal,
+        alerts,
+        pendingTxs,
+        metrics,
+        thresholdBps: 5000,
+        syncToleranceBps: 1000,
+      });
+
+      await rebalancer.rebalance();
+
+      expect(journal.read({ job: "sync" })).to.deep.equal([]);
+      expect((await vault.getStrategies())[0].currentBalance).to.equal(amount("600"));
+      expect(metrics.render()).to.match(
+        new RegExp(`rayls_bot_balance_discrepancy_bps\\{vault="${vaultAddress}",strategy="${await strategies[0].getAddress()}"\\} 90[89]`)
+      );
+    });
+  });
+
+  describe("harvest", function () {
+    async function deployWithRewards() {
+      const fixture = await loadFixture(deployRewardsFixture);
+      await fixture.vault.connect(fixture.user).deposit(amount("1000"), fixture.user.address);
+      return fixture;
+    }
+
+    const harvests = () => journal.read({ job: "harvest" });
+
+    it("harvests a strategy once simulation shows a gain above the minimum", async function () {
+      const { vault, vaultAddress, bot, rewards, rewardsAddress } = await deployWithRewards();
+      await rewards.setPendingRewards(amount("5"));
+      const rebalancer = new RebalancingBot(vault.connect(bot), bot, vaultAddress, {
+        journal,
+        alerts,
+        pendingTxs,
+        harvest: { strategies: { [rewardsAddress]: 60 }, minGain: "1" },
+      });
+
+      await rebalancer.rebalance();
+
+      const [entry] = harvests();
+      expect(entry.status).to.equal("executed");
+      expect(entry.harvest).to.deep.equal({
+        strategy: rewardsAddress,
+        totalAssetsBefore: "0",
+        totalAssetsAfter: amount("5").toString(),
+        gain: amount("5").toString(),
+      });
+      expect(await rewards.pendingRewards()).to.equal(0n);
+      // The rebalance that follows already counts the harvested yield.
+      expect(journal.read({ job: "rebalance" }).map(e => [e.status, e.totalAssets]))
+        .to.deep.equal([["planned", amount("1005").toString()], ["executed", amount("1005").toString()]]);
+    });
+
+    it("skips a harvest below the minimum gain and waits out the interval", async function () {
+      const { vault, vaultAddress, bot, rewardsAddress } = await deployWithRewards();
+      const rebalancer = new RebalancingBot(vault.connect(bot), bot, vaultAddress, {
+        journal,
+        alerts,
+        pendingTxs,
+        harvest: { strategies: { [rewardsAddress]: 60 } },
+      });
+
+      await rebalancer.rebalance();
+      await rebalancer.rebalance();
+
+      expect(harvests().map(e => e.status)).to.deep.equal(["skipped"]);
+      expect(harvests()[0].reason).to.match(/below the minimum/);
+    });
+
+    it("defers a harvest whose gas costs more than it gains", async function () {
+      const { vault, vaultAddress, bot, rewards, rewardsAddress } = await deployWithRewards();
+      await rewards.setPendingRewards(amount("0.001"));
+      const rebalancer = new RebalancingBot(vault.connect(bot), bot, vaultAddress, {
+        journal,
+        alerts,
+        pendingTxs,
+        cost: { nativePriceInAsset: "1000000" },
+        harvest: { intervalMinutes: 60 },
+      });
+
+      await rebalancer.rebalance();
+
+      const deferred = harvests().filter(e => e.status === "deferred");
+      expect(deferred.map(e => e.harvest!.strategy)).to.deep.equal([rewardsAddress]);
+      expect(deferred[0].reason).to.match(/exceeds harvest gain/);
+      expect(await rewards.pendingRewards()).to.equal(amount("0.001"));
+    });
+
+    it("alerts on a failing harvest without holding up the rebalance", async function () {
+      const { vault, vaultAddress, bot, rewards, rewardsAddress } = await deployWithRewards();
+      await rewards.setPendingRewards(ethers.MaxUint256);
+      const rebalancer = new RebalancingBot(vault.connect(bot), bot, vaultAddress, {
+        journal,
+        alerts,
+        pendingTxs,
+        harvest: { strategies: { [rewardsAddress]: 60 } },
+      });
+
+      await rebalancer.rebalance();
+
+      expect(harvests().map(e => e.status)).to.deep.equal(["failed"]);
+      expect(sink.alerts.map(a => [a.subject, a.key])).to.deep.include(["Harvest failed", `${vaultAddress}:${rewardsAddress}`]);
+      expect(journal.read({ job: "rebalance" }).map(e => e.status)).to.deep.equal(["planned", "executed"]);
+    });
+
+    it("picks up the harvest cadence from the journal after a restart", async function () {
+      const { vault, vaultAddress, bot, rewards, rewardsAddress } = await deployWithRewards();
+      await rewards.setPendingRewards(amount("5"));
+      const options = { journal, alerts, pendingTxs, harvest: { strategies: { [rewardsAddress]: 60 } } };
+      await new RebalancingBot(vault.connect(bot), bot, vaultAddress, options).rebalance();
+
+      const restarted = new RebalancingBot(vault.connect(bot), bot, vaultAddress, options);
+
+      expect(await restarted.dueHarvests()).to.deep.equal([]);
+      expect(await restarted.dueHarvests(Date.now() + 61 * 60 * 1000)).to.deep.equal([rewardsAddress]);
+    });
+  });
+
+  describe("cost policy", function () {
+    it("drops legs smaller than the minimum trade amount", async function () {
+      const { vault, vaultAddress, bot, user } = await deployWithDeposit();
+      await new RebalancingBot(vault.connect(bot), bot, vaultAddress, { journal, alerts, pendingTxs }).rebalance();
+      await vault.connect(user).deposit(amount("50"), user.address);
+      const rebalancer = new RebalancingBot(vault.connect(bot), bot, vaultAddress, {
+        journal,
+        alerts,
+        pendingTxs,
+        cost: { minTradeAmount: "25" },
+      });
+
+      const action = await rebalancer.calculateRebalance();
+
+      expect(action.depositAmounts).to.deep.equal([amount("30"), 0n]);
+      expect(action.needsRebalance).to.equal(true);
+    });
+
+    it("defers while the gas price is above the ceiling", async function () {
+      const { vault, vaultAddress, bot } = await deployWithDeposit();
+      const rebalancer = new RebalancingBot(vault.connect(bot), bot, vaultAddress, {
+        journal,
+        alerts,
+        pendingTxs,
+        cost: { maxGasPriceGwei: 0.001 },
+      });
+
+      await rebalancer.rebalance();
+
+      expect(await balances(vault)).to.deep.equal([0n, 0n]);
+      const [entry] = journal.read();
+      expect(entry.status).to.equal("deferred");
+      expect(entry.reason).to.match(/above the 0.001 gwei ceiling/);
+      expect(entry.gasEstimate).to.equal(undefined);
+    });
+
+    it("defers when the gas cost exceeds the expected benefit", async function () {
+      const { vault, vaultAddress, bot } = await deployWithDeposit();
+      const rebalancer = new RebalancingBot(vault.connect(bot), bot, vaultAddress, {
+        journal,
+        alerts,
+        pendingTxs,
+        cost: { nativePriceInAsset: "1000000", benefitBps: 10 },
+      });
+
+      await rebalancer.rebalance();
+
+      expect(await balances(vault)).to.deep.equal([0n, 0n]);
+      const [entry] = journal.read();
+      expect(entry.status).to.equal("deferred");
+      expect(entry.reason).to.match(/exceeds expected benefit 1.0 mUSD/);
+      expect(BigInt(entry.gasCost!)).to.equal(BigInt(entry.gasEstimate!) * BigInt(entry.gasPrice!));
+    });
+
+    it("executes when the expected benefit covers the gas cost", async function () {
+      const { vault, vaultAddress, bot } = await deployWithDeposit();
+      const rebalancer = new RebalancingBot(vault.connect(bot), bot, vaultAddress, {
+        journal,
+        alerts,
+        pendingTxs,
+        cost: { nativePriceInAsset: "1", benefitBps: 10, maxGasPriceGwei: 1000 },
+      });
+
+      await rebalancer.rebalance();
+
+      expect(await balances(vault)).to.deep.equal([amount("600"), amount("400")]);
+      expect(journal.read().map(e => e.status)).to.deep.equal(["planned", "executed"]);
+    });
+  });
+
+  describe("dry run", function () {
+    it("simulates the plan without sending a transaction", async function () {
+      const { vault, vaultAddress, other } = await deployWithDeposit();
+      const planDir = path.join(dataDir, "plans");
+      const rebalancer = new RebalancingBot(vault.connect(other), other, vaultAddress, { dryRun: { planDir }, journal, alerts });
+
+      await rebalancer.rebalance();
+
+      expect(await balances(vault)).to.deep.equal([0n, 0n]);
+
+      const [entry] = journal.read();
+      expect(entry.status).to.equal("simulated");
+      const plan = JSON.parse(fs.readFileSync(entry.planFile!, "utf-8"));
+      expect(plan.simulation).to.deep.equal({ success: true, error: null });
+      expect(plan.idleBefore).to.equal(amount("1000").toString());
+      expect(plan.idleAfter).to.equal("0");
+      expect(plan.strategies.map((s: { balanceAfter: string }) => s.balanceAfter)).to.deep.equal([
+        amount("600").toString(),
+        amount("400").toString(),
+      ]);
+      expect(plan.strategies.map((s: { weightAfterBps: string }) => s.weightAfterBps)).to.deep.equal(["6000", "4000"]);
+      expect(plan.cost.proceed).to.equal(true);
+    });
+
+    it("simulates against a historical block", async function () {
+      const { vault, vaultAddress, user, bot } = await deployWithDeposit();
+      const blockTag = await ethers.provider.getBlockNumber();
+      await vault.connect(user).deposit(amount("1000"), user.address);
+      const planDir = path.join(dataDir, "plans");
+      const rebalancer = new RebalancingBot(vault.connect(bot), bot, vaultAddress, { dryRun: { planDir, blockTag }, journal, alerts });
+
+      await rebalancer.rebalance();
+
+      const plan = JSON.parse(fs.readFileSync(journal.read()[0].planFile!, "utf-8"));
+      expect(plan.blockTag).to.equal(blockTag);
+      expect(plan.idleBefore).to.equal(amount("1000").toString());
+    });
+  });
+
+  describe("createBot", function () {
+    const keyEnv = "TEST_REBALANCE_BOT_KEY";
+
+    function runtime(dryRun: BotRuntime["dryRun"]): BotRuntime {
+      return { dryRun, journal, alerts, pendingTxs, signers: new Map(), txManagers: new Map() };
+    }
+
+    afterEach(function () {
+      delete process.env[keyEnv];
+    });
+
+    it("refuses a signer that is neither the bot nor the registry owner", async function () {
+      const { vaultAddress } = await loadFixture(deployVaultFixture);
+      process.env[keyEnv] = ethers.Wallet.createRandom().privateKey;
+
+      await expect(
+        createBot({ address: vaultAddress, thresholdBps: 100, syncToleranceBps: 50, intervalMinutes: 1, signer: { type: "privateKey", env: keyEnv }, cost: {}, harvest: {} }, runtime(null))
+      ).to.be.rejectedWith(/is not authorized/);
+    });
+
+    it("allows an unauthorized signer in dry-run mode", async function () {
+      const { vaultAddress } = await loadFixture(deployVaultFixture);
+      process.env[keyEnv] = ethers.Wallet.createRandom().privateKey;
+
+      const bot = await createBot(
+        { address: vaultAddress, thresholdBps: 100, syncToleranceBps: 50, intervalMinutes: 1, signer: { type: "privateKey", env: keyEnv }, cost: {}, harvest: {} },
+        runtime({ planDir: path.join(dataDir, "plans") })
+      );
+
+      expect(bot).to.be.instanceOf(RebalancingBot);
+    });
+
+    it("refuses RPC_URL without a signer source, since the hardhat accounts cannot sign for it", async function () {
+      const { vaultAddress } = await loadFixture(deployVaultFixture);
+
+      await expect(
+        createBot(
+          { address: vaultAddress, thresholdBps: 100, syncToleranceBps: 50, intervalMinutes: 1, cost: {}, harvest: {} },
+          { ...runtime(null), rpcUrl: "http://127.0.0.1:8545" }
+        )
+      ).to.be.rejectedWith(`RPC_URL is set but vault ${vaultAddress} has no signer`);
+    });
+
+    it("requires the configured signer key to be set", async function () {
+      const { vaultAddress } = await loadFixture(deployVaultFixture);
+
+      await expect(
+        createBot({ address: vaultAddress, thresholdBps: 100, syncToleranceBps: 50, intervalMinutes: 1, signer: { type: "privateKey", env: keyEnv }, cost: {}, harvest: {} }, runtime(null))
+      ).to.be.rejectedWith(`${keyEnv} environment variable is required`);
+    });
+  });
+});
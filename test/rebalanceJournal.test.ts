@@ -0,0 +1,105 @@
+import { expect } from "chai";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { JournalEntry, journalFilterFromEnv, RebalanceJournal } from "../script/rebalanceJournal";
+
+const VAULT_A = "0x00000000000000000000000000000000000000A1";
+const VAULT_B = "0x00000000000000000000000000000000000000b2";
+
+function entry(runId: string, overrides: Partial<JournalEntry> = {}): JournalEntry {
+  return {
+    runId,
+    timestamp: "2026-10-01T00:00:00.000Z",
+    status: "executed",
+    vault: VAULT_A,
+    chainId: "31337",
+    block: 1,
+    thresholdBps: 500,
+    strategies: [],
+    ...overrides,
+  };
+}
+
+describe("rebalance journal", function () {
+  let dir: string;
+  let journal: RebalanceJournal;
+
+  beforeEach(function () {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "rebalance-journal-test-"));
+    journal = new RebalanceJournal(path.join(dir, "bot-data", "journal.jsonl"));
+    journal.append(entry("a1", { timestamp: "2026-09-30T12:00:00.000Z", status: "failed", error: "reverted" }));
+    journal.append(entry("b1", { timestamp: "2026-10-01T00:00:00.000Z", vault: VAULT_B, status: "skipped" }));
+    journal.append(entry("a2", { timestamp: "2026-10-02T00:00:00.000Z", job: "harvest" }));
+    journal.append(entry("a3", { timestamp: "2026-10-03T00:00:00.000Z", status: "deferred" }));
+  });
+
+  afterEach(function () {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const runIds = (entries: JournalEntry[]) => entries.map(e => e.runId);
+
+  it("reads nothing from a journal that does not exist yet", function () {
+    expect(new RebalanceJournal(path.join(dir, "missing.jsonl")).read()).to.deep.equal([]);
+  });
+
+  it("reads every entry back in order", function () {
+    expect(runIds(journal.read())).to.deep.equal(["a1", "b1", "a2", "a3"]);
+    expect(journal.read()[0]).to.deep.equal(entry("a1", { timestamp: "2026-09-30T12:00:00.000Z", status: "failed", error: "reverted" }));
+  });
+
+  it("filters by vault, whatever its case", function () {
+    expect(runIds(journal.read({ vault: VAULT_A.toLowerCase() }))).to.deep.equal(["a1", "a2", "a3"]);
+    expect(runIds(journal.read({ vault: VAULT_B.toUpperCase().replace("0X", "0x") }))).to.deep.equal(["b1"]);
+  });
+
+  it("filters by time range, both ends inclusive", function () {
+    const since = new Date("2026-10-01T00:00:00.000Z");
+    const until = new Date("2026-10-02T00:00:00.000Z");
+
+    expect(runIds(journal.read({ since }))).to.deep.equal(["b1", "a2", "a3"]);
+    expect(runIds(journal.read({ until }))).to.deep.equal(["a1", "b1", "a2"]);
+    expect(runIds(journal.read({ since, until }))).to.deep.equal(["b1", "a2"]);
+  });
+
+  it("filters by outcome and job, treating entries without a job as rebalances", function () {
+    expect(runIds(journal.read({ status: ["failed", "deferred"] }))).to.deep.equal(["a1", "a3"]);
+    expect(runIds(journal.read({ job: "harvest" }))).to.deep.equal(["a2"]);
+    expect(runIds(journal.read({ job: "rebalance", status: ["executed"] }))).to.deep.equal([]);
+  });
+
+  it("keeps the most recent entries up to the limit", function () {
+    expect(runIds(journal.read({ vault: VAULT_A, limit: 2 }))).to.deep.equal(["a2", "a3"]);
+    expect(runIds(journal.read({ runId: "b1" }))).to.deep.equal(["b1"]);
+  });
+
+  it("skips a truncated last line and keeps the rest readable", function () {
+    fs.appendFileSync(path.join(dir, "bot-data", "journal.jsonl"), '{"runId":"cut');
+
+    expect(runIds(journal.read())).to.deep.equal(["a1", "b1", "a2", "a3"]);
+  });
+
+  it("builds the query command's filter from env", function () {
+    const filter = journalFilterFromEnv({
+      JOURNAL_VAULT: VAULT_A,
+      JOURNAL_STATUS: "failed, deferred",
+      JOURNAL_SINCE: "2026-09-30",
+      JOURNAL_UNTIL: "2026-10-03T00:00:00Z",
+      JOURNAL_LIMIT: "10",
+    });
+
+    expect(filter).to.deep.equal({
+      vault: VAULT_A,
+      job: undefined,
+      status: ["failed", "deferred"],
+      since: new Date("2026-09-30T00:00:00.000Z"),
+      until: new Date("2026-10-03T00:00:00.000Z"),
+      runId: undefined,
+      limit: 10,
+    });
+    expect(runIds(journal.read(filter))).to.deep.equal(["a1", "a3"]);
+    expect(journalFilterFromEnv({}).limit).to.equal(50);
+    expect(runIds(journal.read(journalFilterFromEnv({ JOURNAL_JOB: "harvest" })))).to.deep.equal(["a2"]);
+  });
+});
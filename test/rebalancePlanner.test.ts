@@ -0,0 +1,230 @@
+import { expect } from "chai";
+import { planRebalance, PlannerInput, RebalancePlan } from "../script/rebalancePlanner";
+
+const UNIT = 10n ** 18n;
+const units = (value: number) => BigInt(value) * UNIT;
+
+function strategy(targetWeight: number, currentBalance: bigint, name: string = `s${targetWeight}`) {
+  return { strategy: name, targetWeight: BigInt(targetWeight), currentBalance };
+}
+
+/** Deterministic PRNG (mulberry32) so a failing case can be replayed from its seed. */
+function random(seed: number) {
+  let state = seed >>> 0;
+  const next = () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  const int = (max: number) => Math.floor(next() * max);
+  const amount = () => {
+    // Mix empty, dust-sized and large balances.
+    switch (int(4)) {
+      case 0: return 0n;
+      case 1: return BigInt(int(1000));
+      default: return BigInt(int(1_000_000)) * 10n ** BigInt(int(19));
+    }
+  };
+  return { next, int, amount };
+}
+
+function randomInput(seed: number): PlannerInput {
+  const rng = random(seed);
+  const count = 1 + rng.int(6);
+  let remaining = rng.int(4) === 0 ? 10000 - rng.int(3000) : 10000;
+  const strategies = [];
+  for (let i = 0; i < count; i++) {
+    const weight = i === count - 1 ? remaining : rng.int(remaining + 1);
+    remaining -= weight;
+    strategies.push(strategy(weight, rng.amount(), `s${i}`));
+  }
+  return {
+    idle: rng.amount(),
+    strategies,
+    thresholdBps: rng.int(500),
+    minTradeAmount: rng.int(3) === 0 ? rng.amount() : 0n,
+  };
+}
+
+const sum = (values: bigint[]) => values.reduce((a, b) => a + b, 0n);
+const abs = (value: bigint) => (value < 0n ? -value : value);
+
+describe("planRebalance", function () {
+  it("measures drift against total assets, not the strategy's own balance", function () {
+    const plan = planRebalance({
+      idle: 0n,
+      strategies: [strategy(9900, units(1000)), strategy(100, 0n)],
+      thresholdBps: 100,
+    });
+
+    expect(plan.allocations[1].driftBps).to.equal(100n);
+    expect(plan.needsRebalance).to.equal(false);
+  });
+
+  it("deploys idle cash to the target weights", function () {
+    const plan = planRebalance({
+      idle: units(1000),
+      strategies: [strategy(6000, 0n), strategy(4000, 0n)],
+      thresholdBps: 100,
+    });
+
+    expect(plan.depositAmounts).to.deep.equal([units(600), units(400)]);
+    expect(plan.withdrawAmounts).to.deep.equal([0n, 0n]);
+    expect(plan.idleAfter).to.equal(0n);
+  });
+
+  it("funds deposits from withdrawals without touching idle cash it does not need", function () {
+    const plan = planRebalance({
+      idle: 0n,
+      strategies: [strategy(5000, units(800)), strategy(5000, units(200))],
+      thresholdBps: 100,
+    });
+
+    expect(plan.withdrawAmounts).to.deep.equal([units(300), 0n]);
+    expect(plan.depositAmounts).to.deep.equal([0n, units(300)]);
+  });
+
+  it("keeps the unallocated share of total assets as idle reserve", function () {
+    const plan = planRebalance({
+      idle: units(1000),
+      strategies: [strategy(8000, 0n)],
+      thresholdBps: 100,
+    });
+
+    expect(plan.idleTarget).to.equal(units(200));
+    expect(plan.depositAmounts).to.deep.equal([units(800)]);
+    expect(plan.idleAfter).to.equal(units(200));
+  });
+
+  it("fills the largest shortfall first when funds run short", function () {
+    const plan = planRebalance({
+      idle: 0n,
+      strategies: [strategy(2000, units(100)), strategy(3000, units(100)), strategy(5000, units(800))],
+      thresholdBps: 100,
+      minTradeAmount: 0n,
+    });
+
+    // s5000 is 300 over, s3000 is 200 under and s2000 is 100 under.
+    expect(plan.withdrawAmounts).to.deep.equal([0n, 0n, units(300)]);
+    expect(plan.depositAmounts).to.deep.equal([units(100), units(200), 0n]);
+  });
+
+  it("sweeps leftover idle cash into in-band strategies once idle itself drifts", function () {
+    const plan = planRebalance({
+      idle: units(15),
+      strategies: [strategy(5000, units(495)), strategy(5000, units(490))],
+      thresholdBps: 100,
+    });
+
+    // Each strategy is within 1%, but 1.5% of the vault sits idle.
+    expect(plan.depositAmounts).to.deep.equal([units(5), units(10)]);
+    expect(plan.idleAfter).to.equal(0n);
+  });
+
+  it("drops legs below the minimum trade amount", function () {
+    const plan = planRebalance({
+      idle: units(50),
+      strategies: [strategy(6000, units(600)), strategy(4000, units(400))],
+      thresholdBps: 100,
+      minTradeAmount: units(25),
+    });
+
+    expect(plan.depositAmounts).to.deep.equal([units(30), 0n]);
+  });
+
+  it("plans nothing for an empty vault", function () {
+    const plan = planRebalance({
+      idle: 0n,
+      strategies: [strategy(6000, 0n), strategy(4000, 0n)],
+      thresholdBps: 0,
+    });
+
+    expect(plan.needsRebalance).to.equal(false);
+    expect(plan.allocations.map(a => a.driftBps)).to.deep.equal([0n, 0n]);
+  });
+
+  describe("properties", function () {
+    const CASES = 2000;
+
+    /** Runs `property` over CASES random inputs; it returns false on a counterexample. */
+    function check(description: string, property: (input: PlannerInput, plan: RebalancePlan) => boolean) {
+      it(description, function () {
+        for (let seed = 1; seed <= CASES; seed++) {
+          const input = randomInput(seed);
+          if (!property(input, planRebalance(input))) {
+            expect.fail(`counterexample for seed ${seed}`);
+          }
+        }
+      });
+    }
+
+    check("never deposits more than idle cash plus the plan's withdrawals", (input, plan) =>
+      sum(plan.depositAmounts) <= input.idle + sum(plan.withdrawAmounts)
+    );
+
+    check("never dips into the idle reserve beyond what was already missing", (input, plan) => {
+      const floor = input.idle < plan.idleTarget ? input.idle : plan.idleTarget;
+      return plan.idleAfter >= floor
+        && plan.idleAfter === input.idle + sum(plan.withdrawAmounts) - sum(plan.depositAmounts);
+    });
+
+    check("never withdraws more than a strategy holds", (input, plan) =>
+      plan.withdrawAmounts.every((w, i) => w <= input.strategies[i].currentBalance)
+    );
+
+    check("never moves a strategy in both directions or past its target", (_input, plan) =>
+      plan.allocations.every((a, i) => {
+        const deposit = plan.depositAmounts[i];
+        const withdraw = plan.withdrawAmounts[i];
+        return (deposit === 0n || withdraw === 0n)
+          && (deposit === 0n || a.currentBalance + deposit <= a.targetAmount)
+          && (withdraw === 0n || a.currentBalance - withdraw >= a.targetAmount);
+      })
+    );
+
+    check("never increases a strategy's drift", (_input, plan) =>
+      plan.allocations.every((a, i) => {
+        const after = a.currentBalance + plan.depositAmounts[i] - plan.withdrawAmounts[i];
+        return abs(a.targetAmount - after) <= abs(a.targetAmount - a.currentBalance);
+      })
+    );
+
+    check("only sends legs of at least the minimum trade amount", (input, plan) =>
+      [...plan.depositAmounts, ...plan.withdrawAmounts].every(
+        amount => amount === 0n || amount >= (input.minTradeAmount ?? 0n)
+      )
+    );
+
+    check("never withdraws from a strategy within the threshold", (input, plan) =>
+      plan.allocations.every((a, i) => a.driftBps > BigInt(input.thresholdBps) || plan.withdrawAmounts[i] === 0n)
+    );
+
+    check("brings every out-of-band strategy to target when funds allow", (input, plan) => {
+      const minTrade = input.minTradeAmount ?? 0n;
+      const outOfBand = plan.allocations.map(a =>
+        a.driftBps > BigInt(input.thresholdBps) && abs(a.targetAmount - a.currentBalance) >= minTrade
+      );
+      const shortfall = sum(plan.allocations.map((a, i) =>
+        outOfBand[i] && a.targetAmount > a.currentBalance ? a.targetAmount - a.currentBalance : 0n
+      ));
+      const idleExcess = input.idle > plan.idleTarget ? input.idle - plan.idleTarget : 0n;
+      if (idleExcess + sum(plan.withdrawAmounts) < shortfall) return true;
+
+      return plan.allocations.every((a, i) =>
+        !outOfBand[i] || a.currentBalance + plan.depositAmounts[i] - plan.withdrawAmounts[i] === a.targetAmount
+      );
+    });
+
+    check("is a no-op on a vault that is already on target", (input) => {
+      const total = input.idle + sum(input.strategies.map(s => s.currentBalance));
+      const balanced = planRebalance({
+        ...input,
+        idle: total - sum(input.strategies.map(s => total * s.targetWeight / 10000n)),
+        strategies: input.strategies.map(s => ({ ...s, currentBalance: total * s.targetWeight / 10000n })),
+      });
+      return !balanced.needsRebalance;
+    });
+  });
+});
@@ -0,0 +1,180 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { encryptKeystoreJson, Provider, Transaction, Wallet } from "ethers";
+import * as fs from "fs";
+import * as http from "http";
+import * as os from "os";
+import * as path from "path";
+import { AddressInfo } from "net";
+import { assertNotPlaintext, createSigner, loadSigner, RemoteSigner, signerSourceFromEnv } from "../script/signers";
+
+/** A signer daemon holding `wallet`, answering the JSON-RPC methods RemoteSigner uses. */
+function startSignerDaemon(wallet: Wallet): Promise<http.Server> {
+  const server = http.createServer(async (req, res) => {
+    let body = "";
+    for await (const chunk of req) body += chunk;
+    const { id, method, params } = JSON.parse(body);
+
+    let result: any;
+    if (method === "eth_accounts") {
+      result = [wallet.address];
+    } else if (method === "eth_signTransaction") {
+      const tx = params[0];
+      result = await wallet.signTransaction({
+        type: tx.type === undefined ? undefined : Number(tx.type),
+        to: tx.to,
+        nonce: Number(tx.nonce),
+        gasLimit: tx.gas,
+        maxFeePerGas: tx.maxFeePerGas,
+        maxPriorityFeePerGas: tx.maxPriorityFeePerGas,
+        gasPrice: tx.gasPrice,
+        value: tx.value,
+        data: tx.data,
+        chainId: tx.chainId,
+      });
+    } else if (method === "personal_sign") {
+      result = await wallet.signMessage(ethers.getBytes(params[0]));
+    }
+
+    res.writeHead(200, { "content-type": "application/json" });
+    res.end(JSON.stringify(result === undefined
+      ? { jsonrpc: "2.0", id, error: { code: -32601, message: `${method} not supported` } }
+      : { jsonrpc: "2.0", id, result }));
+  });
+  return new Promise(resolve => server.listen(0, "127.0.0.1", () => resolve(server)));
+}
+
+describe("signerSourceFromEnv", function () {
+  it("reads a keystore or remote signer under the prefix", function () {
+    expect(signerSourceFromEnv("BOT_", { BOT_KEYSTORE: "key.json", BOT_KEYSTORE_PASSWORD_FILE: "pw" }))
+      .to.deep.equal({ type: "keystore", path: "key.json", passwordFile: "pw" });
+    expect(signerSourceFromEnv("BOT_", { BOT_REMOTE_SIGNER: "http://127.0.0.1:8550" }))
+      .to.deep.equal({ type: "remote", url: "http://127.0.0.1:8550", address: undefined });
+    expect(signerSourceFromEnv("BOT_", { WALLET_PRIVATE_KEY: "0x01" })).to.equal(null);
+  });
+
+  it("rejects more than one source", function () {
+    expect(() => signerSourceFromEnv("BOT_", { BOT_PRIVATE_KEY: "0x01", BOT_KEYSTORE: "key.json" }))
+      .to.throw(/Set only one of/);
+  });
+});
+
+describe("createSigner", function () {
+  let dir: string;
+
+  beforeEach(function () {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "signers-test-"));
+  });
+
+  afterEach(function () {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("decrypts a keystore with the passphrase from a file", async function () {
+    const wallet = Wallet.createRandom();
+    // Cheap scrypt parameters keep the test fast.
+    const json = await encryptKeystoreJson(
+      { address: wallet.address, privateKey: wallet.privateKey },
+      "correct horse",
+      { scrypt: { N: 1 << 10 } }
+    );
+    fs.writeFileSync(path.join(dir, "key.json"), json);
+    fs.writeFileSync(path.join(dir, "password"), "correct horse\n");
+
+    const signer = await createSigner(
+      { type: "keystore", path: path.join(dir, "key.json"), passwordFile: path.join(dir, "password") },
+      ethers.provider
+    );
+
+    expect(await signer.getAddress()).to.equal(wallet.address);
+    expect(signer.provider).to.equal(ethers.provider);
+  });
+
+  it("fails on a wrong passphrase", async function () {
+    const wallet = Wallet.createRandom();
+    const json = await encryptKeystoreJson(
+      { address: wallet.address, privateKey: wallet.privateKey },
+      "correct horse",
+      { scrypt: { N: 1 << 10 } }
+    );
+    fs.writeFileSync(path.join(dir, "key.json"), json);
+    fs.writeFileSync(path.join(dir, "password"), "wrong");
+
+    await expect(
+      createSigner({ type: "keystore", path: path.join(dir, "key.json"), passwordFile: path.join(dir, "password") }, ethers.provider)
+    ).to.be.rejectedWith(/incorrect password/);
+  });
+});
+
+describe("RemoteSigner", function () {
+  let server: http.Server;
+  let daemonWallet: Wallet;
+  let url: string;
+
+  beforeEach(async function () {
+    daemonWallet = new Wallet(Wallet.createRandom().privateKey);
+    server = await startSignerDaemon(daemonWallet);
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+    const [funder] = await ethers.getSigners();
+    await (await funder.sendTransaction({ to: daemonWallet.address, value: ethers.parseEther("1") })).wait();
+  });
+
+  afterEach(function (done) {
+    server.closeAllConnections();
+    server.close(done);
+  });
+
+  it("takes its address from the daemon and sends transactions it signed", async function () {
+    const signer = await createSigner({ type: "remote", url }, ethers.provider);
+    expect(await signer.getAddress()).to.equal(daemonWallet.address);
+
+    const recipient = Wallet.createRandom().address;
+    const tx = await signer.sendTransaction({ to: recipient, value: 1000n });
+    const receipt = await tx.wait();
+
+    expect(receipt!.from).to.equal(daemonWallet.address);
+    expect(await ethers.provider.getBalance(recipient)).to.equal(1000n);
+  });
+
+  it("signs messages", async function () {
+    const signer = new RemoteSigner(url, daemonWallet.address, ethers.provider);
+
+    const signature = await signer.signMessage("hello");
+
+    expect(ethers.verifyMessage("hello", signature)).to.equal(daemonWallet.address);
+  });
+
+  it("rejects a transaction signed by another account", async function () {
+    const signer = new RemoteSigner(url, Wallet.createRandom().address, ethers.provider);
+    const network = await ethers.provider.getNetwork();
+
+    const unsigned = Transaction.from({ to: daemonWallet.address, nonce: 0, gasLimit: 21000, gasPrice: 1, chainId: network.chainId });
+    await expect(signer.signTransaction(unsigned)).to.be.rejectedWith(/signed by/);
+  });
+});
+
+describe("assertNotPlaintext", function () {
+  const remoteChain = { getNetwork: async () => ({ chainId: 7295799n }) } as unknown as Provider;
+  const keySource = { type: "privateKey" as const, env: "BOT_PRIVATE_KEY" };
+
+  it("allows plaintext keys on a local chain", async function () {
+    await assertNotPlaintext(keySource, ethers.provider, {});
+    await assertNotPlaintext(null, ethers.provider, {});
+  });
+
+  it("refuses plaintext keys elsewhere unless explicitly allowed", async function () {
+    await expect(assertNotPlaintext(keySource, remoteChain, {})).to.be.rejectedWith(/Refusing to sign with a plaintext key from BOT_PRIVATE_KEY/);
+    await expect(assertNotPlaintext(null, remoteChain, {})).to.be.rejectedWith(/hardhat network accounts/);
+    await assertNotPlaintext(keySource, remoteChain, { ALLOW_PLAINTEXT_KEY: "true" });
+    await assertNotPlaintext({ type: "remote", url: "http://127.0.0.1:8550" }, remoteChain, {});
+  });
+
+  it("is applied by loadSigner", async function () {
+    await expect(loadSigner("WALLET_", remoteChain, {})).to.be.rejectedWith(/hardhat network accounts/);
+    await expect(loadSigner("WALLET_", remoteChain, { WALLET_PRIVATE_KEY: "0x01" })).to.be.rejectedWith(/from WALLET_PRIVATE_KEY/);
+
+    const [first] = await ethers.getSigners();
+    expect(await (await loadSigner("WALLET_", ethers.provider, {})).getAddress()).to.equal(first.address);
+  });
+});
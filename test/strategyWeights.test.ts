@@ -0,0 +1,100 @@
+import { expect } from "chai";
+import hre, { ethers } from "hardhat";
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+import { parseWeights, planWeights } from "../script/strategyWeights";
+import { deployChildStrategy, deployVaultFixture } from "./fixtures";
+
+const A = "0x00000000000000000000000000000000000000a1";
+const B = "0x00000000000000000000000000000000000000a2";
+const C = "0x00000000000000000000000000000000000000a3";
+
+function held(strategy: string, targetWeight: number, currentBalance: bigint = 0n) {
+  return { strategy, targetWeight: BigInt(targetWeight), currentBalance };
+}
+
+describe("strategy weights", function () {
+  it("parses inline weights and rejects sets that do not sum to 10000", function () {
+    expect(parseWeights(`${A}=6000, ${B}=4000`)).to.deep.equal([{ address: A, weight: 6000 }, { address: B, weight: 4000 }]);
+
+    expect(() => parseWeights(`${A}=6000,${B}=3000`)).to.throw(/must sum to 10000 bps \(got 9000\)/);
+    expect(() => parseWeights(`${A}=6000,${A}=4000`)).to.throw(/repeats/);
+    expect(() => parseWeights(`${A}=sixty,${B}=10000`)).to.throw(/strategies\[0\]\.weight must be a positive whole number/);
+  });
+
+  it("diffs against the current set, reductions first", function () {
+    const plan = planWeights(
+      [held(A, 6000), held(B, 4000)],
+      [{ address: A, weight: 3000 }, { address: C, weight: 7000 }]
+    );
+
+    expect(plan.rows.map(r => [r.kind, r.strategy, r.from, r.to])).to.deep.equal([
+      ["update", A, 6000n, 3000n],
+      ["remove", B, 4000n, null],
+      ["add", C, null, 7000n],
+    ]);
+    expect(plan.steps.map(s => s.kind)).to.deep.equal(["update", "remove", "add"]);
+
+    // Running the steps in order never takes the total above 10000.
+    let total = 10000n;
+    for (const step of plan.steps) {
+      total += (step.to ?? 0n) - (step.from ?? 0n);
+      expect(total <= 10000n).to.equal(true);
+    }
+  });
+
+  it("drains a strategy that still holds funds instead of removing it", function () {
+    const plan = planWeights([held(A, 5000), held(B, 5000, 100n)], [{ address: A, weight: 10000 }]);
+
+    expect(plan.steps.map(s => [s.kind, s.strategy, s.to])).to.deep.equal([["drain", B, 0n], ["update", A, 10000n]]);
+
+    const rerun = planWeights([held(A, 10000), held(B, 0, 100n)], [{ address: A, weight: 10000 }]);
+    expect(rerun.rows.map(r => r.kind)).to.deep.equal(["unchanged", "drain"]);
+    expect(rerun.steps).to.deep.equal([]);
+  });
+
+  it("drains a strategy whose cached balance is stale at 0 but still holds funds", function () {
+    const plan = planWeights(
+      [held(A, 5000), { ...held(B, 5000), liveBalance: 100n }],
+      [{ address: A, weight: 10000 }]
+    );
+
+    expect(plan.rows.map(r => [r.kind, r.strategy, r.balance])).to.deep.equal([["update", A, 0n], ["drain", B, 100n]]);
+  });
+
+  it("matches addresses regardless of case", function () {
+    const checksummed = ethers.getAddress(A);
+    const plan = planWeights([held(checksummed, 10000)], [{ address: A.toLowerCase(), weight: 10000 }]);
+    expect(plan.steps).to.deep.equal([]);
+  });
+
+  it("reconciles a vault's strategies on chain", async function () {
+    const { vault, vaultAddress, token, strategies } = await loadFixture(deployVaultFixture);
+    const [first, second] = await Promise.all(strategies.map(s => s.getAddress()));
+    const { strategy: third } = await deployChildStrategy(await token.getAddress(), 3);
+    await third.setVault(vaultAddress);
+    const thirdAddress = await third.getAddress();
+
+    await hre.run("vault:update-weights", {
+      vault: vaultAddress,
+      weights: `${first}=2500,${thirdAddress}=7500`,
+      yes: true,
+    });
+
+    const after = await vault.getStrategies();
+    expect(after.map(s => [s.strategy, s.targetWeight])).to.have.deep.members([[first, 2500n], [thirdAddress, 7500n]]);
+    expect(after.map(s => s.strategy)).to.not.include(second);
+  });
+
+  it("keeps a strategy the vault's cache shows empty while it holds live funds", async function () {
+    const { vault, vaultAddress, user, token, strategies, childVaults } = await loadFixture(deployVaultFixture);
+    const [first, second] = await Promise.all(strategies.map(s => s.getAddress()));
+    await token.connect(user).approve(await childVaults[1].getAddress(), ethers.MaxUint256);
+    // Funds reach the strategy without going through the vault, so its cached balance stays 0.
+    await childVaults[1].connect(user).deposit(ethers.parseUnits("50", 18), second);
+
+    await hre.run("vault:update-weights", { vault: vaultAddress, weights: `${first}=10000`, yes: true });
+
+    const after = await vault.getStrategies();
+    expect(after.map(s => [s.strategy, s.targetWeight, s.currentBalance])).to.deep.equal([[first, 10000n, 0n], [second, 0n, 0n]]);
+  });
+});
@@ -0,0 +1,34 @@
+import { expect } from "chai";
+import hre, { ethers } from "hardhat";
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+import { AddressBook } from "../script/addressBook";
+import { deployVaultFixture, useTempAddressBook } from "./fixtures";
+
+describe("vault tasks", function () {
+  useTempAddressBook();
+
+  it("deposits into and withdraws from a vault named in the address book", async function () {
+    const { owner, token, vault, vaultAddress } = await loadFixture(deployVaultFixture);
+    const asset = await token.getAddress();
+    const balance = await token.balanceOf(owner.address);
+    new AddressBook().update(31337, "hardhat", chain => {
+      chain.vaults.nyUSD = { address: vaultAddress, asset, strategies: [] };
+    });
+
+    await hre.run("vault:deposit", { amount: "250", vault: "nyUSD" });
+    expect(await vault.balanceOf(owner.address)).to.be.greaterThan(0n);
+    expect(await token.balanceOf(owner.address)).to.equal(balance - ethers.parseUnits("250", 18));
+
+    await hre.run("vault:withdraw", { all: true, vault: "nyUSD" });
+    expect(await vault.balanceOf(owner.address)).to.equal(0n);
+    expect(await token.balanceOf(owner.address)).to.equal(balance);
+  });
+
+  it("rejects bad addresses, amounts and option combinations before running", async function () {
+    await expect(hre.run("vault:deposit", { amount: "-1" })).to.be.rejectedWith(/Invalid value "-1" for --amount/);
+    await expect(hre.run("vault:rebalance", { vault: "0x1234" })).to.be.rejectedWith(/for --vault: expected a vault address/);
+    await expect(hre.run("vault:link-strategies", { strategies: ["0x1234"] })).to.be.rejectedWith(/--strategies/);
+    await expect(hre.run("vault:withdraw", { amount: "1", shares: "1" })).to.be.rejectedWith(/exactly one of --amount, --shares and --all/);
+    await expect(hre.run("vault:deposit", { amount: "1", vault: "nyUSD" })).to.be.rejectedWith(/No vault "nyUSD" on chain 31337/);
+  });
+});
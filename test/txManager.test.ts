@@ -0,0 +1,108 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { TransactionResponse } from "ethers";
+import { bumpFees, exceedsCap, TxManager } from "../script/txManager";
+
+const gwei = (value: number) => ethers.parseUnits(value.toString(), "gwei");
+
+describe("bumpFees", function () {
+  it("raises both EIP-1559 fields by the bump percentage", function () {
+    const bumped = bumpFees(
+      { type: 2, maxFeePerGas: gwei(20), maxPriorityFeePerGas: gwei(2) },
+      { type: 2, maxFeePerGas: gwei(10), maxPriorityFeePerGas: gwei(1) },
+      15
+    );
+
+    expect(bumped).to.deep.equal({ type: 2, maxFeePerGas: gwei(23), maxPriorityFeePerGas: gwei(2.3) });
+  });
+
+  it("follows the network when its fees rose further than the bump", function () {
+    const bumped = bumpFees({ type: 0, gasPrice: gwei(10) }, { type: 0, gasPrice: gwei(30) }, 15);
+
+    expect(bumped).to.deep.equal({ type: 0, gasPrice: gwei(30) });
+  });
+
+  it("is capped per field", function () {
+    const cap = { type: 2 as const, maxFeePerGas: gwei(60), maxPriorityFeePerGas: gwei(3) };
+
+    expect(exceedsCap({ type: 2, maxFeePerGas: gwei(30), maxPriorityFeePerGas: gwei(3) }, cap)).to.equal(false);
+    expect(exceedsCap({ type: 2, maxFeePerGas: gwei(30), maxPriorityFeePerGas: gwei(3.5) }, cap)).to.equal(true);
+    expect(exceedsCap({ type: 0, gasPrice: gwei(40) }, { type: 0, gasPrice: gwei(30) })).to.equal(true);
+  });
+});
+
+describe("TxManager", function () {
+  afterEach(async function () {
+    await ethers.provider.send("evm_setAutomine", [true]);
+  });
+
+  async function waitFor(condition: () => boolean) {
+    while (!condition()) {
+      await new Promise(resolve => setTimeout(resolve, 20));
+    }
+  }
+
+  it("gives concurrent transactions consecutive nonces", async function () {
+    const [signer, recipient] = await ethers.getSigners();
+    const manager = new TxManager(signer, { pollIntervalMs: 20 });
+    const start = await ethers.provider.getTransactionCount(signer.address);
+    await ethers.provider.send("evm_setAutomine", [false]);
+
+    const sent: TransactionResponse[] = [];
+    const receipts = Promise.all([1, 2, 3].map(() =>
+      manager.send({ to: recipient.address, value: 1n }, tx => sent.push(tx))
+    ));
+    await waitFor(() => sent.length === 3);
+    await ethers.provider.send("evm_mine", []);
+
+    expect((await receipts).map(r => r.status)).to.deep.equal([1, 1, 1]);
+    expect(sent.map(tx => tx.nonce).sort()).to.deep.equal([start, start + 1, start + 2]);
+  });
+
+  it("replaces a transaction that stays unmined past the timeout", async function () {
+    const [signer, recipient] = await ethers.getSigners();
+    const manager = new TxManager(signer, { stuckTimeoutSeconds: 0.05, pollIntervalMs: 20 });
+    await ethers.provider.send("evm_setAutomine", [false]);
+
+    const sent: TransactionResponse[] = [];
+    const receipt = manager.send({ to: recipient.address, value: 1n }, tx => sent.push(tx));
+    await waitFor(() => sent.length === 2);
+    await ethers.provider.send("evm_mine", []);
+
+    expect((await receipt).hash).to.equal(sent[1].hash);
+    expect(sent[1].nonce).to.equal(sent[0].nonce);
+    expect(sent[1].maxFeePerGas).to.be.gte(sent[0].maxFeePerGas! * 115n / 100n);
+  });
+
+  it("stops escalating at the fee cap", async function () {
+    const [signer, recipient] = await ethers.getSigners();
+    const manager = new TxManager(signer, { stuckTimeoutSeconds: 0.05, pollIntervalMs: 20, maxFeeMultiplier: 1.1 });
+    await ethers.provider.send("evm_setAutomine", [false]);
+
+    const sent: TransactionResponse[] = [];
+    const receipt = manager.send({ to: recipient.address, value: 1n }, tx => sent.push(tx));
+    await new Promise(resolve => setTimeout(resolve, 200));
+    await ethers.provider.send("evm_mine", []);
+
+    expect((await receipt).hash).to.equal(sent[0].hash);
+    expect(sent).to.have.length(1);
+  });
+
+  it("rejects with the receipt when the transaction reverts", async function () {
+    const [signer] = await ethers.getSigners();
+    const token = await ethers.deployContract("MockToken", ["Mock", "MCK"]);
+    const manager = new TxManager(signer, { pollIntervalMs: 20 });
+    const request = await token.transfer.populateTransaction(ethers.ZeroAddress, 1n, { gasLimit: 100_000n });
+
+    // Hardhat throws on broadcast under automine; a real node mines the revert.
+    await ethers.provider.send("evm_setAutomine", [false]);
+    const sent: TransactionResponse[] = [];
+    const result = manager.send(request, tx => sent.push(tx)).catch(e => e);
+    await waitFor(() => sent.length === 1);
+    await ethers.provider.send("evm_mine", []);
+    const error = await result;
+
+    expect(error.message).to.match(/reverted/);
+    expect(error.receipt.status).to.equal(0);
+  });
+});
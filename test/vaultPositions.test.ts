@@ -0,0 +1,99 @@
+import { expect } from "chai";
+import hre, { ethers } from "hardhat";
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { replayPositions, ShareEvent } from "../script/positionLedger";
+import { PositionReport } from "../script/vaultPositions";
+import { DAY, flatApy, YieldSimulator } from "../script/yieldSimulation";
+import { deployFundedVaultFixture } from "./fixtures";
+
+const A = "0x00000000000000000000000000000000000000a1";
+const B = "0x00000000000000000000000000000000000000a2";
+
+const amount = (value: string) => ethers.parseUnits(value, 18);
+
+describe("replayPositions", function () {
+  it("realizes P&L against the average cost of the shares redeemed", function () {
+    const events: ShareEvent[] = [
+      // Out of order on purpose: replay sorts by block and log index.
+      { kind: "withdraw", block: 3, logIndex: 0, owner: A, assets: 600n, shares: 50n },
+      { kind: "deposit", block: 1, logIndex: 0, owner: A, assets: 1000n, shares: 100n },
+      { kind: "deposit", block: 2, logIndex: 5, owner: A, assets: 500n, shares: 25n },
+    ];
+
+    const a = replayPositions(events).get(A)!;
+
+    // 125 shares for 1500 is 12 each; redeeming 50 takes 600 of basis out.
+    expect(a).to.deep.include({ shares: 75n, costBasis: 900n, deposited: 1500n, withdrawn: 600n, realizedPnl: 0n });
+  });
+
+  it("hands cost basis over with transferred shares", function () {
+    const positions = replayPositions([
+      { kind: "deposit", block: 1, logIndex: 0, owner: A, assets: 1000n, shares: 100n },
+      { kind: "transfer", block: 2, logIndex: 0, from: A, to: B, shares: 40n },
+      { kind: "withdraw", block: 3, logIndex: 0, owner: B, assets: 500n, shares: 40n },
+    ]);
+
+    expect(positions.get(A)).to.deep.include({ shares: 60n, costBasis: 600n, realizedPnl: 0n });
+    expect(positions.get(B)).to.deep.include({ shares: 0n, costBasis: 0n, deposited: 0n, withdrawn: 500n, realizedPnl: 100n });
+  });
+});
+
+describe("vault:position", function () {
+  let dir: string;
+
+  beforeEach(function () {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "vault-position-"));
+  });
+
+  afterEach(function () {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("reports realized and unrealized P&L per user and in total", async function () {
+    const { vault, vaultAddress, token, user, other, childVaults } = await loadFixture(deployFundedVaultFixture);
+    // Every child vault earns, so the vault's share price rises by ~0.82% over 30 days.
+    const sim = new YieldSimulator(token);
+    for (const childVault of childVaults) {
+      await sim.setCurve(childVault, flatApy(1000));
+    }
+    await sim.advance(30 * DAY, 30 * DAY);
+    await vault.connect(user).redeem(amount("250"), user.address, user.address);
+    await vault.connect(user).transfer(other.address, amount("250"));
+
+    const out = path.join(dir, "positions.json");
+    const report: PositionReport = await hre.run("vault:position", { vault: vaultAddress, format: "json", out });
+
+    const [positions] = report.vaults;
+    const [userRow, otherRow] = positions.users;
+    expect(positions.users.map(u => u.user)).to.deep.equal([user.address, other.address]);
+    expect(userRow).to.deep.include({ shares: amount("500"), deposited: amount("1000"), costBasis: amount("500") });
+    expect(userRow.realizedPnl).to.equal(userRow.withdrawn - amount("250"));
+    expect(userRow.realizedPnl > 0n).to.equal(true);
+    expect(otherRow).to.deep.include({ shares: amount("250"), costBasis: amount("250"), realizedPnl: 0n });
+    expect(otherRow.value).to.equal(await vault.convertToAssets(amount("250")));
+    // Each holder's value rounds down, so the total can be a few wei under totalAssets.
+    expect(positions.totals.value).to.be.closeTo(await vault.totalAssets(), 10n);
+    expect(positions.totals.unrealizedPnl).to.equal(userRow.unrealizedPnl + otherRow.unrealizedPnl);
+
+    const written = JSON.parse(fs.readFileSync(out, "utf-8"));
+    expect(written.vaults[0].users[1]).to.deep.include({ user: other.address, shares: "250.0", costBasis: "250.0" });
+  });
+
+  it("values positions at a past block and exports CSV", async function () {
+    const { vault, vaultAddress, user } = await loadFixture(deployFundedVaultFixture);
+    const monthEnd = await ethers.provider.getBlockNumber();
+    await vault.connect(user).deposit(amount("5"), user.address);
+
+    const out = path.join(dir, "positions.csv");
+    await hre.run("vault:position", { vault: vaultAddress, block: monthEnd, format: "csv", out });
+
+    const [header, userLine, totalLine, ...rest] = fs.readFileSync(out, "utf-8").trim().split("\n");
+    expect(header).to.equal("block,timestamp,vault,name,symbol,user,shares,deposited,withdrawn,costBasis,value,realizedPnl,unrealizedPnl");
+    expect(userLine.split(",").slice(5)).to.deep.equal([user.address, "1000.0", "1000.0", "0.0", "1000.0", "1000.0", "0.0", "0.0"]);
+    expect(totalLine.split(",")[5]).to.equal("total");
+    expect(rest).to.deep.equal([]);
+  });
+});
@@ -0,0 +1,198 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+import { Alert, AlertManager, AlertSink } from "../script/alerts";
+import { TxManager } from "../script/txManager";
+import { checkInvariants, DEFAULT_WATCHDOG_LIMITS, VaultSnapshot, VaultWatchdog } from "../script/vaultWatchdog";
+import { deployRewardsFixture, deploySingleStrategyVaultFixture } from "./fixtures";
+
+class RecordingSink implements AlertSink {
+  name = "recording";
+  minSeverity = "info" as const;
+  alerts: Alert[] = [];
+
+  async send(alert: Alert): Promise<void> {
+    this.alerts.push(alert);
+  }
+}
+
+const amount = (value: string) => ethers.parseUnits(value, 18);
+
+function snapshot(overrides: Partial<VaultSnapshot> = {}): VaultSnapshot {
+  return {
+    block: 1,
+    paused: false,
+    multiStrategy: true,
+    sharePrice: amount("1"),
+    totalAssets: amount("1000"),
+    idle: amount("100"),
+    strategies: [
+      { strategy: "0xa", cachedBalance: amount("600"), liveBalance: amount("600") },
+      { strategy: "0xb", cachedBalance: amount("300"), liveBalance: amount("300") },
+    ],
+    ...overrides,
+  };
+}
+
+describe("checkInvariants", function () {
+  it("passes a consistent vault", function () {
+    expect(checkInvariants(snapshot(), amount("1"), DEFAULT_WATCHDOG_LIMITS)).to.deep.equal([]);
+  });
+
+  it("flags a share price drop past the limit from the high-water mark", function () {
+    const limits = { ...DEFAULT_WATCHDOG_LIMITS, maxSharePriceDropBps: 100 };
+
+    expect(checkInvariants(snapshot({ sharePrice: amount("0.995") }), amount("1"), limits)).to.deep.equal([]);
+    expect(checkInvariants(snapshot({ sharePrice: amount("0.98") }), amount("1"), limits).map(b => b.invariant))
+      .to.deep.equal(["sharePrice"]);
+  });
+
+  it("flags a strategy holding far less than the vault has cached", function () {
+    const strategies = [
+      { strategy: "0xa", cachedBalance: amount("600"), liveBalance: amount("200") },
+      { strategy: "0xb", cachedBalance: amount("300"), liveBalance: amount("300") },
+    ];
+    const breaches = checkInvariants(
+      snapshot({ strategies, totalAssets: amount("600") }),
+      amount("1"),
+      DEFAULT_WATCHDOG_LIMITS
+    );
+
+    // The 400 lost also takes totalAssets() below the vault's books.
+    expect(breaches.map(b => b.invariant)).to.deep.equal(["strategyLoss", "totalAssets"]);
+    expect(breaches[0].message).to.include("0xa");
+  });
+
+  it("flags totalAssets below idle plus cached strategy balances", function () {
+    const strategies = [
+      { strategy: "0xa", cachedBalance: amount("600"), liveBalance: amount("550") },
+      { strategy: "0xb", cachedBalance: amount("300"), liveBalance: amount("300") },
+    ];
+    const breaches = checkInvariants(snapshot({ strategies, totalAssets: amount("950") }), amount("1"), DEFAULT_WATCHDOG_LIMITS);
+
+    expect(breaches.map(b => b.invariant)).to.deep.equal(["totalAssets"]);
+    expect(breaches[0].message).to.include("5%");
+  });
+
+  it("does not flag yield the vault has not synced yet", function () {
+    const strategies = [
+      { strategy: "0xa", cachedBalance: amount("600"), liveBalance: amount("650") },
+      { strategy: "0xb", cachedBalance: amount("300"), liveBalance: amount("300") },
+    ];
+
+    expect(checkInvariants(snapshot({ strategies, totalAssets: amount("1050") }), amount("1"), DEFAULT_WATCHDOG_LIMITS)).to.deep.equal([]);
+  });
+
+  it("flags assets left idle in a single-strategy vault", function () {
+    const single = { multiStrategy: false, strategies: [], totalAssets: amount("1000") };
+
+    expect(checkInvariants(snapshot({ ...single, idle: 0n }), amount("1"), DEFAULT_WATCHDOG_LIMITS)).to.deep.equal([]);
+    expect(checkInvariants(snapshot({ ...single, idle: amount("100") }), amount("1"), DEFAULT_WATCHDOG_LIMITS).map(b => b.invariant))
+      .to.deep.equal(["totalAssets"]);
+  });
+
+  it("does not compare totalAssets on a paused vault", function () {
+    // Paused, totalAssets() is only the idle balance.
+    const paused = snapshot({ paused: true, totalAssets: amount("100") });
+
+    expect(checkInvariants(paused, amount("1"), DEFAULT_WATCHDOG_LIMITS)).to.deep.equal([]);
+    expect(checkInvariants({ ...paused, multiStrategy: false, strategies: [] }, amount("1"), DEFAULT_WATCHDOG_LIMITS)).to.deep.equal([]);
+  });
+});
+
+describe("VaultWatchdog", function () {
+  let sink: RecordingSink;
+  let alerts: AlertManager;
+
+  beforeEach(function () {
+    sink = new RecordingSink();
+    alerts = new AlertManager([sink]);
+  });
+
+  /** 1000 deposited and rebalanced 600/200/200, the last 200 in the slashable rewards strategy. */
+  async function deployRebalanced() {
+    const fixture = await loadFixture(deployRewardsFixture);
+    await fixture.vault.connect(fixture.user).deposit(amount("1000"), fixture.user.address);
+    await fixture.vault.connect(fixture.bot).rebalance([amount("600"), amount("200"), amount("200")], [0n, 0n, 0n]);
+    return fixture;
+  }
+
+  const latestBlock = () => ethers.provider.getBlockNumber();
+
+  it("alerts when a strategy loss drags the share price down", async function () {
+    const { vault, vaultAddress, rewards, rewardsAddress } = await deployRebalanced();
+    const watchdog = new VaultWatchdog(vault, vaultAddress, { alerts });
+    expect(await watchdog.check(await latestBlock())).to.deep.equal([]);
+
+    await rewards.slash(amount("150"));
+    const breaches = await watchdog.check(await latestBlock());
+
+    expect(breaches.map(b => b.invariant)).to.deep.equal(["sharePrice", "strategyLoss", "totalAssets"]);
+    expect(breaches[1].message).to.include(rewardsAddress);
+    expect(sink.alerts.map(a => a.subject)).to.deep.equal(["Vault invariant breached"]);
+    expect(await vault.paused()).to.equal(false);
+  });
+
+  it("passes a healthy single-strategy vault and flags assets stranded in it", async function () {
+    const { vault, vaultAddress, token, owner } = await loadFixture(deploySingleStrategyVaultFixture);
+    const watchdog = new VaultWatchdog(vault, vaultAddress, { alerts });
+
+    const snapshot = await watchdog.snapshot(await latestBlock());
+    expect(snapshot).to.deep.include({ multiStrategy: false, totalAssets: amount("100"), idle: 0n, strategies: [] });
+    expect(await watchdog.check(await latestBlock())).to.deep.equal([]);
+
+    await token.mint(owner.address, amount("10"));
+    await token.transfer(vaultAddress, amount("10"));
+    const breaches = await watchdog.check(await latestBlock());
+
+    expect(breaches.map(b => b.invariant)).to.deep.equal(["totalAssets"]);
+    expect(breaches[0].message).to.include("10.0 mUSD sits idle");
+  });
+
+  it("leaves a paused vault alone", async function () {
+    const { vault, vaultAddress } = await loadFixture(deploySingleStrategyVaultFixture);
+    const watchdog = new VaultWatchdog(vault, vaultAddress, { alerts });
+    await watchdog.check(await latestBlock());
+
+    await vault.pause();
+    const snapshot = await watchdog.snapshot(await latestBlock());
+
+    // Paused, totalAssets() drops to the vault's idle balance.
+    expect(snapshot).to.deep.include({ paused: true, totalAssets: 0n });
+    expect(checkInvariants(snapshot, 0n, DEFAULT_WATCHDOG_LIMITS)).to.deep.equal([]);
+    expect(await watchdog.check(await latestBlock())).to.deep.equal([]);
+    expect(sink.alerts).to.deep.equal([]);
+  });
+
+  it("pauses the vault when given the registry owner", async function () {
+    const { vault, vaultAddress, owner, rewards } = await deployRebalanced();
+    const watchdog = new VaultWatchdog(vault, vaultAddress, {
+      alerts,
+      pauser: new TxManager(owner, { pollIntervalMs: 20 }),
+    });
+    await watchdog.check(await latestBlock());
+
+    await rewards.slash(amount("150"));
+    await watchdog.check(await latestBlock());
+
+    expect(await vault.paused()).to.equal(true);
+    expect(sink.alerts.map(a => a.subject)).to.deep.equal(["Vault invariant breached", "Vault paused by watchdog"]);
+    // A paused vault is left alone until someone unpauses it.
+    expect(await watchdog.check(await latestBlock())).to.deep.equal([]);
+  });
+
+  it("alerts when it cannot pause", async function () {
+    const { vault, vaultAddress, other, rewards } = await deployRebalanced();
+    const watchdog = new VaultWatchdog(vault, vaultAddress, {
+      alerts,
+      pauser: new TxManager(other, { pollIntervalMs: 20 }),
+    });
+    await watchdog.check(await latestBlock());
+
+    await rewards.slash(amount("150"));
+    await watchdog.check(await latestBlock());
+
+    expect(await vault.paused()).to.equal(false);
+    expect(sink.alerts.map(a => a.subject)).to.include("Watchdog could not pause vault");
+  });
+});
@@ -0,0 +1,88 @@
+import { expect } from "chai";
+import hre, { ethers } from "hardhat";
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { AlertManager } from "../script/alerts";
+import { RebalancingBot } from "../script/rebalanceBot";
+import { RebalanceJournal } from "../script/rebalanceJournal";
+import { PendingTxStore } from "../script/pendingTx";
+import { accruedYield, annualizedReturnBps, DAY, flatApy, runScenario, steppedApy, YieldSimulator } from "../script/yieldSimulation";
+import { deployFundedVaultFixture } from "./fixtures";
+
+const amount = (value: string) => ethers.parseUnits(value, 18);
+
+describe("yield simulation", function () {
+  it("evaluates curves and annualizes share price changes", function () {
+    const curve = steppedApy([{ from: 10 * DAY, apyBps: 300 }, { from: 0, apyBps: 800 }]);
+    expect([curve(0), curve(10 * DAY - 1), curve(10 * DAY), curve(400 * DAY)]).to.deep.equal([800, 800, 300, 300]);
+
+    expect(accruedYield(amount("1000"), 1000, 365 * DAY)).to.equal(amount("100"));
+    expect(annualizedReturnBps(amount("1"), amount("1.01"), 365 * DAY / 12)).to.equal(1200);
+  });
+
+  it("accrues yield into child vaults as time passes", async function () {
+    const { vault, token, childVaults, strategies } = await loadFixture(deployFundedVaultFixture);
+    const sim = new YieldSimulator(token);
+    await sim.setCurve(childVaults[0], flatApy(1000));
+    const start = await ethers.provider.getBlock("latest");
+
+    await sim.advance(10 * DAY);
+
+    const end = await ethers.provider.getBlock("latest");
+    expect(end!.timestamp - start!.timestamp).to.be.at.least(10 * DAY);
+    expect(sim.events.filter(e => e.kind === "yield")).to.have.length(10);
+    // 600 at 10% compounded daily for 10 days, and nothing on the second child vault.
+    expect(await strategies[0].getTotalAssets()).to.be.closeTo(amount("601.6459"), amount("0.001"));
+    expect(await strategies[1].getTotalAssets()).to.equal(amount("400"));
+    expect(await vault.totalAssets()).to.equal((await strategies[0].getTotalAssets()) + amount("400"));
+  });
+
+  it("runs steady yield at roughly the configured APY", async function () {
+    const { vaultAddress } = await loadFixture(deployFundedVaultFixture);
+
+    const result = await runScenario("steady-yield", vaultAddress, { days: 30, apyBps: 500 });
+
+    expect(result.childVaults).to.have.length(2);
+    expect(result.elapsed).to.equal(30 * DAY);
+    expect(annualizedReturnBps(result.sharePriceBefore, result.sharePriceAfter, result.elapsed)).to.be.within(500, 505);
+  });
+
+  it("gives the bot a loss to rebalance around", async function () {
+    const { vault, vaultAddress, bot } = await loadFixture(deployFundedVaultFixture);
+
+    const result = await hre.run("sim:scenario", { scenario: "sudden-loss", vault: vaultAddress, days: 10, apy: 0, loss: 2000 });
+
+    // 20% of the first child vault's 600 is lost: 880 left, to be held 528/352.
+    expect(result.events.map((e: { kind: string }) => e.kind)).to.deep.equal(["loss"]);
+    expect(await vault.totalAssets()).to.equal(amount("880"));
+    const rebalancer = new RebalancingBot(vault.connect(bot), bot, vaultAddress);
+    const plan = await rebalancer.calculateRebalance();
+    expect(plan.depositAmounts).to.deep.equal([amount("48"), 0n]);
+    expect(plan.withdrawAmounts).to.deep.equal([0n, amount("48")]);
+  });
+
+  it("fails the bot's rebalance into a paused strategy", async function () {
+    const { vault, vaultAddress, bot, user } = await loadFixture(deployFundedVaultFixture);
+    const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), "yield-simulation-"));
+    try {
+      const journal = new RebalanceJournal(path.join(dataDir, "journal.jsonl"));
+      await runScenario("strategy-paused", vaultAddress, { days: 1 });
+      await vault.connect(user).deposit(amount("500"), user.address);
+
+      const rebalancer = new RebalancingBot(vault.connect(bot), bot, vaultAddress, {
+        journal,
+        alerts: new AlertManager([]),
+        pendingTxs: new PendingTxStore(path.join(dataDir, "pending-tx.json")),
+      });
+      await rebalancer.rebalance();
+
+      const entries = journal.read();
+      expect(entries.map(e => e.status)).to.deep.equal(["failed"]);
+      expect(entries[0].error).to.include("EnforcedPause");
+    } finally {
+      fs.rmSync(dataDir, { recursive: true, force: true });
+    }
+  });
+});